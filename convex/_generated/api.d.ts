@@ -8,12 +8,34 @@
  * @module
  */
 
+import type * as broadcasts from "../broadcasts.js";
+import type * as commandTemplates from "../commandTemplates.js";
 import type * as commands from "../commands.js";
+import type * as crons from "../crons.js";
+import type * as escalations from "../escalations.js";
+import type * as floorPlanRevisions from "../floorPlanRevisions.js";
 import type * as floorPlans from "../floorPlans.js";
+import type * as intrusions from "../intrusions.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as lib_broadcastTarget from "../lib/broadcastTarget.js";
+import type * as lib_escalation from "../lib/escalation.js";
+import type * as lib_floorLevels from "../lib/floorLevels.js";
+import type * as lib_geo from "../lib/geo.js";
+import type * as lib_geoTransform from "../lib/geoTransform.js";
+import type * as lib_indoorPositioning from "../lib/indoorPositioning.js";
+import type * as lib_markerCategories from "../lib/markerCategories.js";
+import type * as lib_placeholders from "../lib/placeholders.js";
+import type * as lib_quickResponses from "../lib/quickResponses.js";
+import type * as lib_recurrence from "../lib/recurrence.js";
+import type * as lib_wayfinding from "../lib/wayfinding.js";
+import type * as locationRetention from "../locationRetention.js";
 import type * as locations from "../locations.js";
 import type * as mapZones from "../mapZones.js";
 import type * as organizations from "../organizations.js";
+import type * as reports from "../reports.js";
+import type * as scheduledCommands from "../scheduledCommands.js";
 import type * as tasks from "../tasks.js";
+import type * as workerGroups from "../workerGroups.js";
 import type * as workers from "../workers.js";
 
 import type {
@@ -23,12 +45,34 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  broadcasts: typeof broadcasts;
+  commandTemplates: typeof commandTemplates;
   commands: typeof commands;
+  crons: typeof crons;
+  escalations: typeof escalations;
+  floorPlanRevisions: typeof floorPlanRevisions;
   floorPlans: typeof floorPlans;
+  intrusions: typeof intrusions;
+  "lib/auth": typeof lib_auth;
+  "lib/broadcastTarget": typeof lib_broadcastTarget;
+  "lib/escalation": typeof lib_escalation;
+  "lib/floorLevels": typeof lib_floorLevels;
+  "lib/geo": typeof lib_geo;
+  "lib/geoTransform": typeof lib_geoTransform;
+  "lib/indoorPositioning": typeof lib_indoorPositioning;
+  "lib/markerCategories": typeof lib_markerCategories;
+  "lib/placeholders": typeof lib_placeholders;
+  "lib/quickResponses": typeof lib_quickResponses;
+  "lib/recurrence": typeof lib_recurrence;
+  "lib/wayfinding": typeof lib_wayfinding;
+  locationRetention: typeof locationRetention;
   locations: typeof locations;
   mapZones: typeof mapZones;
   organizations: typeof organizations;
+  reports: typeof reports;
+  scheduledCommands: typeof scheduledCommands;
   tasks: typeof tasks;
+  workerGroups: typeof workerGroups;
   workers: typeof workers;
 }>;
 
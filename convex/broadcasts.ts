@@ -0,0 +1,197 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getOrgMember, requireOrgAdmin, requireOrgDoc } from "./lib/auth";
+import { pointInZone } from "./lib/geo";
+import { broadcastTargetValidator, type BroadcastTarget } from "./lib/broadcastTarget";
+import { insertCommand } from "./commands";
+
+/**
+ * The workers a target currently covers, with a label for the record. Zone
+ * membership uses each worker's latest GPS fix, so workers without a
+ * location are never inside a zone.
+ */
+export async function resolveBroadcastTarget(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  target: BroadcastTarget
+): Promise<{ label: string; workers: Doc<"workers">[] }> {
+  const workers = await ctx.db
+    .query("workers")
+    .withIndex("by_organizationId", (q) => q.eq("organizationId", organizationId))
+    .collect();
+
+  switch (target.kind) {
+    case "all":
+      return { label: "Everyone", workers };
+    case "on_duty":
+      return { label: "On duty", workers: workers.filter((w) => w.isOnDuty) };
+    case "zone": {
+      const zone = await requireOrgDoc(ctx, target.zoneId, organizationId, "Zone not found");
+      const inside: Doc<"workers">[] = [];
+      for (const worker of workers) {
+        const loc = await ctx.db
+          .query("currentWorkerLocations")
+          .withIndex("by_workerId", (q) => q.eq("workerId", worker._id))
+          .unique();
+        if (loc && pointInZone(loc.latitude, loc.longitude, zone)) inside.push(worker);
+      }
+      return { label: `Zone: ${zone.name}`, workers: inside };
+    }
+    case "group": {
+      const group = await requireOrgDoc(ctx, target.groupId, organizationId, "Group not found");
+      const members = new Set<string>(group.workerIds);
+      return { label: `Group: ${group.name}`, workers: workers.filter((w) => members.has(w._id)) };
+    }
+  }
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────────────
+
+/** Recent broadcasts with delivery and acknowledgement counts, newest first. */
+export const getRecentBroadcasts = query({
+  args: {},
+  handler: async (ctx) => {
+    const member = await getOrgMember(ctx);
+    if (!member || member.worker.role !== "admin") return [];
+
+    const broadcasts = await ctx.db
+      .query("broadcasts")
+      .withIndex("by_organizationId_createdAt", (q) =>
+        q.eq("organizationId", member.organizationId)
+      )
+      .order("desc")
+      .take(20);
+
+    return await Promise.all(
+      broadcasts.map(async (b) => {
+        const commands = await ctx.db
+          .query("workerCommands")
+          .withIndex("by_broadcastId", (q) => q.eq("broadcastId", b._id))
+          .collect();
+        return {
+          ...b,
+          deliveredCount: commands.filter((c) => c.status !== "pending").length,
+          acknowledgedCount: commands.filter((c) => c.status === "acknowledged").length,
+        };
+      })
+    );
+  },
+});
+
+/** Every recipient of a broadcast with their delivery and acknowledgement times. */
+export const getRollCall = query({
+  args: { broadcastId: v.id("broadcasts") },
+  handler: async (ctx, args) => {
+    const member = await getOrgMember(ctx);
+    if (!member || member.worker.role !== "admin") return null;
+
+    const broadcast = await ctx.db.get(args.broadcastId);
+    if (!broadcast || broadcast.organizationId !== member.organizationId) return null;
+
+    const commands = await ctx.db
+      .query("workerCommands")
+      .withIndex("by_broadcastId", (q) => q.eq("broadcastId", broadcast._id))
+      .collect();
+
+    const recipients = await Promise.all(
+      commands.map(async (c) => {
+        const worker = await ctx.db.get(c.workerId);
+        return {
+          commandId: c._id,
+          workerId: c.workerId,
+          name: worker?.name ?? "Removed worker",
+          isOnDuty: worker?.isOnDuty ?? false,
+          lastSeen: worker?.lastSeen,
+          status: c.status,
+          deliveredAt: c.deliveredAt,
+          acknowledgedAt: c.acknowledgedAt,
+        };
+      })
+    );
+
+    // Still unaccounted for first, then by name
+    const order = { pending: 0, delivered: 1, acknowledged: 2 };
+    recipients.sort((a, b) => order[a.status] - order[b.status] || a.name.localeCompare(b.name));
+
+    const fromAdmin = await ctx.db.get(broadcast.fromAdminId);
+    return { ...broadcast, fromAdminName: fromAdmin?.name ?? "Unknown Admin", recipients };
+  },
+});
+
+// ─── Mutations ───────────────────────────────────────────────────────────────
+
+/**
+ * Sends one command to every worker the target covers, except the sender,
+ * and records the broadcast so acknowledgements can be tracked as a roll call.
+ * Nothing is recorded when the target covers nobody.
+ */
+export async function createBroadcast(
+  ctx: MutationCtx,
+  admin: Doc<"workers">,
+  organizationId: Id<"organizations">,
+  target: BroadcastTarget,
+  command: {
+    type: Doc<"broadcasts">["type"];
+    message?: string;
+    soundType: Doc<"broadcasts">["soundType"];
+  }
+): Promise<{ label: string; broadcastId: Id<"broadcasts"> | null; recipientCount: number }> {
+  const { label, workers } = await resolveBroadcastTarget(ctx, organizationId, target);
+  const recipients = workers.filter((w) => w._id !== admin._id);
+  if (recipients.length === 0) return { label, broadcastId: null, recipientCount: 0 };
+
+  const broadcastId = await ctx.db.insert("broadcasts", {
+    organizationId,
+    fromAdminId: admin._id,
+    target,
+    targetLabel: label,
+    ...command,
+    recipientCount: recipients.length,
+    createdAt: Date.now(),
+  });
+
+  for (const worker of recipients) {
+    await insertCommand(ctx, {
+      workerId: worker._id,
+      fromAdminId: admin._id,
+      broadcastId,
+      ...command,
+    });
+  }
+  return { label, broadcastId, recipientCount: recipients.length };
+}
+
+export const sendBroadcast = mutation({
+  args: {
+    target: broadcastTargetValidator,
+    type: v.union(
+      v.literal("sound_alert"),
+      v.literal("message"),
+      v.literal("sound_and_message")
+    ),
+    message: v.optional(v.string()),
+    soundType: v.union(
+      v.literal("alarm"),
+      v.literal("notification"),
+      v.literal("urgent")
+    ),
+  },
+  returns: v.object({ broadcastId: v.id("broadcasts"), recipientCount: v.number() }),
+  handler: async (ctx, args) => {
+    const { worker: admin, organizationId } = await requireOrgAdmin(ctx);
+
+    const { label, broadcastId, recipientCount } = await createBroadcast(
+      ctx,
+      admin,
+      organizationId,
+      args.target,
+      { type: args.type, message: args.message, soundType: args.soundType }
+    );
+    if (!broadcastId) {
+      throw new ConvexError(`No workers to notify (${label})`);
+    }
+    return { broadcastId, recipientCount };
+  },
+});
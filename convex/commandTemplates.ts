@@ -0,0 +1,96 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { getOrgMember, requireOrgAdmin, requireOrgDoc } from "./lib/auth";
+import { findUnknownPlaceholder } from "./lib/placeholders";
+
+const templateArgs = {
+  name: v.string(),
+  type: v.union(
+    v.literal("sound_alert"),
+    v.literal("message"),
+    v.literal("sound_and_message")
+  ),
+  soundType: v.union(
+    v.literal("alarm"),
+    v.literal("notification"),
+    v.literal("urgent")
+  ),
+  message: v.optional(v.string()),
+};
+
+type TemplateFields = Pick<Doc<"commandTemplates">, "name" | "type" | "soundType" | "message">;
+
+/**
+ * Trims the template and rejects placeholders that would never be filled in.
+ * Sound-only templates carry no message.
+ */
+function validateTemplate(template: TemplateFields): TemplateFields {
+  const name = template.name.trim();
+  if (!name) throw new ConvexError("Template name is required");
+
+  if (template.type === "sound_alert") {
+    return { name, type: template.type, soundType: template.soundType, message: undefined };
+  }
+
+  const message = template.message?.trim();
+  if (!message) throw new ConvexError("Template message is required");
+  const unknown = findUnknownPlaceholder(message);
+  if (unknown) throw new ConvexError(`Unknown placeholder {${unknown}}`);
+  return { name, type: template.type, soundType: template.soundType, message };
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────────────
+
+export const getCommandTemplates = query({
+  args: {},
+  handler: async (ctx) => {
+    const member = await getOrgMember(ctx);
+    if (!member) return [];
+    const templates = await ctx.db
+      .query("commandTemplates")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", member.organizationId))
+      .collect();
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// ─── Mutations (Admin only) ──────────────────────────────────────────────────
+
+export const createCommandTemplate = mutation({
+  args: templateArgs,
+  returns: v.id("commandTemplates"),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const now = Date.now();
+    return await ctx.db.insert("commandTemplates", {
+      organizationId,
+      ...validateTemplate(args),
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updateCommandTemplate = mutation({
+  args: { templateId: v.id("commandTemplates"), ...templateArgs },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const { templateId, ...fields } = args;
+    await requireOrgDoc(ctx, templateId, organizationId, "Template not found");
+    await ctx.db.patch(templateId, { ...validateTemplate(fields), updatedAt: Date.now() });
+    return null;
+  },
+});
+
+export const deleteCommandTemplate = mutation({
+  args: { templateId: v.id("commandTemplates") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.templateId, organizationId, "Template not found");
+    await ctx.db.delete(args.templateId);
+    return null;
+  },
+});
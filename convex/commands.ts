@@ -1,21 +1,152 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { QueryCtx, MutationCtx } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { ConvexError } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  getOrgMember,
+  getWorkerByClerkId,
+  requireAuth,
+  requireOrgAdmin,
+  requireOrgDoc,
+  requireOrgMember,
+  requireWorkerInOrg,
+} from "./lib/auth";
+import { buildTransform, planSizeMeters } from "./lib/geoTransform";
+import { resolveWorkerFloor } from "./lib/floorLevels";
+import { routeValidator, shortestRoute } from "./lib/wayfinding";
+import type { Route } from "./lib/wayfinding";
+import { escalationActionValidator } from "./lib/escalation";
+import { QUICK_RESPONSE_TEXT, quickResponseValidator } from "./lib/quickResponses";
+import { fillPlaceholders, hasPlaceholder } from "./lib/placeholders";
+import { pointInZone } from "./lib/geo";
+import { startEscalation, stopEscalation } from "./escalations";
 
-async function requireAuth(ctx: QueryCtx | MutationCtx) {
-  const identity = await ctx.auth.getUserIdentity();
-  if (!identity) {
-    throw new ConvexError("Authentication required");
+const MAX_REPLY_LENGTH = 1000;
+
+const replyValidator = v.object({
+  _id: v.id("commandReplies"),
+  authorId: v.id("workers"),
+  authorName: v.string(),
+  fromRecipient: v.boolean(),
+  text: v.string(),
+  quickResponse: v.optional(quickResponseValidator),
+  isUnread: v.boolean(),
+  createdAt: v.number(),
+});
+
+/** A command's replies, oldest first, with their authors' names. */
+async function loadReplies(ctx: QueryCtx, commandId: Id<"workerCommands">) {
+  const replies = await ctx.db
+    .query("commandReplies")
+    .withIndex("by_commandId", (q) => q.eq("commandId", commandId))
+    .collect();
+  return await Promise.all(
+    replies
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(async (r) => ({
+        _id: r._id,
+        authorId: r.authorId,
+        authorName: (await ctx.db.get(r.authorId))?.name ?? "Removed worker",
+        fromRecipient: r.fromRecipient,
+        text: r.text,
+        quickResponse: r.quickResponse,
+        isUnread: r.isUnread,
+        createdAt: r.createdAt,
+      }))
+  );
+}
+
+/**
+ * Loads a command for a status update or its conversation. The recipient may
+ * access their own commands; admins may access any command sent within their
+ * organization.
+ */
+async function requireCommandAccess(
+  ctx: QueryCtx,
+  commandId: Id<"workerCommands">
+) {
+  const { worker: caller, organizationId } = await requireOrgMember(ctx);
+  const command = await ctx.db.get(commandId);
+  if (!command) {
+    throw new ConvexError("Command not found");
+  }
+
+  const recipient = await ctx.db.get(command.workerId);
+  if (!recipient || recipient.organizationId !== organizationId) {
+    throw new ConvexError("Command not found");
+  }
+  if (caller.role !== "admin" && caller._id !== command.workerId) {
+    throw new ConvexError("Command not found");
   }
-  return identity;
+  return { caller, command, organizationId };
 }
 
-async function getWorkerByClerkId(ctx: QueryCtx | MutationCtx, clerkId: string) {
-  return await ctx.db
-    .query("workers")
-    .withIndex("by_clerkId", (q) => q.eq("clerkId", clerkId))
+/** Name of the first map zone the worker's latest GPS fix falls in, if any. */
+async function currentZoneName(ctx: QueryCtx, worker: Doc<"workers">) {
+  if (!worker.organizationId) return undefined;
+  const location = await ctx.db
+    .query("currentWorkerLocations")
+    .withIndex("by_workerId", (q) => q.eq("workerId", worker._id))
     .unique();
+  if (!location) return undefined;
+  const zones = await ctx.db
+    .query("mapZones")
+    .withIndex("by_organizationId", (q) =>
+      q.eq("organizationId", worker.organizationId as Id<"organizations">)
+    )
+    .collect();
+  return zones.find((z) => pointInZone(location.latitude, location.longitude, z))?.name;
+}
+
+/** Fills `{workerName}`, `{zoneName}` and `{adminName}` in a message for one recipient. */
+async function personalizeMessage(
+  ctx: QueryCtx,
+  message: string,
+  workerId: Id<"workers">,
+  fromAdminId: Id<"workers">
+) {
+  if (!message.includes("{")) return message;
+  const worker = await ctx.db.get(workerId);
+  const admin = await ctx.db.get(fromAdminId);
+  return fillPlaceholders(message, {
+    workerName: worker?.name,
+    adminName: admin?.name,
+    zoneName:
+      worker && hasPlaceholder(message, "zoneName")
+        ? (await currentZoneName(ctx, worker)) ?? "your area"
+        : undefined,
+  });
+}
+
+/**
+ * Queues a command for a worker, filling in message placeholders for them,
+ * and starts the organization's escalation policy for its sound type, if
+ * any. Shared by `sendCommand` and by server-side triggers (e.g.
+ * restricted-zone intrusions) that act on an admin's behalf.
+ */
+export async function insertCommand(
+  ctx: MutationCtx,
+  command: {
+    workerId: Id<"workers">;
+    fromAdminId: Id<"workers">;
+    broadcastId?: Id<"broadcasts">;
+    type: Doc<"workerCommands">["type"];
+    message?: string;
+    soundType: Doc<"workerCommands">["soundType"];
+    route?: Route;
+  }
+) {
+  const commandId = await ctx.db.insert("workerCommands", {
+    ...command,
+    message:
+      command.message &&
+      (await personalizeMessage(ctx, command.message, command.workerId, command.fromAdminId)),
+    status: "pending",
+    createdAt: Date.now(),
+  });
+  await startEscalation(ctx, commandId);
+  return commandId;
 }
 
 export const sendCommand = mutation({
@@ -35,25 +166,118 @@ export const sendCommand = mutation({
   },
   returns: v.id("workerCommands"),
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-    const admin = await getWorkerByClerkId(ctx, identity.subject);
-
-    if (!admin) {
-      throw new ConvexError("Admin user not found");
-    }
+    const { worker: admin, organizationId } = await requireOrgMember(ctx);
 
     if (admin.role !== "admin") {
       throw new ConvexError("Only admins can send commands");
     }
 
-    return await ctx.db.insert("workerCommands", {
+    await requireWorkerInOrg(ctx, args.workerId, organizationId);
+
+    return await insertCommand(ctx, {
       workerId: args.workerId,
       fromAdminId: admin._id,
       type: args.type,
       message: args.message,
       soundType: args.soundType,
-      status: "pending",
-      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Sends a worker walking directions to a floor marker, along the plan's
+ * corridor graph from wherever the worker currently is on that plan.
+ */
+export const sendRouteCommand = mutation({
+  args: {
+    workerId: v.id("workers"),
+    markerId: v.id("floorMarkers"),
+    message: v.optional(v.string()),
+  },
+  returns: v.id("workerCommands"),
+  handler: async (ctx, args) => {
+    const { worker: admin, organizationId } = await requireOrgMember(ctx);
+
+    if (admin.role !== "admin") {
+      throw new ConvexError("Only admins can send commands");
+    }
+
+    const worker = await requireWorkerInOrg(ctx, args.workerId, organizationId);
+    const marker = await requireOrgDoc(ctx, args.markerId, organizationId, "Marker not found");
+    const plan = await ctx.db.get(marker.floorPlanId);
+    if (!plan) throw new ConvexError("Floor plan not found");
+
+    const location = await ctx.db
+      .query("currentWorkerLocations")
+      .withIndex("by_workerId", (q) => q.eq("workerId", worker._id))
+      .unique();
+    if (!location) throw new ConvexError("Worker has no current location");
+
+    const buildingId = plan.buildingId;
+    if (buildingId) {
+      const levels = await ctx.db
+        .query("floorPlans")
+        .withIndex("by_buildingId", (q) => q.eq("buildingId", buildingId))
+        .collect();
+      const floor = resolveWorkerFloor(
+        levels,
+        worker.floorOverride,
+        location.altitude,
+        location.indoor?.floorPlanId
+      );
+      if (floor && floor.plan._id !== plan._id) {
+        throw new ConvexError(`Worker is on ${floor.plan.name}, not ${plan.name}`);
+      }
+    }
+
+    const transform = buildTransform(
+      plan.calibrationPoints,
+      plan.imageWidth,
+      plan.imageHeight,
+      plan.calibrationMode
+    );
+    const from =
+      location.indoor?.floorPlanId === plan._id
+        ? location.indoor
+        : transform?.(location.latitude, location.longitude) ?? null;
+    if (!from) throw new ConvexError("Worker's position on this floor plan is unknown");
+
+    const graph = await ctx.db
+      .query("floorCorridors")
+      .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", plan._id))
+      .unique();
+    if (!graph) throw new ConvexError("This floor plan has no corridors drawn");
+
+    const sizeM = planSizeMeters(
+      plan.calibrationPoints,
+      plan.imageWidth,
+      plan.imageHeight,
+      plan.calibrationMode
+    );
+    const path = shortestRoute(
+      graph,
+      { x: from.x, y: from.y },
+      { x: marker.x, y: marker.y },
+      sizeM ?? { width: plan.imageWidth, height: plan.imageHeight }
+    );
+    if (!path) throw new ConvexError(`No corridor route to ${marker.name}`);
+
+    const distanceM = sizeM ? Math.round(path.length) : undefined;
+    return await insertCommand(ctx, {
+      workerId: worker._id,
+      fromAdminId: admin._id,
+      type: "message",
+      message:
+        args.message?.trim() ||
+        `Go to ${marker.name}${distanceM !== undefined ? ` (${distanceM} m)` : ""}`,
+      soundType: "notification",
+      route: {
+        floorPlanId: plan._id,
+        markerId: marker._id,
+        markerName: marker.name,
+        points: path.points,
+        distanceM,
+      },
     });
   },
 });
@@ -66,6 +290,7 @@ export const getPendingCommands = query({
       _creationTime: v.number(),
       workerId: v.id("workers"),
       fromAdminId: v.id("workers"),
+      broadcastId: v.optional(v.id("broadcasts")),
       type: v.union(
         v.literal("sound_alert"),
         v.literal("message"),
@@ -77,6 +302,7 @@ export const getPendingCommands = query({
         v.literal("notification"),
         v.literal("urgent")
       ),
+      route: v.optional(routeValidator),
       status: v.union(
         v.literal("pending"),
         v.literal("delivered"),
@@ -85,6 +311,10 @@ export const getPendingCommands = query({
       createdAt: v.number(),
       deliveredAt: v.optional(v.number()),
       acknowledgedAt: v.optional(v.number()),
+      escalationPolicyId: v.optional(v.id("escalationPolicies")),
+      nextEscalationAt: v.optional(v.number()),
+      escalatedFromId: v.optional(v.id("workerCommands")),
+      escalationAction: v.optional(escalationActionValidator),
     })
   ),
   handler: async (ctx) => {
@@ -108,11 +338,7 @@ export const markDelivered = mutation({
   args: { commandId: v.id("workerCommands") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAuth(ctx);
-    const command = await ctx.db.get(args.commandId);
-    if (!command) {
-      throw new ConvexError("Command not found");
-    }
+    await requireCommandAccess(ctx, args.commandId);
     await ctx.db.patch(args.commandId, {
       status: "delivered",
       deliveredAt: Date.now(),
@@ -125,15 +351,12 @@ export const markAcknowledged = mutation({
   args: { commandId: v.id("workerCommands") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAuth(ctx);
-    const command = await ctx.db.get(args.commandId);
-    if (!command) {
-      throw new ConvexError("Command not found");
-    }
+    const { command } = await requireCommandAccess(ctx, args.commandId);
     await ctx.db.patch(args.commandId, {
       status: "acknowledged",
       acknowledgedAt: Date.now(),
     });
+    await stopEscalation(ctx, command);
     return null;
   },
 });
@@ -148,6 +371,7 @@ export const getCommandHistory = query({
       _creationTime: v.number(),
       workerId: v.id("workers"),
       fromAdminId: v.id("workers"),
+      broadcastId: v.optional(v.id("broadcasts")),
       type: v.union(
         v.literal("sound_alert"),
         v.literal("message"),
@@ -159,6 +383,7 @@ export const getCommandHistory = query({
         v.literal("notification"),
         v.literal("urgent")
       ),
+      route: v.optional(routeValidator),
       status: v.union(
         v.literal("pending"),
         v.literal("delivered"),
@@ -167,11 +392,38 @@ export const getCommandHistory = query({
       createdAt: v.number(),
       deliveredAt: v.optional(v.number()),
       acknowledgedAt: v.optional(v.number()),
+      escalationPolicyId: v.optional(v.id("escalationPolicies")),
+      nextEscalationAt: v.optional(v.number()),
+      escalatedFromId: v.optional(v.id("workerCommands")),
+      escalationAction: v.optional(escalationActionValidator),
       fromAdminName: v.string(),
+      replies: v.array(replyValidator),
+      // On commands that escalated: what each step sent, oldest first
+      escalationChain: v.optional(
+        v.array(
+          v.object({
+            _id: v.id("workerCommands"),
+            action: escalationActionValidator,
+            workerName: v.string(),
+            soundType: v.union(
+              v.literal("alarm"),
+              v.literal("notification"),
+              v.literal("urgent")
+            ),
+            status: v.union(
+              v.literal("pending"),
+              v.literal("delivered"),
+              v.literal("acknowledged")
+            ),
+            createdAt: v.number(),
+          })
+        )
+      ),
     })
   ),
   handler: async (ctx, args) => {
-    await requireAuth(ctx);
+    const { organizationId } = await requireOrgMember(ctx);
+    await requireWorkerInOrg(ctx, args.workerId, organizationId);
 
     const commands = await ctx.db
       .query("workerCommands")
@@ -179,12 +431,39 @@ export const getCommandHistory = query({
       .order("desc")
       .take(50);
 
+    // Resends to this worker are shown inside their original's chain instead
+    const listed = new Set(commands.map((cmd) => cmd._id));
+    const topLevel = commands.filter(
+      (cmd) => !(cmd.escalatedFromId && listed.has(cmd.escalatedFromId))
+    );
+
     const commandsWithAdmin = await Promise.all(
-      commands.map(async (cmd) => {
+      topLevel.map(async (cmd) => {
         const admin = await ctx.db.get(cmd.fromAdminId);
+        const replies = await loadReplies(ctx, cmd._id);
+        if (!cmd.escalationPolicyId) {
+          return { ...cmd, fromAdminName: admin?.name ?? "Unknown Admin", replies };
+        }
+
+        const chain = await ctx.db
+          .query("workerCommands")
+          .withIndex("by_escalatedFromId", (q) => q.eq("escalatedFromId", cmd._id))
+          .collect();
+        const escalationChain = await Promise.all(
+          chain.map(async (c) => ({
+            _id: c._id,
+            action: c.escalationAction ?? "resend",
+            workerName: (await ctx.db.get(c.workerId))?.name ?? "Removed worker",
+            soundType: c.soundType,
+            status: c.status,
+            createdAt: c.createdAt,
+          }))
+        );
         return {
           ...cmd,
           fromAdminName: admin?.name ?? "Unknown Admin",
+          replies,
+          escalationChain: escalationChain.sort((a, b) => a.createdAt - b.createdAt),
         };
       })
     );
@@ -192,3 +471,119 @@ export const getCommandHistory = query({
     return commandsWithAdmin;
   },
 });
+
+// ─── Replies ─────────────────────────────────────────────────────────────────
+
+/** The conversation on one command, for the recipient's app or an admin. */
+export const getCommandThread = query({
+  args: { commandId: v.id("workerCommands") },
+  returns: v.array(replyValidator),
+  handler: async (ctx, args) => {
+    await requireCommandAccess(ctx, args.commandId);
+    return await loadReplies(ctx, args.commandId);
+  },
+});
+
+/**
+ * Adds a free-text or quick reply to a command's thread. A reply from the
+ * recipient counts as acknowledging the command and is badged as unread for
+ * admins until they open the worker's conversation.
+ */
+export const replyToCommand = mutation({
+  args: {
+    commandId: v.id("workerCommands"),
+    text: v.optional(v.string()),
+    quickResponse: v.optional(quickResponseValidator),
+  },
+  returns: v.id("commandReplies"),
+  handler: async (ctx, args) => {
+    const { caller, command, organizationId } = await requireCommandAccess(ctx, args.commandId);
+
+    const text =
+      args.text?.trim() || (args.quickResponse && QUICK_RESPONSE_TEXT[args.quickResponse]);
+    if (!text) throw new ConvexError("Reply cannot be empty");
+    if (text.length > MAX_REPLY_LENGTH) {
+      throw new ConvexError(`Replies are limited to ${MAX_REPLY_LENGTH} characters`);
+    }
+
+    const fromRecipient = caller._id === command.workerId;
+    if (fromRecipient && command.status !== "acknowledged") {
+      const now = Date.now();
+      await ctx.db.patch(command._id, {
+        status: "acknowledged",
+        deliveredAt: command.deliveredAt ?? now,
+        acknowledgedAt: now,
+      });
+      await stopEscalation(ctx, command);
+    }
+
+    return await ctx.db.insert("commandReplies", {
+      commandId: command._id,
+      organizationId,
+      authorId: caller._id,
+      fromRecipient,
+      text,
+      quickResponse: args.quickResponse,
+      isUnread: fromRecipient,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/** Unread worker replies across the organization, per worker, for badges. */
+export const getUnreadReplies = query({
+  args: {},
+  returns: v.object({
+    total: v.number(),
+    byWorker: v.array(
+      v.object({
+        workerId: v.id("workers"),
+        count: v.number(),
+        latestAt: v.number(),
+      })
+    ),
+  }),
+  handler: async (ctx) => {
+    const member = await getOrgMember(ctx);
+    if (!member || member.worker.role !== "admin") return { total: 0, byWorker: [] };
+    const { organizationId } = member;
+
+    const unread = await ctx.db
+      .query("commandReplies")
+      .withIndex("by_organizationId_isUnread", (q) =>
+        q.eq("organizationId", organizationId).eq("isUnread", true)
+      )
+      .collect();
+
+    const byWorker: Record<string, { workerId: Id<"workers">; count: number; latestAt: number }> = {};
+    for (const reply of unread) {
+      const entry = (byWorker[reply.authorId] ??= { workerId: reply.authorId, count: 0, latestAt: 0 });
+      entry.count++;
+      entry.latestAt = Math.max(entry.latestAt, reply.createdAt);
+    }
+    return {
+      total: unread.length,
+      byWorker: Object.values(byWorker).sort((a, b) => b.latestAt - a.latestAt),
+    };
+  },
+});
+
+/** Clears the unread badge for a worker's replies once an admin has seen them. */
+export const markRepliesRead = mutation({
+  args: { workerId: v.id("workers") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+
+    const unread = await ctx.db
+      .query("commandReplies")
+      .withIndex("by_organizationId_isUnread", (q) =>
+        q.eq("organizationId", organizationId).eq("isUnread", true)
+      )
+      .collect();
+    for (const reply of unread) {
+      if (reply.authorId === args.workerId) await ctx.db.patch(reply._id, { isUnread: false });
+    }
+    return null;
+  },
+});
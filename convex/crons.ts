@@ -0,0 +1,12 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.daily(
+  "compact location history",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.locationRetention.compactAllHistory
+);
+
+export default crons;
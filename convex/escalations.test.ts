@@ -0,0 +1,118 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import schema from "./schema";
+import type { EscalationStep } from "./lib/escalation";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+/** An organization with an admin, the given workers and one policy for urgent commands. */
+async function seed(
+  t: ReturnType<typeof convexTest>,
+  workerNames: string[],
+  steps: EscalationStep[]
+) {
+  return await t.run(async (ctx) => {
+    const now = Date.now();
+    const addWorker = (name: string, role: "admin" | "worker") =>
+      ctx.db.insert("workers", {
+        clerkId: name,
+        email: `${name}@example.com`,
+        name,
+        role,
+        isOnDuty: true,
+        createdAt: now,
+      });
+
+    const admin = await addWorker("admin", "admin");
+    const organizationId = await ctx.db.insert("organizations", {
+      name: "Org",
+      joinCode: "ORGORG",
+      createdBy: admin,
+      createdAt: now,
+    });
+    await ctx.db.patch(admin, { organizationId });
+    const workers: Id<"workers">[] = [];
+    for (const name of workerNames) {
+      const worker = await addWorker(name, "worker");
+      await ctx.db.patch(worker, { organizationId });
+      workers.push(worker);
+    }
+
+    await ctx.db.insert("escalationPolicies", {
+      organizationId,
+      name: "Urgent",
+      soundTypes: ["urgent"],
+      steps,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { admin, workers };
+  });
+}
+
+describe("escalation of broadcasts", () => {
+  let t: ReturnType<typeof convexTest>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    t = convexTest(schema, modules);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function broadcastAndEscalate(beforeEscalating?: () => Promise<void>) {
+    const admin = t.withIdentity({ subject: "admin" });
+    const { broadcastId } = await admin.mutation(api.broadcasts.sendBroadcast, {
+      target: { kind: "all" },
+      type: "message",
+      message: "Evacuate",
+      soundType: "urgent",
+    });
+    await beforeEscalating?.();
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    return broadcastId;
+  }
+
+  test("acknowledging a resend counts in the roll call", async () => {
+    await seed(t, ["ana"], [{ afterMinutes: 1, action: "resend" }]);
+    const broadcastId = await broadcastAndEscalate();
+
+    const worker = t.withIdentity({ subject: "ana" });
+    const pending = await worker.query(api.commands.getPendingCommands, {});
+    const resend = pending.find((c) => c.escalatedFromId !== undefined);
+    expect(resend?.escalationAction).toBe("resend");
+    await worker.mutation(api.commands.markAcknowledged, { commandId: resend!._id });
+
+    const admin = t.withIdentity({ subject: "admin" });
+    const rollCall = await admin.query(api.broadcasts.getRollCall, { broadcastId });
+    expect(rollCall?.recipients.map((r) => r.status)).toEqual(["acknowledged"]);
+    expect(rollCall?.recipients[0].acknowledgedAt).toBeDefined();
+    const [recent] = await admin.query(api.broadcasts.getRecentBroadcasts, {});
+    expect(recent.acknowledgedCount).toBe(1);
+    expect(recent.deliveredCount).toBe(1);
+  });
+
+  test("notifies admins once per broadcast, naming who has not acknowledged", async () => {
+    await seed(t, ["ana", "bo", "cy"], [{ afterMinutes: 1, action: "notify_admins" }]);
+    await broadcastAndEscalate(async () => {
+      const worker = t.withIdentity({ subject: "ana" });
+      const [command] = await worker.query(api.commands.getPendingCommands, {});
+      await worker.mutation(api.commands.markAcknowledged, { commandId: command._id });
+    });
+
+    const admin = t.withIdentity({ subject: "admin" });
+    const notices = await admin.query(api.commands.getPendingCommands, {});
+    expect(notices).toHaveLength(1);
+    expect(notices[0].message).toBe(
+      "2 of 3 have not acknowledged the urgent broadcast (Everyone): bo, cy"
+    );
+  });
+});
@@ -0,0 +1,351 @@
+import { ConvexError, v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getOrgMember, requireOrgAdmin, requireOrgDoc, requireWorkerInOrg } from "./lib/auth";
+import {
+  MAX_ESCALATION_MINUTES,
+  MAX_ESCALATION_STEPS,
+  escalationStepValidator,
+  louderSound,
+  upgradeSound,
+  type EscalationStep,
+} from "./lib/escalation";
+
+const MINUTE_MS = 60 * 1000;
+const MAX_NOTICE_NAMES = 10;
+
+const soundTypeValidator = v.union(
+  v.literal("alarm"),
+  v.literal("notification"),
+  v.literal("urgent")
+);
+
+type SoundType = Doc<"workerCommands">["soundType"];
+
+/**
+ * Trims and checks a policy: steps in ascending time order, a backup worker
+ * from the organization on every notify_backup step, and no sound type that
+ * another active policy already escalates.
+ */
+async function validatePolicy(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  policy: { name: string; soundTypes: SoundType[]; steps: EscalationStep[]; isActive: boolean },
+  policyId?: Id<"escalationPolicies">
+) {
+  const name = policy.name.trim();
+  if (!name) throw new ConvexError("Policy name is required");
+
+  const soundTypes = [...new Set(policy.soundTypes)];
+  if (soundTypes.length === 0) throw new ConvexError("Choose at least one sound type to escalate");
+
+  if (policy.steps.length === 0) throw new ConvexError("Add at least one escalation step");
+  if (policy.steps.length > MAX_ESCALATION_STEPS) {
+    throw new ConvexError(`A policy can have at most ${MAX_ESCALATION_STEPS} steps`);
+  }
+
+  const steps: EscalationStep[] = [];
+  let previous = 0;
+  for (const step of policy.steps) {
+    if (!Number.isInteger(step.afterMinutes) || step.afterMinutes <= previous) {
+      throw new ConvexError("Each step must come at least a minute after the previous one");
+    }
+    if (step.afterMinutes > MAX_ESCALATION_MINUTES) {
+      throw new ConvexError("Escalation steps must run within 24 hours");
+    }
+    previous = step.afterMinutes;
+
+    if (step.action === "notify_backup") {
+      if (!step.backupWorkerId) throw new ConvexError("Choose a backup worker to notify");
+      await requireWorkerInOrg(ctx, step.backupWorkerId, organizationId);
+      steps.push(step);
+    } else {
+      steps.push({ afterMinutes: step.afterMinutes, action: step.action });
+    }
+  }
+
+  if (policy.isActive) {
+    const others = await ctx.db
+      .query("escalationPolicies")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", organizationId))
+      .collect();
+    for (const other of others) {
+      if (other._id === policyId || !other.isActive) continue;
+      const overlap = soundTypes.find((s) => other.soundTypes.includes(s));
+      if (overlap) {
+        throw new ConvexError(`"${other.name}" already escalates ${overlap} commands`);
+      }
+    }
+  }
+
+  return { name, soundTypes, steps, isActive: policy.isActive };
+}
+
+/**
+ * Attaches the organization's escalation policy for the command's sound type,
+ * if there is an active one, and schedules its first step. Commands sent by
+ * an escalation never escalate themselves.
+ */
+export async function startEscalation(ctx: MutationCtx, commandId: Id<"workerCommands">) {
+  const command = await ctx.db.get(commandId);
+  if (!command || command.escalatedFromId) return;
+  const recipient = await ctx.db.get(command.workerId);
+  if (!recipient?.organizationId) return;
+
+  const policies = await ctx.db
+    .query("escalationPolicies")
+    .withIndex("by_organizationId", (q) =>
+      q.eq("organizationId", recipient.organizationId as Id<"organizations">)
+    )
+    .collect();
+  const policy = policies.find((p) => p.isActive && p.soundTypes.includes(command.soundType));
+  if (!policy || policy.steps.length === 0) return;
+
+  const runAt = command.createdAt + policy.steps[0].afterMinutes * MINUTE_MS;
+  await ctx.db.patch(commandId, { escalationPolicyId: policy._id, nextEscalationAt: runAt });
+  await ctx.scheduler.runAt(runAt, internal.escalations.runEscalationStep, {
+    commandId,
+    step: 0,
+  });
+}
+
+/**
+ * Cancels the remaining steps once the command, or anything its escalation
+ * sent, is acknowledged. The scheduled step still runs but finds nothing to do.
+ * A resend or louder copy stands in for the original, so acknowledging it
+ * acknowledges the original too and the recipient counts in the roll call.
+ */
+export async function stopEscalation(ctx: MutationCtx, command: Doc<"workerCommands">) {
+  const rootId = command.escalatedFromId ?? command._id;
+  const root = rootId === command._id ? command : await ctx.db.get(rootId);
+  if (!root) return;
+
+  const isCopy =
+    command.escalationAction === "resend" || command.escalationAction === "upgrade_sound";
+  if (root._id !== command._id && isCopy && root.status !== "acknowledged") {
+    const now = Date.now();
+    await ctx.db.patch(root._id, {
+      status: "acknowledged",
+      deliveredAt: root.deliveredAt ?? command.deliveredAt ?? now,
+      acknowledgedAt: now,
+      nextEscalationAt: undefined,
+    });
+  } else if (root.nextEscalationAt !== undefined) {
+    await ctx.db.patch(root._id, { nextEscalationAt: undefined });
+  }
+}
+
+/** One notice for a whole broadcast, naming the recipients who have not acknowledged. */
+async function broadcastNotice(
+  ctx: MutationCtx,
+  broadcast: Doc<"broadcasts">,
+  soundType: SoundType
+) {
+  const commands = await ctx.db
+    .query("workerCommands")
+    .withIndex("by_broadcastId", (q) => q.eq("broadcastId", broadcast._id))
+    .collect();
+  const names = await Promise.all(
+    commands
+      .filter((c) => c.status !== "acknowledged")
+      .map(async (c) => (await ctx.db.get(c.workerId))?.name ?? "Removed worker")
+  );
+  const listed = names.slice(0, MAX_NOTICE_NAMES).join(", ");
+  const more =
+    names.length > MAX_NOTICE_NAMES ? ` and ${names.length - MAX_NOTICE_NAMES} more` : "";
+  return {
+    type: "sound_and_message" as const,
+    soundType,
+    message:
+      `${names.length} of ${broadcast.recipientCount} have not acknowledged the ` +
+      `${broadcast.soundType} broadcast (${broadcast.targetLabel}): ${listed}${more}`,
+  };
+}
+
+// ─── Scheduled steps ─────────────────────────────────────────────────────────
+
+/** Takes one step of a command's escalation policy and schedules the next. */
+export const runEscalationStep = internalMutation({
+  args: { commandId: v.id("workerCommands"), step: v.number() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const root = await ctx.db.get(args.commandId);
+    if (!root?.escalationPolicyId || root.nextEscalationAt === undefined) return null;
+
+    const chain = await ctx.db
+      .query("workerCommands")
+      .withIndex("by_escalatedFromId", (q) => q.eq("escalatedFromId", root._id))
+      .collect();
+    const policy = await ctx.db.get(root.escalationPolicyId);
+    const step = policy?.isActive ? policy.steps[args.step] : undefined;
+    if (
+      !policy ||
+      !step ||
+      root.status === "acknowledged" ||
+      chain.some((c) => c.status === "acknowledged")
+    ) {
+      await ctx.db.patch(root._id, { nextEscalationAt: undefined });
+      return null;
+    }
+
+    // Resends carry on at the loudest sound the recipient has been sent so far
+    const sound = chain
+      .filter((c) => c.workerId === root.workerId)
+      .reduce<SoundType>((s, c) => louderSound(s, c.soundType), root.soundType);
+
+    const send = (
+      workerId: Id<"workers">,
+      command: Pick<Doc<"workerCommands">, "type" | "soundType" | "message" | "route">
+    ) =>
+      ctx.db.insert("workerCommands", {
+        workerId,
+        fromAdminId: root.fromAdminId,
+        ...command,
+        escalatedFromId: root._id,
+        escalationAction: step.action,
+        status: "pending",
+        createdAt: Date.now(),
+      });
+
+    const recipient = await ctx.db.get(root.workerId);
+    const recipientName = recipient?.name ?? "A worker";
+    const notice = {
+      type: "sound_and_message" as const,
+      soundType: sound,
+      message: root.message
+        ? `${recipientName} has not acknowledged: "${root.message}"`
+        : `${recipientName} has not acknowledged a ${root.soundType} alert`,
+    };
+
+    switch (step.action) {
+      case "resend":
+        await send(root.workerId, {
+          type: root.type,
+          soundType: sound,
+          message: root.message,
+          route: root.route,
+        });
+        break;
+      case "upgrade_sound":
+        await send(root.workerId, {
+          type: root.type === "message" ? "sound_and_message" : root.type,
+          soundType: upgradeSound(sound),
+          message: root.message,
+          route: root.route,
+        });
+        break;
+      case "notify_backup": {
+        const backup = step.backupWorkerId && (await ctx.db.get(step.backupWorkerId));
+        if (backup && backup.organizationId === policy.organizationId && backup._id !== root.workerId) {
+          await send(backup._id, notice);
+        }
+        break;
+      }
+      case "notify_admins": {
+        // Every recipient of a broadcast escalates on its own; the first step to
+        // run sends one notice covering them all and the rest send nothing
+        let adminNotice = notice;
+        if (root.broadcastId) {
+          const broadcast = await ctx.db.get(root.broadcastId);
+          if (!broadcast || broadcast.adminsNotifiedSteps?.includes(args.step)) break;
+          await ctx.db.patch(broadcast._id, {
+            adminsNotifiedSteps: [...(broadcast.adminsNotifiedSteps ?? []), args.step],
+          });
+          adminNotice = await broadcastNotice(ctx, broadcast, sound);
+        }
+
+        const admins = await ctx.db
+          .query("workers")
+          .withIndex("by_organizationId", (q) => q.eq("organizationId", policy.organizationId))
+          .collect();
+        for (const admin of admins) {
+          if (admin.role === "admin" && admin._id !== root.workerId) {
+            await send(admin._id, adminNotice);
+          }
+        }
+        break;
+      }
+    }
+
+    const next = policy.steps[args.step + 1];
+    if (!next) {
+      await ctx.db.patch(root._id, { nextEscalationAt: undefined });
+      return null;
+    }
+    const runAt = Math.max(root.createdAt + next.afterMinutes * MINUTE_MS, Date.now());
+    await ctx.db.patch(root._id, { nextEscalationAt: runAt });
+    await ctx.scheduler.runAt(runAt, internal.escalations.runEscalationStep, {
+      commandId: root._id,
+      step: args.step + 1,
+    });
+    return null;
+  },
+});
+
+// ─── Queries ─────────────────────────────────────────────────────────────────
+
+export const getEscalationPolicies = query({
+  args: {},
+  handler: async (ctx) => {
+    const member = await getOrgMember(ctx);
+    if (!member || member.worker.role !== "admin") return [];
+    const policies = await ctx.db
+      .query("escalationPolicies")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", member.organizationId))
+      .collect();
+    return policies.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// ─── Mutations ───────────────────────────────────────────────────────────────
+
+const policyArgs = {
+  name: v.string(),
+  soundTypes: v.array(soundTypeValidator),
+  steps: v.array(escalationStepValidator),
+  isActive: v.boolean(),
+};
+
+export const createEscalationPolicy = mutation({
+  args: policyArgs,
+  returns: v.id("escalationPolicies"),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const policy = await validatePolicy(ctx, organizationId, args);
+    const now = Date.now();
+    return await ctx.db.insert("escalationPolicies", {
+      organizationId,
+      ...policy,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/** Escalations already under way take their remaining steps from the updated policy. */
+export const updateEscalationPolicy = mutation({
+  args: { policyId: v.id("escalationPolicies"), ...policyArgs },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const { policyId, ...fields } = args;
+    await requireOrgDoc(ctx, policyId, organizationId, "Escalation policy not found");
+    const policy = await validatePolicy(ctx, organizationId, fields, policyId);
+    await ctx.db.patch(policyId, { ...policy, updatedAt: Date.now() });
+    return null;
+  },
+});
+
+/** Escalations already under way stop at their next step. */
+export const deleteEscalationPolicy = mutation({
+  args: { policyId: v.id("escalationPolicies") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.policyId, organizationId, "Escalation policy not found");
+    await ctx.db.delete(args.policyId);
+    return null;
+  },
+});
@@ -0,0 +1,301 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getOrgMember, requireOrgAdmin, requireOrgDoc } from "./lib/auth";
+import { buildInverseTransform, buildTransform } from "./lib/geoTransform";
+
+// Older revisions are pruned, along with images no other revision uses
+const MAX_REVISIONS = 20;
+
+type Point = { x: number; y: number };
+
+/**
+ * Saves the plan's current image, calibration and geometry as a revision
+ * before `reason` replaces them. Returns the new revision's id.
+ */
+export async function saveRevision(
+  ctx: MutationCtx,
+  plan: Doc<"floorPlans">,
+  reason: Doc<"floorPlanRevisions">["reason"],
+  savedBy: Id<"workers">
+) {
+  const zones = await ctx.db
+    .query("floorZones")
+    .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", plan._id))
+    .collect();
+  const markers = await ctx.db
+    .query("floorMarkers")
+    .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", plan._id))
+    .collect();
+  const corridors = await ctx.db
+    .query("floorCorridors")
+    .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", plan._id))
+    .unique();
+
+  const revisionId = await ctx.db.insert("floorPlanRevisions", {
+    floorPlanId: plan._id,
+    organizationId: plan.organizationId,
+    reason,
+    imageStorageId: plan.imageStorageId,
+    imageWidth: plan.imageWidth,
+    imageHeight: plan.imageHeight,
+    calibrationPoints: plan.calibrationPoints,
+    calibrationMode: plan.calibrationMode,
+    geometry: {
+      zones: zones.map((z) => ({ zoneId: z._id, points: z.points })),
+      markers: markers.map((m) => ({ markerId: m._id, x: m.x, y: m.y })),
+      corridors: corridors ? { nodes: corridors.nodes, edges: corridors.edges } : undefined,
+    },
+    savedBy,
+    createdAt: Date.now(),
+  });
+
+  const revisions = await ctx.db
+    .query("floorPlanRevisions")
+    .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", plan._id))
+    .collect();
+  const newestFirst = revisions.sort((a, b) => b.createdAt - a.createdAt);
+  const stale = newestFirst.slice(MAX_REVISIONS);
+  for (const revision of stale) {
+    await ctx.db.delete(revision._id);
+  }
+  const inUse = new Set([
+    plan.imageStorageId,
+    ...newestFirst.slice(0, MAX_REVISIONS).map((r) => r.imageStorageId),
+  ]);
+  for (const storageId of new Set(stale.map((r) => r.imageStorageId))) {
+    if (!inUse.has(storageId)) await ctx.storage.delete(storageId);
+  }
+  return revisionId;
+}
+
+/** Deletes a plan's revisions and the old images only they referenced. */
+export async function deleteRevisions(ctx: MutationCtx, plan: Doc<"floorPlans">) {
+  const revisions = await ctx.db
+    .query("floorPlanRevisions")
+    .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", plan._id))
+    .collect();
+  for (const revision of revisions) {
+    await ctx.db.delete(revision._id);
+  }
+  for (const storageId of new Set(revisions.map((r) => r.imageStorageId))) {
+    if (storageId !== plan.imageStorageId) await ctx.storage.delete(storageId);
+  }
+}
+
+/**
+ * Moves every zone vertex, marker and corridor node through `map`. A zone
+ * whose vertices can't all be mapped is left where it was rather than
+ * distorted.
+ */
+async function moveGeometry(
+  ctx: MutationCtx,
+  floorPlanId: Id<"floorPlans">,
+  map: (p: Point) => Point | null
+) {
+  const zones = await ctx.db
+    .query("floorZones")
+    .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", floorPlanId))
+    .collect();
+  for (const zone of zones) {
+    const points = zone.points.map(map);
+    if (points.every((p) => p !== null)) await ctx.db.patch(zone._id, { points });
+  }
+
+  const markers = await ctx.db
+    .query("floorMarkers")
+    .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", floorPlanId))
+    .collect();
+  for (const marker of markers) {
+    const p = map(marker);
+    if (p) await ctx.db.patch(marker._id, { x: p.x, y: p.y });
+  }
+
+  const corridors = await ctx.db
+    .query("floorCorridors")
+    .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", floorPlanId))
+    .unique();
+  if (corridors) {
+    const nodes = corridors.nodes.map(map);
+    if (nodes.every((p) => p !== null)) await ctx.db.patch(corridors._id, { nodes });
+  }
+}
+
+/**
+ * Carries zones, markers and corridors drawn on a revision's image over to
+ * the plan's new calibration, through their real-world positions.
+ */
+export async function reprojectFromRevision(
+  ctx: MutationCtx,
+  plan: Doc<"floorPlans">,
+  revisionId: Id<"floorPlanRevisions">,
+  calibration: Pick<Doc<"floorPlans">, "calibrationPoints" | "calibrationMode">
+) {
+  const revision = await ctx.db.get(revisionId);
+  if (!revision) throw new ConvexError("The previous revision no longer exists");
+
+  const toGeo = buildInverseTransform(
+    revision.calibrationPoints,
+    revision.imageWidth,
+    revision.imageHeight,
+    revision.calibrationMode
+  );
+  const toImage = buildTransform(
+    calibration.calibrationPoints,
+    plan.imageWidth,
+    plan.imageHeight,
+    calibration.calibrationMode
+  );
+  if (!toGeo || !toImage) {
+    throw new ConvexError("Both the old and new image must be calibrated to re-project zones and markers");
+  }
+
+  await moveGeometry(ctx, plan._id, (p) => {
+    const geo = toGeo(p.x, p.y);
+    return geo && toImage(geo.lat, geo.lng);
+  });
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────────────
+
+export const getFloorPlanRevisions = query({
+  args: { floorPlanId: v.id("floorPlans") },
+  handler: async (ctx, args) => {
+    const member = await getOrgMember(ctx);
+    if (!member) return [];
+    const plan = await ctx.db.get(args.floorPlanId);
+    if (!plan || plan.organizationId !== member.organizationId) return [];
+
+    const revisions = await ctx.db
+      .query("floorPlanRevisions")
+      .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", plan._id))
+      .collect();
+
+    return await Promise.all(
+      revisions
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map(async (r) => ({
+          _id: r._id,
+          reason: r.reason,
+          imageUrl: await ctx.storage.getUrl(r.imageStorageId),
+          imageWidth: r.imageWidth,
+          imageHeight: r.imageHeight,
+          isCurrentImage: r.imageStorageId === plan.imageStorageId,
+          calibrationPointCount: r.calibrationPoints.length,
+          calibrationMode: r.calibrationMode ?? "affine",
+          zoneCount: r.geometry.zones.length,
+          markerCount: r.geometry.markers.length,
+          savedByName: (await ctx.db.get(r.savedBy))?.name ?? "Unknown",
+          createdAt: r.createdAt,
+        }))
+    );
+  },
+});
+
+// ─── Mutations ───────────────────────────────────────────────────────────────
+
+/**
+ * Swaps in a new image after a renovation. With `sameExtent` the new image
+ * shows exactly the same area, so geometry stays put and calibration points
+ * are rescaled to the new size. Otherwise the calibration is cleared and the
+ * geometry is re-projected once the new image is calibrated.
+ */
+export const replaceFloorPlanImage = mutation({
+  args: {
+    floorPlanId: v.id("floorPlans"),
+    imageStorageId: v.id("_storage"),
+    imageWidth: v.number(),
+    imageHeight: v.number(),
+    sameExtent: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { worker, organizationId } = await requireOrgAdmin(ctx);
+    const plan = await requireOrgDoc(ctx, args.floorPlanId, organizationId, "Floor plan not found");
+    if (args.imageWidth <= 0 || args.imageHeight <= 0) {
+      throw new ConvexError("Image dimensions must be positive");
+    }
+
+    const revisionId = await saveRevision(ctx, plan, "image", worker._id);
+
+    const sx = args.imageWidth / plan.imageWidth;
+    const sy = args.imageHeight / plan.imageHeight;
+    const isCalibrated = buildTransform(
+      plan.calibrationPoints,
+      plan.imageWidth,
+      plan.imageHeight,
+      plan.calibrationMode
+    ) !== null;
+
+    await ctx.db.patch(plan._id, {
+      imageStorageId: args.imageStorageId,
+      imageWidth: args.imageWidth,
+      imageHeight: args.imageHeight,
+      calibrationPoints: args.sameExtent
+        ? plan.calibrationPoints.map((p) => ({ ...p, px: p.px * sx, py: p.py * sy }))
+        : [],
+      // Without an old calibration there is nothing to re-project through
+      pendingReprojection: !args.sameExtent && isCalibrated ? revisionId : undefined,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+/**
+ * Restores a revision's image, calibration and the positions of zones,
+ * markers and corridors. Zones and markers deleted since are not recreated.
+ * The state being replaced is saved as a revision first, so a rollback can
+ * itself be undone.
+ */
+export const rollbackFloorPlan = mutation({
+  args: { revisionId: v.id("floorPlanRevisions") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { worker, organizationId } = await requireOrgAdmin(ctx);
+    const revision = await requireOrgDoc(ctx, args.revisionId, organizationId, "Revision not found");
+    const plan = await ctx.db.get(revision.floorPlanId);
+    if (!plan) throw new ConvexError("Floor plan not found");
+
+    await saveRevision(ctx, plan, "rollback", worker._id);
+
+    await ctx.db.patch(plan._id, {
+      imageStorageId: revision.imageStorageId,
+      imageWidth: revision.imageWidth,
+      imageHeight: revision.imageHeight,
+      calibrationPoints: revision.calibrationPoints,
+      calibrationMode: revision.calibrationMode,
+      pendingReprojection: undefined,
+      updatedAt: Date.now(),
+    });
+
+    for (const { zoneId, points } of revision.geometry.zones) {
+      const zone = await ctx.db.get(zoneId);
+      if (zone && zone.floorPlanId === plan._id) await ctx.db.patch(zoneId, { points });
+    }
+    for (const { markerId, x, y } of revision.geometry.markers) {
+      const marker = await ctx.db.get(markerId);
+      if (marker && marker.floorPlanId === plan._id) await ctx.db.patch(markerId, { x, y });
+    }
+
+    const saved = revision.geometry.corridors;
+    const corridors = await ctx.db
+      .query("floorCorridors")
+      .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", plan._id))
+      .unique();
+    if (saved && corridors) {
+      await ctx.db.patch(corridors._id, { ...saved, updatedAt: Date.now() });
+    } else if (saved) {
+      await ctx.db.insert("floorCorridors", {
+        floorPlanId: plan._id,
+        organizationId,
+        ...saved,
+        updatedAt: Date.now(),
+      });
+    } else if (corridors) {
+      await ctx.db.delete(corridors._id);
+    }
+    return null;
+  },
+});
@@ -1,27 +1,28 @@
-import { v } from "convex/values";
+import { ConvexError, v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { QueryCtx, MutationCtx } from "./_generated/server";
-import { ConvexError } from "convex/values";
-import type { Id } from "./_generated/dataModel";
-
-async function requireAuth(ctx: QueryCtx | MutationCtx) {
-  const identity = await ctx.auth.getUserIdentity();
-  if (!identity) {
-    throw new ConvexError("Authentication required");
-  }
-  return identity;
-}
-
-async function requireAdmin(ctx: QueryCtx | MutationCtx) {
-  const identity = await requireAuth(ctx);
-  const worker = await ctx.db
-    .query("workers")
-    .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-    .unique();
-  if (!worker || worker.role !== "admin") {
-    throw new ConvexError("Admin access required");
-  }
-  return { identity, worker };
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getOrgMember, requireOrgAdmin, requireOrgDoc } from "./lib/auth";
+import { addRestrictionPatch, zoneRestrictionArgs } from "./intrusions";
+import { MIN_CALIBRATION_POINTS, buildTransform, imageFootprint } from "./lib/geoTransform";
+import { defaultLevel, resolveWorkerFloor, sortLevels } from "./lib/floorLevels";
+import { pointInPolygon } from "./lib/geo";
+import { normalizeBeaconId } from "./lib/indoorPositioning";
+import { corridorGraphArgs } from "./lib/wayfinding";
+import { markerCategoryValidator } from "./lib/markerCategories";
+import { deleteRevisions, reprojectFromRevision, saveRevision } from "./floorPlanRevisions";
+
+// Upper bound on zones created from one vector drawing
+const MAX_IMPORTED_ZONES = 500;
+
+/** The plans that are activated together with `plan`: its whole building, or just itself. */
+async function linkedPlans(ctx: MutationCtx, plan: Doc<"floorPlans">) {
+  const buildingId = plan.buildingId;
+  if (!buildingId) return [plan];
+  return await ctx.db
+    .query("floorPlans")
+    .withIndex("by_buildingId", (q) => q.eq("buildingId", buildingId))
+    .collect();
 }
 
 // ─── Queries ─────────────────────────────────────────────────────────────────
@@ -50,61 +51,219 @@ export const getFloorPlans = query({
       _creationTime: p._creationTime,
       name: p.name,
       isActive: p.isActive,
+      buildingId: p.buildingId,
+      level: p.level,
+      minAltitudeM: p.minAltitudeM,
+      maxAltitudeM: p.maxAltitudeM,
       imageWidth: p.imageWidth,
       imageHeight: p.imageHeight,
       calibrationPoints: p.calibrationPoints,
+      pendingReprojection: p.pendingReprojection !== undefined,
       createdAt: p.createdAt,
       updatedAt: p.updatedAt,
     }));
   },
 });
 
-export const getActiveFloorPlan = query({
+export const getBuildings = query({
   args: {},
   handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) return null;
+    const member = await getOrgMember(ctx);
+    if (!member) return [];
+    return await ctx.db
+      .query("buildings")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", member.organizationId))
+      .collect();
+  },
+});
 
-    const worker = await ctx.db
-      .query("workers")
-      .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-    if (!worker || !worker.organizationId) return null;
+/** Image URL and zones for one floor plan, as the viewer renders it. */
+async function planView(ctx: QueryCtx, plan: Doc<"floorPlans">) {
+  const imageUrl = await ctx.storage.getUrl(plan.imageStorageId);
+  if (!imageUrl) return null;
+
+  const zones = await ctx.db
+    .query("floorZones")
+    .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", plan._id))
+    .collect();
+
+  return {
+    _id: plan._id,
+    name: plan.name,
+    imageUrl,
+    imageWidth: plan.imageWidth,
+    imageHeight: plan.imageHeight,
+    calibrationPoints: plan.calibrationPoints,
+    calibrationMode: plan.calibrationMode,
+    pendingReprojection: plan.pendingReprojection !== undefined,
+    isActive: plan.isActive,
+    level: plan.level,
+    minAltitudeM: plan.minAltitudeM,
+    maxAltitudeM: plan.maxAltitudeM,
+    footprint: imageFootprint(
+      plan.calibrationPoints,
+      plan.imageWidth,
+      plan.imageHeight,
+      plan.calibrationMode
+    ),
+    zones: zones.map((z) => ({
+      _id: z._id,
+      name: z.name,
+      color: z.color,
+      points: z.points,
+      restricted: z.restricted,
+      allowedWorkerIds: z.allowedWorkerIds,
+      allowedRoles: z.allowedRoles,
+      autoSoundAlert: z.autoSoundAlert,
+      capacity: z.capacity,
+    })),
+  };
+}
 
-    const plan = await ctx.db
-      .query("floorPlans")
-      .withIndex("by_organizationId_active", (q) =>
-        q
-          .eq("organizationId", worker.organizationId as Id<"organizations">)
-          .eq("isActive", true)
-      )
-      .unique();
+/**
+ * Every active site: a building with all of its levels, or a standalone
+ * plan. The top-level fields of a site describe its ground floor and
+ * `levels` carries every level, top floor first, so the viewer can switch
+ * between them without refetching. `footprint` is the site's outline on the
+ * ground, from its calibration, used to pick the site a worker is at.
+ */
+async function loadActiveSites(ctx: QueryCtx, organizationId: Id<"organizations">) {
+  const active = await ctx.db
+    .query("floorPlans")
+    .withIndex("by_organizationId_active", (q) =>
+      q.eq("organizationId", organizationId).eq("isActive", true)
+    )
+    .collect();
+
+  // Standalone plans are keyed by their own id
+  const groups = new Map<string, Doc<"floorPlans">[]>();
+  for (const plan of active) {
+    const key = plan.buildingId ?? plan._id;
+    groups.set(key, [...(groups.get(key) ?? []), plan]);
+  }
 
-    if (!plan) return null;
+  const sites = await Promise.all(
+    [...groups.values()].map(async (group) => {
+      const ground = defaultLevel(group)!;
+      const building = ground.buildingId ? await ctx.db.get(ground.buildingId) : null;
+      const levels = (await Promise.all(sortLevels(group).map((p) => planView(ctx, p)))).filter(
+        (l) => l !== null
+      );
+      const view = levels.find((l) => l._id === ground._id);
+      if (!view) return null;
+      return {
+        ...view,
+        building: building ? { _id: building._id, name: building.name } : null,
+        levels,
+        footprint: view.footprint ?? levels.find((l) => l.footprint)?.footprint ?? null,
+      };
+    })
+  );
+  return sites
+    .filter((s) => s !== null)
+    .sort((a, b) => (a.building?.name ?? a.name).localeCompare(b.building?.name ?? b.name));
+}
+
+export const getActiveFloorPlans = query({
+  args: {},
+  handler: async (ctx) => {
+    const member = await getOrgMember(ctx);
+    if (!member) return [];
+    return await loadActiveSites(ctx, member.organizationId);
+  },
+});
+
+/**
+ * The ground floor of the first active site. Kept for clients that predate
+ * multiple active sites; new code should use `getActiveFloorPlans`.
+ */
+export const getActiveFloorPlan = query({
+  args: {},
+  handler: async (ctx) => {
+    const member = await getOrgMember(ctx);
+    if (!member) return null;
+    const [site] = await loadActiveSites(ctx, member.organizationId);
+    if (!site) return null;
+    const { building: _building, levels: _levels, ...plan } = site;
+    return plan;
+  },
+});
 
-    const imageUrl = await ctx.storage.getUrl(plan.imageStorageId);
-    if (!imageUrl) return null;
+/**
+ * Returns each zone of a floor plan with the workers currently inside it.
+ * Workers with an indoor beacon fix on this plan are placed by it; otherwise
+ * live GPS positions are projected through the plan's calibration into image
+ * space. In a multi-level building only workers on this level are counted.
+ */
+export const getFloorZoneOccupancy = query({
+  args: { floorPlanId: v.id("floorPlans") },
+  handler: async (ctx, args) => {
+    const member = await getOrgMember(ctx);
+    if (!member) return [];
+    const plan = await ctx.db.get(args.floorPlanId);
+    if (!plan || plan.organizationId !== member.organizationId) return [];
 
     const zones = await ctx.db
       .query("floorZones")
       .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", plan._id))
       .collect();
 
-    return {
-      _id: plan._id,
-      name: plan.name,
-      imageUrl,
-      imageWidth: plan.imageWidth,
-      imageHeight: plan.imageHeight,
-      calibrationPoints: plan.calibrationPoints,
-      isActive: plan.isActive,
-      zones: zones.map((z) => ({
-        _id: z._id,
-        name: z.name,
-        color: z.color,
-        points: z.points,
-      })),
-    };
+    const transform = buildTransform(
+      plan.calibrationPoints,
+      plan.imageWidth,
+      plan.imageHeight,
+      plan.calibrationMode
+    );
+    const buildingId = plan.buildingId;
+    const levels = buildingId
+      ? await ctx.db
+          .query("floorPlans")
+          .withIndex("by_buildingId", (q) => q.eq("buildingId", buildingId))
+          .collect()
+      : [plan];
+
+    const workers = await ctx.db
+      .query("workers")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", member.organizationId))
+      .collect();
+
+    const positions = await Promise.all(
+      workers.map(async (worker) => {
+        const loc = await ctx.db
+          .query("currentWorkerLocations")
+          .withIndex("by_workerId", (q) => q.eq("workerId", worker._id))
+          .unique();
+        if (!loc) return null;
+        const floor = resolveWorkerFloor(
+          levels,
+          worker.floorOverride,
+          loc.altitude,
+          loc.indoor?.floorPlanId
+        );
+        if (floor?.plan._id !== plan._id) return null;
+        const xy =
+          loc.indoor?.floorPlanId === plan._id
+            ? loc.indoor
+            : transform?.(loc.latitude, loc.longitude) ?? null;
+        return xy ? { worker, xy } : null;
+      })
+    );
+
+    return zones.map((zone) => {
+      const polygon = zone.points.map((p) => ({ lat: p.y, lng: p.x }));
+      const inside = positions
+        .filter((p) => p !== null)
+        .filter(({ xy }) => pointInPolygon(xy.y, xy.x, polygon))
+        .map(({ worker }) => ({ _id: worker._id, name: worker.name, isOnDuty: worker.isOnDuty }));
+
+      return {
+        _id: zone._id,
+        name: zone.name,
+        capacity: zone.capacity,
+        workerCount: inside.length,
+        workers: inside,
+      };
+    });
   },
 });
 
@@ -114,39 +273,70 @@ export const generateFloorPlanUploadUrl = mutation({
   args: {},
   returns: v.string(),
   handler: async (ctx) => {
-    const { worker } = await requireAdmin(ctx);
-    if (!worker.organizationId) {
-      throw new ConvexError("No organization found");
-    }
+    await requireOrgAdmin(ctx);
     return await ctx.storage.generateUploadUrl();
   },
 });
 
+/**
+ * Creates a floor plan from an uploaded image. `zones` lets a vector import
+ * (named SVG shapes) create the plan's floor zones in the same step.
+ */
 export const createFloorPlan = mutation({
   args: {
     name: v.string(),
     imageStorageId: v.id("_storage"),
     imageWidth: v.number(),
     imageHeight: v.number(),
+    zones: v.optional(
+      v.array(
+        v.object({
+          name: v.string(),
+          color: v.string(),
+          points: v.array(v.object({ x: v.number(), y: v.number() })),
+        })
+      )
+    ),
   },
   returns: v.id("floorPlans"),
   handler: async (ctx, args) => {
-    const { worker } = await requireAdmin(ctx);
-    if (!worker.organizationId) {
-      throw new ConvexError("No organization found");
+    const { organizationId } = await requireOrgAdmin(ctx);
+
+    const zones = args.zones ?? [];
+    if (zones.length > MAX_IMPORTED_ZONES) {
+      throw new ConvexError(`A floor plan can import at most ${MAX_IMPORTED_ZONES} zones`);
+    }
+    for (const zone of zones) {
+      if (!zone.name.trim()) throw new ConvexError("Zone name is required");
+      if (zone.points.length < 3) {
+        throw new ConvexError(`Zone "${zone.name}" needs at least 3 points`);
+      }
     }
 
-    return await ctx.db.insert("floorPlans", {
-      organizationId: worker.organizationId as Id<"organizations">,
+    const now = Date.now();
+    const floorPlanId = await ctx.db.insert("floorPlans", {
+      organizationId,
       name: args.name,
       imageStorageId: args.imageStorageId,
       imageWidth: args.imageWidth,
       imageHeight: args.imageHeight,
       calibrationPoints: [],
       isActive: false,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
+      createdAt: now,
+      updatedAt: now,
     });
+
+    for (const zone of zones) {
+      await ctx.db.insert("floorZones", {
+        floorPlanId,
+        organizationId,
+        name: zone.name.trim(),
+        color: zone.color,
+        points: zone.points,
+        createdAt: now,
+      });
+    }
+    return floorPlanId;
   },
 });
 
@@ -161,15 +351,42 @@ export const updateFloorPlanCalibration = mutation({
         lng: v.number(),
       })
     ),
+    calibrationMode: v.optional(v.union(v.literal("affine"), v.literal("homography"))),
+    // After an image replacement: move zones and markers from the old image onto this calibration
+    reproject: v.optional(v.boolean()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
-    const plan = await ctx.db.get(args.floorPlanId);
-    if (!plan) throw new ConvexError("Floor plan not found");
+    const { worker, organizationId } = await requireOrgAdmin(ctx);
+    const plan = await requireOrgDoc(ctx, args.floorPlanId, organizationId, "Floor plan not found");
+
+    const mode = args.calibrationMode ?? "affine";
+    if (
+      args.calibrationPoints.length > 0 &&
+      args.calibrationPoints.length < MIN_CALIBRATION_POINTS[mode]
+    ) {
+      throw new ConvexError(
+        `${mode === "homography" ? "Perspective" : "Affine"} calibration needs at least ${MIN_CALIBRATION_POINTS[mode]} points`
+      );
+    }
+
+    const unchanged =
+      mode === (plan.calibrationMode ?? "affine") &&
+      JSON.stringify(args.calibrationPoints) === JSON.stringify(plan.calibrationPoints);
+    if (unchanged) return null;
+
+    await saveRevision(ctx, plan, "calibration", worker._id);
+    if (args.reproject && plan.pendingReprojection) {
+      await reprojectFromRevision(ctx, plan, plan.pendingReprojection, {
+        calibrationPoints: args.calibrationPoints,
+        calibrationMode: mode,
+      });
+    }
 
     await ctx.db.patch(args.floorPlanId, {
       calibrationPoints: args.calibrationPoints,
+      calibrationMode: mode,
+      pendingReprojection: undefined,
       updatedAt: Date.now(),
     });
     return null;
@@ -180,30 +397,13 @@ export const setActiveFloorPlan = mutation({
   args: { floorPlanId: v.id("floorPlans") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const { worker } = await requireAdmin(ctx);
-    if (!worker.organizationId) {
-      throw new ConvexError("No organization found");
-    }
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const plan = await requireOrgDoc(ctx, args.floorPlanId, organizationId, "Floor plan not found");
 
-    // Deactivate all plans for this org
-    const allPlans = await ctx.db
-      .query("floorPlans")
-      .withIndex("by_organizationId", (q) =>
-        q.eq("organizationId", worker.organizationId as Id<"organizations">)
-      )
-      .collect();
-
-    await Promise.all(
-      allPlans.map((p) =>
-        ctx.db.patch(p._id, { isActive: false, updatedAt: Date.now() })
-      )
-    );
-
-    // Activate the target plan
-    await ctx.db.patch(args.floorPlanId, {
-      isActive: true,
-      updatedAt: Date.now(),
-    });
+    // Other sites stay active; the target plan is activated with the rest of its building
+    for (const p of await linkedPlans(ctx, plan)) {
+      await ctx.db.patch(p._id, { isActive: true, updatedAt: Date.now() });
+    }
     return null;
   },
 });
@@ -212,11 +412,11 @@ export const deactivateFloorPlan = mutation({
   args: { floorPlanId: v.id("floorPlans") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
-    await ctx.db.patch(args.floorPlanId, {
-      isActive: false,
-      updatedAt: Date.now(),
-    });
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const plan = await requireOrgDoc(ctx, args.floorPlanId, organizationId, "Floor plan not found");
+    for (const p of await linkedPlans(ctx, plan)) {
+      await ctx.db.patch(p._id, { isActive: false, updatedAt: Date.now() });
+    }
     return null;
   },
 });
@@ -225,9 +425,8 @@ export const deleteFloorPlan = mutation({
   args: { floorPlanId: v.id("floorPlans") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
-    const plan = await ctx.db.get(args.floorPlanId);
-    if (!plan) throw new ConvexError("Floor plan not found");
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const plan = await requireOrgDoc(ctx, args.floorPlanId, organizationId, "Floor plan not found");
 
     // Delete all zones
     const zones = await ctx.db
@@ -243,6 +442,16 @@ export const deleteFloorPlan = mutation({
       .collect();
     await Promise.all(markers.map((m) => ctx.db.delete(m._id)));
 
+    // Delete the corridor graph
+    const corridors = await ctx.db
+      .query("floorCorridors")
+      .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", args.floorPlanId))
+      .unique();
+    if (corridors) await ctx.db.delete(corridors._id);
+
+    // Delete earlier revisions and their images
+    await deleteRevisions(ctx, plan);
+
     // Delete storage file
     await ctx.storage.delete(plan.imageStorageId);
 
@@ -252,6 +461,121 @@ export const deleteFloorPlan = mutation({
   },
 });
 
+// ─── Buildings ───────────────────────────────────────────────────────────────
+
+export const createBuilding = mutation({
+  args: { name: v.string() },
+  returns: v.id("buildings"),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const name = args.name.trim();
+    if (!name) throw new ConvexError("Building name is required");
+    return await ctx.db.insert("buildings", { organizationId, name, createdAt: Date.now() });
+  },
+});
+
+export const renameBuilding = mutation({
+  args: { buildingId: v.id("buildings"), name: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.buildingId, organizationId, "Building not found");
+    const name = args.name.trim();
+    if (!name) throw new ConvexError("Building name is required");
+    await ctx.db.patch(args.buildingId, { name });
+    return null;
+  },
+});
+
+/** Deletes a building. Its floor plans are kept as standalone, inactive plans. */
+export const deleteBuilding = mutation({
+  args: { buildingId: v.id("buildings") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.buildingId, organizationId, "Building not found");
+    const plans = await ctx.db
+      .query("floorPlans")
+      .withIndex("by_buildingId", (q) => q.eq("buildingId", args.buildingId))
+      .collect();
+    for (const p of plans) {
+      await ctx.db.patch(p._id, {
+        buildingId: undefined,
+        level: undefined,
+        isActive: false,
+        updatedAt: Date.now(),
+      });
+    }
+    await ctx.db.delete(args.buildingId);
+    return null;
+  },
+});
+
+/**
+ * Places a floor plan in a building at a level, and sets the altitude band
+ * that puts workers on it. `null` clears a field. A plan joining a building
+ * takes on the building's active state so a building is always all-or-nothing.
+ */
+export const updateFloorPlanLevel = mutation({
+  args: {
+    floorPlanId: v.id("floorPlans"),
+    buildingId: v.optional(v.union(v.id("buildings"), v.null())),
+    level: v.optional(v.number()),
+    minAltitudeM: v.optional(v.union(v.number(), v.null())),
+    maxAltitudeM: v.optional(v.union(v.number(), v.null())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const plan = await requireOrgDoc(ctx, args.floorPlanId, organizationId, "Floor plan not found");
+
+    const buildingId =
+      args.buildingId === undefined ? plan.buildingId : args.buildingId ?? undefined;
+    const level = buildingId ? (args.level ?? plan.level ?? 0) : undefined;
+    if (level !== undefined && !Number.isInteger(level)) {
+      throw new ConvexError("Level must be a whole number");
+    }
+    const minAltitudeM =
+      args.minAltitudeM === undefined ? plan.minAltitudeM : args.minAltitudeM ?? undefined;
+    const maxAltitudeM =
+      args.maxAltitudeM === undefined ? plan.maxAltitudeM : args.maxAltitudeM ?? undefined;
+    if (minAltitudeM !== undefined && maxAltitudeM !== undefined && minAltitudeM >= maxAltitudeM) {
+      throw new ConvexError("Altitude band must have its minimum below its maximum");
+    }
+
+    const patch: Partial<Doc<"floorPlans">> = {
+      buildingId,
+      level,
+      minAltitudeM,
+      maxAltitudeM,
+      updatedAt: Date.now(),
+    };
+
+    if (buildingId) {
+      await requireOrgDoc(ctx, buildingId, organizationId, "Building not found");
+      const siblings = (
+        await ctx.db
+          .query("floorPlans")
+          .withIndex("by_buildingId", (q) => q.eq("buildingId", buildingId))
+          .collect()
+      ).filter((p) => p._id !== plan._id);
+      if (siblings.some((p) => (p.level ?? 0) === level)) {
+        throw new ConvexError(`Level ${level} already exists in this building`);
+      }
+      if (buildingId !== plan.buildingId) {
+        patch.isActive = siblings.some((p) => p.isActive);
+      }
+    } else if (plan.buildingId) {
+      patch.isActive = false;
+    }
+
+    await ctx.db.patch(args.floorPlanId, patch);
+    return null;
+  },
+});
+
+// ─── Zones ───────────────────────────────────────────────────────────────────
+
 export const createFloorZone = mutation({
   args: {
     floorPlanId: v.id("floorPlans"),
@@ -261,17 +585,12 @@ export const createFloorZone = mutation({
   },
   returns: v.id("floorZones"),
   handler: async (ctx, args) => {
-    const { worker } = await requireAdmin(ctx);
-    if (!worker.organizationId) {
-      throw new ConvexError("No organization found");
-    }
-
-    const plan = await ctx.db.get(args.floorPlanId);
-    if (!plan) throw new ConvexError("Floor plan not found");
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.floorPlanId, organizationId, "Floor plan not found");
 
     return await ctx.db.insert("floorZones", {
       floorPlanId: args.floorPlanId,
-      organizationId: worker.organizationId as Id<"organizations">,
+      organizationId,
       name: args.name,
       color: args.color,
       points: args.points,
@@ -288,15 +607,25 @@ export const updateFloorZone = mutation({
     points: v.optional(
       v.array(v.object({ x: v.number(), y: v.number() }))
     ),
+    ...zoneRestrictionArgs,
+    capacity: v.optional(v.union(v.number(), v.null())),  // null clears it
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
-    const { zoneId, ...updates } = args;
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.zoneId, organizationId, "Zone not found");
+    const { zoneId, capacity, ...updates } = args;
     const patch: Record<string, unknown> = {};
     if (updates.name !== undefined) patch.name = updates.name;
     if (updates.color !== undefined) patch.color = updates.color;
     if (updates.points !== undefined) patch.points = updates.points;
+    if (capacity !== undefined) {
+      if (capacity !== null && (!Number.isInteger(capacity) || capacity < 1)) {
+        throw new ConvexError("Capacity must be a whole number of at least 1");
+      }
+      patch.capacity = capacity ?? undefined;
+    }
+    await addRestrictionPatch(ctx, organizationId, updates, patch);
     await ctx.db.patch(zoneId, patch);
     return null;
   },
@@ -306,7 +635,8 @@ export const deleteFloorZone = mutation({
   args: { zoneId: v.id("floorZones") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.zoneId, organizationId, "Zone not found");
     await ctx.db.delete(args.zoneId);
     return null;
   },
@@ -317,8 +647,12 @@ export const deleteFloorZone = mutation({
 export const getFloorMarkers = query({
   args: { floorPlanId: v.id("floorPlans") },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) return [];
+    const member = await getOrgMember(ctx);
+    if (!member) return [];
+
+    const plan = await ctx.db.get(args.floorPlanId);
+    if (!plan || plan.organizationId !== member.organizationId) return [];
+
     return await ctx.db
       .query("floorMarkers")
       .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", args.floorPlanId))
@@ -326,25 +660,75 @@ export const getFloorMarkers = query({
   },
 });
 
+const markerKind = v.union(v.literal("poi"), v.literal("ble_beacon"), v.literal("wifi_ap"));
+
+/**
+ * Validates the radio fields of a marker and returns them normalized. Beacon
+ * and access point markers need an identifier that is unique in the
+ * organization, since readings are matched to markers by it.
+ */
+async function radioFields(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  markerId: Id<"floorMarkers"> | null,
+  kind: "poi" | "ble_beacon" | "wifi_ap",
+  beaconId: string | undefined,
+  txPower: number | undefined
+) {
+  if (kind === "poi") return { kind, beaconId: undefined, txPower: undefined };
+
+  const id = beaconId ? normalizeBeaconId(beaconId) : "";
+  if (!id) {
+    throw new ConvexError(kind === "wifi_ap" ? "Access point BSSID is required" : "Beacon ID is required");
+  }
+  if (txPower !== undefined && (txPower > 0 || txPower < -120)) {
+    throw new ConvexError("Signal strength at 1 m must be between -120 and 0 dBm");
+  }
+  const clash = await ctx.db
+    .query("floorMarkers")
+    .withIndex("by_organizationId_beaconId", (q) =>
+      q.eq("organizationId", organizationId).eq("beaconId", id)
+    )
+    .first();
+  if (clash && clash._id !== markerId) {
+    throw new ConvexError(`"${id}" is already registered as marker "${clash.name}"`);
+  }
+  return { kind, beaconId: id, txPower };
+}
+
 export const createFloorMarker = mutation({
   args: {
     floorPlanId: v.id("floorPlans"),
     name: v.string(),
     icon: v.optional(v.string()),
+    category: v.optional(markerCategoryValidator),
     x: v.number(),
     y: v.number(),
+    kind: v.optional(markerKind),
+    beaconId: v.optional(v.string()),
+    txPower: v.optional(v.number()),
   },
   returns: v.id("floorMarkers"),
   handler: async (ctx, args) => {
-    const { worker } = await requireAdmin(ctx);
-    if (!worker.organizationId) throw new ConvexError("No organization found");
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.floorPlanId, organizationId, "Floor plan not found");
+    const radio = await radioFields(
+      ctx,
+      organizationId,
+      null,
+      args.kind ?? "poi",
+      args.beaconId,
+      args.txPower
+    );
     return await ctx.db.insert("floorMarkers", {
       floorPlanId: args.floorPlanId,
-      organizationId: worker.organizationId as Id<"organizations">,
+      organizationId,
       name: args.name,
       icon: args.icon,
+      category: args.category,
       x: args.x,
       y: args.y,
+      ...(radio.kind === "poi" ? {} : radio),
       createdAt: Date.now(),
     });
   },
@@ -355,14 +739,31 @@ export const updateFloorMarker = mutation({
     markerId: v.id("floorMarkers"),
     name: v.optional(v.string()),
     icon: v.optional(v.string()),
+    category: v.optional(v.union(markerCategoryValidator, v.null())),  // null = uncategorized
+    kind: v.optional(markerKind),
+    beaconId: v.optional(v.string()),
+    txPower: v.optional(v.union(v.number(), v.null())),  // null = use the default for the kind
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const marker = await requireOrgDoc(ctx, args.markerId, organizationId, "Marker not found");
     const { markerId, ...rest } = args;
     const patch: Record<string, unknown> = {};
     if (rest.name !== undefined) patch.name = rest.name;
     if (rest.icon !== undefined) patch.icon = rest.icon;
+    if (rest.category !== undefined) patch.category = rest.category ?? undefined;
+    if (rest.kind !== undefined || rest.beaconId !== undefined || rest.txPower !== undefined) {
+      const radio = await radioFields(
+        ctx,
+        organizationId,
+        markerId,
+        rest.kind ?? marker.kind ?? "poi",
+        rest.beaconId ?? marker.beaconId,
+        rest.txPower === undefined ? marker.txPower : rest.txPower ?? undefined
+      );
+      Object.assign(patch, radio);
+    }
     await ctx.db.patch(markerId, patch);
     return null;
   },
@@ -372,8 +773,65 @@ export const deleteFloorMarker = mutation({
   args: { markerId: v.id("floorMarkers") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.markerId, organizationId, "Marker not found");
     await ctx.db.delete(args.markerId);
     return null;
   },
 });
+
+// ─── Corridors ───────────────────────────────────────────────────────────────
+
+export const getCorridorGraph = query({
+  args: { floorPlanId: v.id("floorPlans") },
+  handler: async (ctx, args) => {
+    const member = await getOrgMember(ctx);
+    if (!member) return null;
+
+    const plan = await ctx.db.get(args.floorPlanId);
+    if (!plan || plan.organizationId !== member.organizationId) return null;
+
+    const graph = await ctx.db
+      .query("floorCorridors")
+      .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", args.floorPlanId))
+      .unique();
+    return graph ? { nodes: graph.nodes, edges: graph.edges } : { nodes: [], edges: [] };
+  },
+});
+
+/** Replaces a plan's corridor graph. Duplicate and self-loop edges are dropped. */
+export const saveCorridorGraph = mutation({
+  args: { floorPlanId: v.id("floorPlans"), ...corridorGraphArgs },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.floorPlanId, organizationId, "Floor plan not found");
+
+    const seen = new Set<string>();
+    const edges: { a: number; b: number }[] = [];
+    for (const { a, b } of args.edges) {
+      const valid = (i: number) => Number.isInteger(i) && i >= 0 && i < args.nodes.length;
+      if (!valid(a) || !valid(b)) throw new ConvexError("Corridor edge refers to a missing node");
+      const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+      if (a === b || seen.has(key)) continue;
+      seen.add(key);
+      edges.push({ a, b });
+    }
+
+    const existing = await ctx.db
+      .query("floorCorridors")
+      .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", args.floorPlanId))
+      .unique();
+    const graph = { nodes: args.nodes, edges, updatedAt: Date.now() };
+    if (existing) {
+      await ctx.db.patch(existing._id, graph);
+    } else {
+      await ctx.db.insert("floorCorridors", {
+        floorPlanId: args.floorPlanId,
+        organizationId,
+        ...graph,
+      });
+    }
+    return null;
+  },
+});
@@ -0,0 +1,205 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { beforeEach, describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+const BEACON = "f7826da6-4fa2-4e98-8024-bc5b71e0893e:1:1";
+const BEACON_CORNER = "f7826da6-4fa2-4e98-8024-bc5b71e0893e:1:2";
+
+// GPS positions that project to either side of the restricted floor zone
+const GPS_IN_ZONE = { latitude: 9.995, longitude: 10.005 };
+const GPS_OUTSIDE = { latitude: 10.008, longitude: 9.992 };
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+/**
+ * A calibrated floor plan with a restricted zone in its lower right corner,
+ * a beacon inside the zone and another in the opposite corner.
+ */
+async function seed(t: ReturnType<typeof convexTest>) {
+  await t.run(async (ctx) => {
+    const now = Date.now();
+    const admin = await ctx.db.insert("workers", {
+      clerkId: "admin",
+      email: "admin@example.com",
+      name: "admin",
+      role: "admin",
+      isOnDuty: true,
+      createdAt: now,
+    });
+    const organizationId = await ctx.db.insert("organizations", {
+      name: "Org",
+      joinCode: "ORGORG",
+      createdBy: admin,
+      createdAt: now,
+    });
+    await ctx.db.patch(admin, { organizationId });
+    await ctx.db.insert("workers", {
+      clerkId: "ana",
+      email: "ana@example.com",
+      name: "ana",
+      role: "worker",
+      isOnDuty: true,
+      organizationId,
+      createdAt: now,
+    });
+
+    const floorPlanId = await ctx.db.insert("floorPlans", {
+      organizationId,
+      name: "Ground",
+      imageStorageId: await ctx.storage.store(new Blob(["plan"])),
+      imageWidth: 1000,
+      imageHeight: 1000,
+      calibrationPoints: [
+        { px: 0, py: 0, lat: 10.01, lng: 9.99 },
+        { px: 1000, py: 0, lat: 10.01, lng: 10.01 },
+        { px: 0, py: 1000, lat: 9.99, lng: 9.99 },
+      ],
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.insert("floorZones", {
+      floorPlanId,
+      organizationId,
+      name: "Server room",
+      color: "#ff0000",
+      points: [
+        { x: 0.6, y: 0.6 },
+        { x: 0.9, y: 0.6 },
+        { x: 0.9, y: 0.9 },
+        { x: 0.6, y: 0.9 },
+      ],
+      restricted: true,
+      createdAt: now,
+    });
+    for (const [beaconId, x, y] of [
+      [BEACON, 0.75, 0.75],
+      [BEACON_CORNER, 0.1, 0.1],
+    ] as const) {
+      await ctx.db.insert("floorMarkers", {
+        floorPlanId,
+        organizationId,
+        name: beaconId,
+        x,
+        y,
+        kind: "ble_beacon",
+        beaconId,
+        createdAt: now,
+      });
+    }
+  });
+}
+
+async function intrusionZones(t: ReturnType<typeof convexTest>) {
+  return await t.run(async (ctx) =>
+    (await ctx.db.query("zoneIntrusions").collect()).map((i) => i.zoneName)
+  );
+}
+
+describe("floor zone intrusions", () => {
+  let t: ReturnType<typeof convexTest>;
+
+  beforeEach(async () => {
+    t = convexTest(schema, modules);
+    await seed(t);
+  });
+
+  test("the GPS position is used without a beacon fix", async () => {
+    const worker = t.withIdentity({ subject: "ana" });
+    await worker.mutation(api.locations.updateLocation, GPS_OUTSIDE);
+    await worker.mutation(api.locations.updateLocation, GPS_IN_ZONE);
+    expect(await intrusionZones(t)).toEqual(["Server room"]);
+  });
+
+  test("a beacon fix inside the zone wins over GPS outside it", async () => {
+    const worker = t.withIdentity({ subject: "ana" });
+    await worker.mutation(api.locations.updateLocation, GPS_OUTSIDE);
+    await worker.mutation(api.locations.updateLocation, {
+      ...GPS_OUTSIDE,
+      beacons: [{ id: BEACON, rssi: -60 }],
+    });
+    expect(await intrusionZones(t)).toEqual(["Server room"]);
+  });
+
+  test("a beacon fix outside the zone wins over GPS inside it", async () => {
+    const worker = t.withIdentity({ subject: "ana" });
+    await worker.mutation(api.locations.updateLocation, {
+      ...GPS_IN_ZONE,
+      beacons: [{ id: BEACON_CORNER, rssi: -60 }],
+    });
+    expect(await intrusionZones(t)).toEqual([]);
+  });
+});
+
+describe("automatic sound alerts", () => {
+  let t: ReturnType<typeof convexTest>;
+
+  beforeEach(async () => {
+    t = convexTest(schema, modules);
+    await seed(t);
+    await t.run(async (ctx) => {
+      for (const zone of await ctx.db.query("floorZones").collect()) {
+        await ctx.db.patch(zone._id, { autoSoundAlert: true });
+      }
+    });
+  });
+
+  async function enterZone() {
+    const worker = t.withIdentity({ subject: "ana" });
+    await worker.mutation(api.locations.updateLocation, GPS_OUTSIDE);
+    await worker.mutation(api.locations.updateLocation, GPS_IN_ZONE);
+  }
+
+  /** Demotes the organization owner and adds the named admins. */
+  async function replaceOwner(admins: string[]) {
+    await t.run(async (ctx) => {
+      const owner = (await ctx.db.query("workers").collect()).find((w) => w.clerkId === "admin")!;
+      await ctx.db.patch(owner._id, { role: "worker" });
+      for (const name of admins) {
+        await ctx.db.insert("workers", {
+          clerkId: name,
+          email: `${name}@example.com`,
+          name,
+          role: "admin",
+          isOnDuty: true,
+          organizationId: owner.organizationId,
+          createdAt: Date.now(),
+        });
+      }
+    });
+  }
+
+  async function alertSenders() {
+    return await t.run(async (ctx) => {
+      const senders: string[] = [];
+      for (const intrusion of await ctx.db.query("zoneIntrusions").collect()) {
+        const command =
+          intrusion.soundAlertCommandId && (await ctx.db.get(intrusion.soundAlertCommandId));
+        if (command) senders.push((await ctx.db.get(command.fromAdminId))!.name);
+      }
+      return senders;
+    });
+  }
+
+  test("come from the organization owner while they are an admin", async () => {
+    await enterZone();
+    expect(await alertSenders()).toEqual(["admin"]);
+  });
+
+  test("come from another admin once the owner is no longer one", async () => {
+    await replaceOwner(["bo"]);
+    await enterZone();
+    expect(await alertSenders()).toEqual(["bo"]);
+  });
+
+  test("are skipped when the organization has no admin", async () => {
+    await replaceOwner([]);
+    await enterZone();
+    expect(await intrusionZones(t)).toEqual(["Server room"]);
+    expect(await alertSenders()).toEqual([]);
+  });
+});
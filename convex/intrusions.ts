@@ -0,0 +1,297 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { ConvexError } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getOrgMember, requireOrgAdmin, requireWorkerInOrg } from "./lib/auth";
+import { pointInPolygon, pointInZone } from "./lib/geo";
+import { buildTransform } from "./lib/geoTransform";
+import { resolveWorkerFloor } from "./lib/floorLevels";
+import type { IndoorPosition } from "./lib/indoorPositioning";
+import { insertCommand } from "./commands";
+
+type LatLng = {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  indoor?: Pick<IndoorPosition, "floorPlanId" | "x" | "y">;  // beacon fix, preferred over GPS
+};
+
+interface ZoneRestriction {
+  restricted?: boolean;
+  allowedWorkerIds?: Id<"workers">[];
+  allowedRoles?: Doc<"workers">["role"][];
+  autoSoundAlert?: boolean;
+}
+
+/** Restriction fields accepted by `updateMapZone` and `updateFloorZone`. */
+export const zoneRestrictionArgs = {
+  restricted: v.optional(v.boolean()),
+  allowedWorkerIds: v.optional(v.array(v.id("workers"))),
+  allowedRoles: v.optional(
+    v.array(v.union(v.literal("worker"), v.literal("admin")))
+  ),
+  autoSoundAlert: v.optional(v.boolean()),
+};
+
+/**
+ * Adds any restriction fields present in `args` to a zone patch. Allow-listed
+ * workers must belong to the zone's organization.
+ */
+export async function addRestrictionPatch(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  args: ZoneRestriction,
+  patch: Record<string, unknown>
+) {
+  if (args.allowedWorkerIds !== undefined) {
+    for (const workerId of args.allowedWorkerIds) {
+      await requireWorkerInOrg(ctx, workerId, organizationId);
+    }
+    patch.allowedWorkerIds = [...new Set(args.allowedWorkerIds)];
+  }
+  if (args.allowedRoles !== undefined) patch.allowedRoles = [...new Set(args.allowedRoles)];
+  if (args.restricted !== undefined) patch.restricted = args.restricted;
+  if (args.autoSoundAlert !== undefined) patch.autoSoundAlert = args.autoSoundAlert;
+}
+
+/**
+ * Who automatic sound alerts come from: the organization owner while still one
+ * of its admins, otherwise the longest-standing admin. Null with no admin left.
+ */
+async function alertSender(
+  ctx: MutationCtx,
+  organization: Doc<"organizations">
+): Promise<Id<"workers"> | null> {
+  const owner = await ctx.db.get(organization.createdBy);
+  if (owner?.role === "admin" && owner.organizationId === organization._id) return owner._id;
+  const admin = (
+    await ctx.db
+      .query("workers")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", organization._id))
+      .collect()
+  ).find((w) => w.role === "admin");
+  return admin?._id ?? null;
+}
+
+function isAllowed(zone: ZoneRestriction, worker: Doc<"workers">): boolean {
+  return (
+    (zone.allowedWorkerIds ?? []).includes(worker._id) ||
+    (zone.allowedRoles ?? []).includes(worker.role)
+  );
+}
+
+/**
+ * Checks a position update against the organization's restricted map and
+ * floor zones. Floor zones use the beacon fix and its level when there is
+ * one, as occupancy does, and the projected GPS position otherwise. Entering a restricted zone without being allow-listed logs an
+ * intrusion and, if the zone asks for it, sends the worker a sound alert on
+ * behalf of the organization's admins. Staying inside does not re-trigger.
+ */
+export async function detectIntrusions(
+  ctx: MutationCtx,
+  worker: Doc<"workers">,
+  previous: LatLng | null,
+  next: LatLng,
+  now: number
+) {
+  if (!worker.organizationId) return;
+  const organizationId = worker.organizationId as Id<"organizations">;
+
+  const entered: {
+    zone: ZoneRestriction & { name: string };
+    mapZoneId?: Id<"mapZones">;
+    floorZoneId?: Id<"floorZones">;
+  }[] = [];
+
+  const mapZones = await ctx.db
+    .query("mapZones")
+    .withIndex("by_organizationId", (q) => q.eq("organizationId", organizationId))
+    .collect();
+  for (const zone of mapZones) {
+    if (!zone.restricted || isAllowed(zone, worker)) continue;
+    const wasInside = previous
+      ? pointInZone(previous.latitude, previous.longitude, zone)
+      : false;
+    if (!wasInside && pointInZone(next.latitude, next.longitude, zone)) {
+      entered.push({ zone, mapZoneId: zone._id });
+    }
+  }
+
+  // Floor zones are drawn in image space: take the beacon fix on that plan, or
+  // project the GPS position through the plan's calibration
+  const plans = await ctx.db
+    .query("floorPlans")
+    .withIndex("by_organizationId_active", (q) =>
+      q.eq("organizationId", organizationId).eq("isActive", true)
+    )
+    .collect();
+  // In a multi-level building only the level the worker is on counts
+  const isOnPlan = (plan: Doc<"floorPlans">, p: LatLng) => {
+    if (!plan.buildingId) return true;
+    const levels = plans.filter((l) => l.buildingId === plan.buildingId);
+    const floor = resolveWorkerFloor(
+      levels,
+      worker.floorOverride,
+      p.altitude,
+      p.indoor?.floorPlanId
+    );
+    return floor?.plan._id === plan._id;
+  };
+  for (const plan of plans) {
+    const zones = (
+      await ctx.db
+        .query("floorZones")
+        .withIndex("by_floorPlanId", (q) => q.eq("floorPlanId", plan._id))
+        .collect()
+    ).filter((z) => z.restricted && !isAllowed(z, worker));
+    if (zones.length === 0) continue;
+
+    const transform = buildTransform(
+      plan.calibrationPoints,
+      plan.imageWidth,
+      plan.imageHeight,
+      plan.calibrationMode
+    );
+    const toFloor = (p: LatLng) => {
+      const xy =
+        p.indoor?.floorPlanId === plan._id
+          ? p.indoor
+          : transform?.(p.latitude, p.longitude) ?? null;
+      return xy ? { lat: xy.y, lng: xy.x } : null;
+    };
+    const prevXY = previous && isOnPlan(plan, previous) ? toFloor(previous) : null;
+    const nextXY = isOnPlan(plan, next) ? toFloor(next) : null;
+    if (!nextXY) continue;
+
+    for (const zone of zones) {
+      const polygon = zone.points.map((p) => ({ lat: p.y, lng: p.x }));
+      const wasInside = prevXY ? pointInPolygon(prevXY.lat, prevXY.lng, polygon) : false;
+      if (!wasInside && pointInPolygon(nextXY.lat, nextXY.lng, polygon)) {
+        entered.push({ zone, floorZoneId: zone._id });
+      }
+    }
+  }
+
+  if (entered.length === 0) return;
+  const organization = await ctx.db.get(organizationId);
+  const fromAdminId =
+    organization && entered.some(({ zone }) => zone.autoSoundAlert)
+      ? await alertSender(ctx, organization)
+      : null;
+
+  for (const { zone, mapZoneId, floorZoneId } of entered) {
+    const soundAlertCommandId =
+      zone.autoSoundAlert && fromAdminId
+        ? await insertCommand(ctx, {
+            workerId: worker._id,
+            fromAdminId,
+            type: "sound_alert",
+            message: `You have entered the restricted zone "${zone.name}"`,
+            soundType: "alarm",
+          })
+        : undefined;
+
+    await ctx.db.insert("zoneIntrusions", {
+      organizationId,
+      workerId: worker._id,
+      workerName: worker.name,
+      mapZoneId,
+      floorZoneId,
+      zoneName: zone.name,
+      latitude: next.latitude,
+      longitude: next.longitude,
+      timestamp: now,
+      soundAlertCommandId,
+    });
+  }
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────────────
+
+/** Unacknowledged intrusions, newest first. Admins only. */
+export const getOpenIntrusions = query({
+  args: {},
+  handler: async (ctx) => {
+    const member = await getOrgMember(ctx);
+    if (!member || member.worker.role !== "admin") return [];
+
+    return await ctx.db
+      .query("zoneIntrusions")
+      .withIndex("by_organizationId_acknowledgedAt_timestamp", (q) =>
+        q.eq("organizationId", member.organizationId).eq("acknowledgedAt", undefined)
+      )
+      .order("desc")
+      .take(200);
+  },
+});
+
+/** Intrusion log for the organization, or for one worker, newest first. */
+export const getIntrusionLog = query({
+  args: {
+    workerId: v.optional(v.id("workers")),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const limit = Math.min(args.limit ?? 100, 500);
+
+    if (args.workerId) {
+      const workerId = args.workerId;
+      await requireWorkerInOrg(ctx, workerId, organizationId);
+      return await ctx.db
+        .query("zoneIntrusions")
+        .withIndex("by_workerId_timestamp", (q) => q.eq("workerId", workerId))
+        .order("desc")
+        .take(limit);
+    }
+
+    return await ctx.db
+      .query("zoneIntrusions")
+      .withIndex("by_organizationId_timestamp", (q) =>
+        q.eq("organizationId", organizationId)
+      )
+      .order("desc")
+      .take(limit);
+  },
+});
+
+// ─── Mutations ────────────────────────────────────────────────────────────────
+
+export const acknowledgeIntrusion = mutation({
+  args: { intrusionId: v.id("zoneIntrusions") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { worker, organizationId } = await requireOrgAdmin(ctx);
+    const intrusion = await ctx.db.get(args.intrusionId);
+    if (!intrusion || intrusion.organizationId !== organizationId) {
+      throw new ConvexError("Intrusion not found");
+    }
+    if (intrusion.acknowledgedAt === undefined) {
+      await ctx.db.patch(args.intrusionId, {
+        acknowledgedAt: Date.now(),
+        acknowledgedBy: worker._id,
+      });
+    }
+    return null;
+  },
+});
+
+export const acknowledgeAllIntrusions = mutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const { worker, organizationId } = await requireOrgAdmin(ctx);
+    const now = Date.now();
+    const open = await ctx.db
+      .query("zoneIntrusions")
+      .withIndex("by_organizationId_acknowledgedAt_timestamp", (q) =>
+        q.eq("organizationId", organizationId).eq("acknowledgedAt", undefined)
+      )
+      .collect();
+    for (const intrusion of open) {
+      await ctx.db.patch(intrusion._id, { acknowledgedAt: now, acknowledgedBy: worker._id });
+    }
+    return open.length;
+  },
+});
@@ -0,0 +1,120 @@
+import type { QueryCtx, MutationCtx } from "../_generated/server";
+import { ConvexError } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Shared auth and tenant-isolation guards.
+ *
+ * Every deployment hosts several organizations, so any function that takes
+ * a document id from the client must confirm the document belongs to the
+ * caller's organization before reading or writing it. Cross-org lookups are
+ * reported as "not found" so callers cannot probe for ids in other orgs.
+ */
+
+type Ctx = QueryCtx | MutationCtx;
+
+/** Tables whose documents carry an `organizationId` field. */
+type OrgScopedTable =
+  | "mapZones"
+  | "buildings"
+  | "floorPlans"
+  | "floorPlanRevisions"
+  | "floorMarkers"
+  | "floorZones"
+  | "workerGroups"
+  | "broadcasts"
+  | "escalationPolicies"
+  | "commandTemplates"
+  | "scheduledCommands"
+  | "taskTemplates"
+  | "taskAssignments"
+  | "recurringTaskRules";
+
+export async function requireAuth(ctx: Ctx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new ConvexError("Authentication required");
+  return identity;
+}
+
+export async function getWorkerByClerkId(ctx: Ctx, clerkId: string) {
+  return await ctx.db
+    .query("workers")
+    .withIndex("by_clerkId", (q) => q.eq("clerkId", clerkId))
+    .unique();
+}
+
+/** Admin check without an organization requirement (used to create one). */
+export async function requireAdmin(ctx: Ctx) {
+  const identity = await requireAuth(ctx);
+  const worker = await getWorkerByClerkId(ctx, identity.subject);
+  if (!worker || worker.role !== "admin") {
+    throw new ConvexError("Admin access required");
+  }
+  return { identity, worker };
+}
+
+/**
+ * Returns the caller and their organization, or null when the caller is
+ * signed out or not in an organization. Used by queries that render empty
+ * instead of throwing.
+ */
+export async function getOrgMember(ctx: Ctx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+
+  const worker = await getWorkerByClerkId(ctx, identity.subject);
+  if (!worker || !worker.organizationId) return null;
+
+  return {
+    identity,
+    worker,
+    organizationId: worker.organizationId as Id<"organizations">,
+  };
+}
+
+export async function requireOrgMember(ctx: Ctx) {
+  const identity = await requireAuth(ctx);
+  const worker = await getWorkerByClerkId(ctx, identity.subject);
+  if (!worker) throw new ConvexError("Worker not found");
+  if (!worker.organizationId) throw new ConvexError("No organization found");
+  return {
+    identity,
+    worker,
+    organizationId: worker.organizationId as Id<"organizations">,
+  };
+}
+
+export async function requireOrgAdmin(ctx: Ctx) {
+  const member = await requireOrgMember(ctx);
+  if (member.worker.role !== "admin") {
+    throw new ConvexError("Admin access required");
+  }
+  return member;
+}
+
+/** Loads a worker, rejecting workers outside the given organization. */
+export async function requireWorkerInOrg(
+  ctx: Ctx,
+  workerId: Id<"workers">,
+  organizationId: Id<"organizations">
+): Promise<Doc<"workers">> {
+  const worker = await ctx.db.get(workerId);
+  if (!worker || worker.organizationId !== organizationId) {
+    throw new ConvexError("Worker not found");
+  }
+  return worker;
+}
+
+/** Loads an org-scoped document, rejecting documents from other organizations. */
+export async function requireOrgDoc<T extends OrgScopedTable>(
+  ctx: Ctx,
+  id: Id<T>,
+  organizationId: Id<"organizations">,
+  notFoundMessage: string
+): Promise<Doc<T>> {
+  const doc = (await ctx.db.get(id)) as Doc<T> | null;
+  if (!doc || doc.organizationId !== organizationId) {
+    throw new ConvexError(notFoundMessage);
+  }
+  return doc;
+}
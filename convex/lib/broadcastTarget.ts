@@ -0,0 +1,20 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+
+/** Who a broadcast goes to. Zone and group membership is resolved when it is sent. */
+export const broadcastTargetValidator = v.union(
+  v.object({ kind: v.literal("all") }),
+  v.object({ kind: v.literal("on_duty") }),
+  v.object({ kind: v.literal("zone"), zoneId: v.id("mapZones") }),
+  v.object({ kind: v.literal("group"), groupId: v.id("workerGroups") })
+);
+
+export type BroadcastTarget = Infer<typeof broadcastTargetValidator>;
+
+/** Who a scheduled command goes to: one worker, or anything a broadcast can reach. */
+export const commandTargetValidator = v.union(
+  v.object({ kind: v.literal("worker"), workerId: v.id("workers") }),
+  ...broadcastTargetValidator.members
+);
+
+export type CommandTarget = Infer<typeof commandTargetValidator>;
@@ -0,0 +1,40 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+
+export const escalationActionValidator = v.union(
+  v.literal("resend"),
+  v.literal("upgrade_sound"),
+  v.literal("notify_backup"),
+  v.literal("notify_admins")
+);
+
+export type EscalationAction = Infer<typeof escalationActionValidator>;
+
+/**
+ * One step of an escalation policy, taken if the command is still
+ * unacknowledged `afterMinutes` after it was first sent.
+ */
+export const escalationStepValidator = v.object({
+  afterMinutes: v.number(),
+  action: escalationActionValidator,
+  backupWorkerId: v.optional(v.id("workers")),  // notify_backup only
+});
+
+export type EscalationStep = Infer<typeof escalationStepValidator>;
+
+export const MAX_ESCALATION_STEPS = 6;
+export const MAX_ESCALATION_MINUTES = 24 * 60;
+
+type SoundType = "notification" | "alarm" | "urgent";
+
+const SOUND_LEVELS: SoundType[] = ["notification", "alarm", "urgent"];
+
+/** The next louder sound, or the same one when it is already the loudest. */
+export function upgradeSound(sound: SoundType): SoundType {
+  return SOUND_LEVELS[Math.min(SOUND_LEVELS.indexOf(sound) + 1, SOUND_LEVELS.length - 1)];
+}
+
+/** The louder of two sounds. */
+export function louderSound(a: SoundType, b: SoundType): SoundType {
+  return SOUND_LEVELS.indexOf(a) >= SOUND_LEVELS.indexOf(b) ? a : b;
+}
@@ -0,0 +1,62 @@
+import type { Id } from "../_generated/dataModel";
+
+export interface FloorLevel {
+  _id: Id<"floorPlans">;
+  level?: number;
+  minAltitudeM?: number;
+  maxAltitudeM?: number;
+}
+
+export type FloorSource = "manual" | "beacon" | "altitude" | "default";
+
+/** Plans without an explicit level count as the ground floor. */
+export function levelOf(plan: { level?: number }): number {
+  return plan.level ?? 0;
+}
+
+/** Top floor first, the order a level switcher lists them in. */
+export function sortLevels<T extends { level?: number }>(levels: T[]): T[] {
+  return [...levels].sort((a, b) => levelOf(b) - levelOf(a));
+}
+
+/** The ground floor, or whichever level is closest to it. */
+export function defaultLevel<T extends FloorLevel>(levels: T[]): T | null {
+  let best: T | null = null;
+  for (const plan of levels) {
+    if (!best || Math.abs(levelOf(plan)) < Math.abs(levelOf(best))) best = plan;
+  }
+  return best;
+}
+
+/**
+ * Picks the level a worker is on within one building. A manual override to
+ * one of these levels wins; then the level of an indoor beacon fix; then the
+ * altitude band that contains the reported altitude; otherwise the default
+ * level.
+ */
+export function resolveWorkerFloor<T extends FloorLevel>(
+  levels: T[],
+  floorOverride: Id<"floorPlans"> | undefined,
+  altitude: number | undefined,
+  indoorFloorPlanId?: Id<"floorPlans">
+): { plan: T; source: FloorSource } | null {
+  if (levels.length === 0) return null;
+
+  const manual = floorOverride && levels.find((p) => p._id === floorOverride);
+  if (manual) return { plan: manual, source: "manual" };
+
+  const beacon = indoorFloorPlanId && levels.find((p) => p._id === indoorFloorPlanId);
+  if (beacon) return { plan: beacon, source: "beacon" };
+
+  if (altitude !== undefined) {
+    const banded = levels.find(
+      (p) =>
+        (p.minAltitudeM !== undefined || p.maxAltitudeM !== undefined) &&
+        altitude >= (p.minAltitudeM ?? -Infinity) &&
+        altitude < (p.maxAltitudeM ?? Infinity)
+    );
+    if (banded) return { plan: banded, source: "altitude" };
+  }
+
+  return { plan: defaultLevel(levels)!, source: "default" };
+}
@@ -0,0 +1,172 @@
+/** Ray-casting point-in-polygon. Works for small GPS areas. */
+export function pointInPolygon(
+  lat: number,
+  lng: number,
+  polygon: { lat: number; lng: number }[]
+): boolean {
+  let inside = false;
+  const n = polygon.length;
+  let j = n - 1;
+  for (let i = 0; i < n; j = i++) {
+    const xi = polygon[i].lng,
+      yi = polygon[i].lat;
+    const xj = polygon[j].lng,
+      yj = polygon[j].lat;
+    const intersect =
+      yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+    if (intersect) inside = !inside;
+  }
+  return inside;
+}
+
+const EARTH_RADIUS_M = 6371000;
+
+/** Great-circle (haversine) distance in metres between two GPS points. */
+export function distanceMeters(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Shortest distance in metres from a point to a polyline, using a local
+ * equirectangular projection around the point.
+ */
+export function distanceToPolylineMeters(
+  lat: number,
+  lng: number,
+  line: { lat: number; lng: number }[]
+): number {
+  if (line.length === 0) return Infinity;
+  const mPerDegLat = (Math.PI * EARTH_RADIUS_M) / 180;
+  const mPerDegLng = mPerDegLat * Math.cos((lat * Math.PI) / 180);
+  const xy = line.map((p) => ({
+    x: (p.lng - lng) * mPerDegLng,
+    y: (p.lat - lat) * mPerDegLat,
+  }));
+  if (xy.length === 1) return Math.hypot(xy[0].x, xy[0].y);
+
+  let best = Infinity;
+  for (let i = 0; i < xy.length - 1; i++) {
+    const a = xy[i];
+    const b = xy[i + 1];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lenSq = dx * dx + dy * dy;
+    // Project the origin (the query point) onto the segment
+    const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lenSq));
+    best = Math.min(best, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return best;
+}
+
+export type ZoneShape = "polygon" | "circle" | "corridor";
+
+export interface ZoneGeometry {
+  shape?: ZoneShape;
+  points: { lat: number; lng: number }[];
+  center?: { lat: number; lng: number };
+  radiusM?: number;
+  widthM?: number;
+}
+
+/**
+ * Membership test for any map zone shape. Zones saved before shapes existed
+ * have no `shape` and are polygons. A corridor's `widthM` is its full width,
+ * so a point is inside when it is within half of it from the centre line.
+ */
+export function pointInZone(lat: number, lng: number, zone: ZoneGeometry): boolean {
+  switch (zone.shape ?? "polygon") {
+    case "circle":
+      if (!zone.center || zone.radiusM === undefined) return false;
+      return (
+        distanceMeters(
+          { latitude: lat, longitude: lng },
+          { latitude: zone.center.lat, longitude: zone.center.lng }
+        ) <= zone.radiusM
+      );
+    case "corridor":
+      if (zone.widthM === undefined) return false;
+      return distanceToPolylineMeters(lat, lng, zone.points) <= zone.widthM / 2;
+    case "polygon":
+      return pointInPolygon(lat, lng, zone.points);
+  }
+}
+
+/**
+ * Douglas–Peucker simplification on a GPS track. Distances are measured in a
+ * local equirectangular projection, which is accurate at street scale.
+ * Returns the indices to keep, in order. Indices in `mustKeep` always survive.
+ */
+export function simplifyTrack(
+  points: { latitude: number; longitude: number }[],
+  epsilonM: number,
+  mustKeep: Set<number> = new Set()
+): number[] {
+  const n = points.length;
+  if (n <= 2) return points.map((_, i) => i);
+
+  const lat0 = (points[0].latitude * Math.PI) / 180;
+  const mPerDegLat = (Math.PI * EARTH_RADIUS_M) / 180;
+  const mPerDegLng = mPerDegLat * Math.cos(lat0);
+  const xy = points.map((p) => ({
+    x: (p.longitude - points[0].longitude) * mPerDegLng,
+    y: (p.latitude - points[0].latitude) * mPerDegLat,
+  }));
+
+  const keep = new Array<boolean>(n).fill(false);
+  keep[0] = keep[n - 1] = true;
+  for (const i of mustKeep) if (i >= 0 && i < n) keep[i] = true;
+
+  // Iterative to avoid deep recursion on long tracks
+  const stack: [number, number][] = [];
+  // Split at forced points first so each span simplifies independently
+  let prev = 0;
+  for (let i = 1; i < n; i++) {
+    if (keep[i]) {
+      stack.push([prev, i]);
+      prev = i;
+    }
+  }
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    if (end - start < 2) continue;
+
+    const a = xy[start];
+    const b = xy[end];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len = Math.hypot(dx, dy);
+
+    let maxDist = -1;
+    let maxIdx = -1;
+    for (let i = start + 1; i < end; i++) {
+      const p = xy[i];
+      const d =
+        len === 0
+          ? Math.hypot(p.x - a.x, p.y - a.y)
+          : Math.abs(dy * p.x - dx * p.y + b.x * a.y - b.y * a.x) / len;
+      if (d > maxDist) {
+        maxDist = d;
+        maxIdx = i;
+      }
+    }
+
+    if (maxDist > epsilonM) {
+      keep[maxIdx] = true;
+      stack.push([start, maxIdx], [maxIdx, end]);
+    }
+  }
+
+  const result: number[] = [];
+  keep.forEach((k, i) => k && result.push(i));
+  return result;
+}
@@ -0,0 +1,384 @@
+export interface CalibrationPoint {
+  px: number; // pixel x in natural image dimensions
+  py: number; // pixel y in natural image dimensions
+  lat: number;
+  lng: number;
+}
+
+/**
+ * `affine` handles scale, rotation and shear (2 points: rotation and uniform scale).
+ * `homography` also handles perspective, for photographed plans; it needs 4+ points.
+ */
+export type CalibrationMode = "affine" | "homography";
+
+export const MIN_CALIBRATION_POINTS: Record<CalibrationMode, number> = {
+  affine: 2,
+  homography: 4,
+};
+
+// Residuals above this many times the median (and above the floor) are flagged
+const OUTLIER_FACTOR = 3;
+const OUTLIER_FLOOR_M = 1;
+
+const EARTH_RADIUS_M = 6371000;
+
+type Mat3 = [number, number, number, number, number, number, number, number, number];
+
+interface Calibration {
+  mode: CalibrationMode;
+  parameters: number; // degrees of freedom consumed by the model
+  origin: { lat: number; lng: number };
+  mPerDegLat: number;
+  mPerDegLng: number;
+  toPixel: Mat3; // local metres (east, north, 1) → pixels (px, py, w)
+  toLocal: Mat3; // inverse of toPixel
+}
+
+/**
+ * Fits a calibration, working in a local east/north metric projection centred
+ * on the calibration points so lat/lng scale differences don't skew the fit.
+ * Homography mode falls back to affine below 4 points. Returns null if there
+ * are too few points or the points are degenerate (e.g. collinear).
+ */
+function fitCalibration(points: CalibrationPoint[], mode: CalibrationMode): Calibration | null {
+  if (points.length < MIN_CALIBRATION_POINTS.affine) return null;
+  const effectiveMode =
+    mode === "homography" && points.length >= MIN_CALIBRATION_POINTS.homography
+      ? "homography"
+      : "affine";
+
+  const n = points.length;
+  const origin = {
+    lat: points.reduce((s, p) => s + p.lat, 0) / n,
+    lng: points.reduce((s, p) => s + p.lng, 0) / n,
+  };
+  const mPerDegLat = (Math.PI * EARTH_RADIUS_M) / 180;
+  const mPerDegLng = mPerDegLat * Math.cos((origin.lat * Math.PI) / 180);
+  const local = points.map((p) => ({
+    x: (p.lng - origin.lng) * mPerDegLng,
+    y: (p.lat - origin.lat) * mPerDegLat,
+  }));
+  const pixels = points.map((p) => ({ x: p.px, y: p.py }));
+
+  // Hartley normalisation keeps the least-squares system well conditioned
+  const srcNorm = normalisation(local);
+  const dstNorm = normalisation(pixels);
+  if (!srcNorm || !dstNorm) return null;
+  const src = local.map((p) => applyAffine(srcNorm, p));
+  const dst = pixels.map((p) => applyAffine(dstNorm, p));
+
+  let normalised: Mat3 | null;
+  let parameters: number;
+  if (effectiveMode === "homography") {
+    normalised = fitHomography(src, dst);
+    parameters = 8;
+  } else if (n === 2) {
+    normalised = fitSimilarity(src, dst);
+    parameters = 4;
+  } else {
+    normalised = fitAffine(src, dst);
+    parameters = 6;
+  }
+  if (!normalised) return null;
+
+  const dstInverse = invert3(dstNorm);
+  if (!dstInverse) return null;
+  const toPixel = multiply3(dstInverse, multiply3(normalised, srcNorm));
+  const toLocal = invert3(toPixel);
+  if (!toLocal) return null;
+
+  return { mode: effectiveMode, parameters, origin, mPerDegLat, mPerDegLng, toPixel, toLocal };
+}
+
+/**
+ * 2 points: rotation, uniform scale and translation, so a plan drawn at any
+ * angle to north calibrates correctly. Image y grows downward while north
+ * grows upward, so the local frame is mirrored (x, y) → (x, -y) first; the
+ * rest is the complex-number fit w = a·z + b.
+ */
+function fitSimilarity(src: { x: number; y: number }[], dst: { x: number; y: number }[]): Mat3 | null {
+  const [p, q] = src.map((s) => ({ re: s.x, im: -s.y }));
+  const [u, v] = dst;
+  const dzRe = q.re - p.re;
+  const dzIm = q.im - p.im;
+  const dz2 = dzRe * dzRe + dzIm * dzIm;
+  if (dz2 < 1e-12) return null;
+
+  // a = (v - u) / (q - p)
+  const dwRe = v.x - u.x;
+  const dwIm = v.y - u.y;
+  const aRe = (dwRe * dzRe + dwIm * dzIm) / dz2;
+  const aIm = (dwIm * dzRe - dwRe * dzIm) / dz2;
+  if (Math.hypot(aRe, aIm) < 1e-12) return null;
+  // b = u - a·p
+  const bRe = u.x - (aRe * p.re - aIm * p.im);
+  const bIm = u.y - (aRe * p.im + aIm * p.re);
+
+  // Expand a·(x - iy) + b back into a matrix on (x, y)
+  return [aRe, aIm, bRe, aIm, -aRe, bIm, 0, 0, 1];
+}
+
+/** 3+ points: least-squares px = a*x + b*y + c, py = d*x + e*y + f. */
+function fitAffine(src: { x: number; y: number }[], dst: { x: number; y: number }[]): Mat3 | null {
+  const rows = src.map((p) => [p.x, p.y, 1]);
+  const cx = leastSquares(rows, dst.map((p) => p.x));
+  const cy = leastSquares(rows, dst.map((p) => p.y));
+  if (!cx || !cy) return null;
+  return [cx[0], cx[1], cx[2], cy[0], cy[1], cy[2], 0, 0, 1];
+}
+
+/** 4+ points: direct linear transform with h33 fixed to 1, solved by least squares. */
+function fitHomography(src: { x: number; y: number }[], dst: { x: number; y: number }[]): Mat3 | null {
+  const rows: number[][] = [];
+  const rhs: number[] = [];
+  src.forEach((p, i) => {
+    const { x: u, y: v } = dst[i];
+    rows.push([p.x, p.y, 1, 0, 0, 0, -u * p.x, -u * p.y]);
+    rhs.push(u);
+    rows.push([0, 0, 0, p.x, p.y, 1, -v * p.x, -v * p.y]);
+    rhs.push(v);
+  });
+  const h = leastSquares(rows, rhs);
+  if (!h) return null;
+  return [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1];
+}
+
+function toLocalMetres(c: Calibration, lat: number, lng: number) {
+  return { x: (lng - c.origin.lng) * c.mPerDegLng, y: (lat - c.origin.lat) * c.mPerDegLat };
+}
+
+/**
+ * Builds a function that converts (lat, lng) → normalized image fractions {x: 0-1, y: 0-1}.
+ * Returns null if there are too few calibration points or the transform is degenerate.
+ * The returned function yields null for points a homography maps behind the image plane.
+ */
+export function buildTransform(
+  points: CalibrationPoint[],
+  imageWidth: number,
+  imageHeight: number,
+  mode: CalibrationMode = "affine"
+): ((lat: number, lng: number) => { x: number; y: number } | null) | null {
+  const calibration = fitCalibration(points, mode);
+  if (!calibration) return null;
+
+  return (lat: number, lng: number) => {
+    const pixel = applyProjective(calibration.toPixel, toLocalMetres(calibration, lat, lng));
+    if (!pixel) return null;
+    return { x: pixel.x / imageWidth, y: pixel.y / imageHeight };
+  };
+}
+
+/**
+ * The inverse of `buildTransform`: normalized image fractions → (lat, lng).
+ * Used to carry positions drawn on one image over to a recalibrated one.
+ */
+export function buildInverseTransform(
+  points: CalibrationPoint[],
+  imageWidth: number,
+  imageHeight: number,
+  mode: CalibrationMode = "affine"
+): ((x: number, y: number) => { lat: number; lng: number } | null) | null {
+  const calibration = fitCalibration(points, mode);
+  if (!calibration) return null;
+
+  return (x: number, y: number) => {
+    const local = applyProjective(calibration.toLocal, { x: x * imageWidth, y: y * imageHeight });
+    if (!local) return null;
+    return {
+      lat: calibration.origin.lat + local.y / calibration.mPerDegLat,
+      lng: calibration.origin.lng + local.x / calibration.mPerDegLng,
+    };
+  };
+}
+
+export interface CalibrationQuality {
+  mode: CalibrationMode;     // model actually fitted (homography falls back below 4 points)
+  residualsM: number[];      // per point: distance between its GPS position and where its pixel lands
+  rmsM: number;
+  outliers: boolean[];
+  redundancy: number;        // extra constraints beyond the model's minimum; 0 means an exact fit
+}
+
+/**
+ * Measures how well a calibration fits its own points, in metres on the ground.
+ * With no redundancy the fit is exact and the residuals say nothing about
+ * accuracy, so callers should ask for more points.
+ */
+export function calibrationQuality(
+  points: CalibrationPoint[],
+  mode: CalibrationMode = "affine"
+): CalibrationQuality | null {
+  const calibration = fitCalibration(points, mode);
+  if (!calibration) return null;
+
+  const residualsM = points.map((p) => {
+    const predicted = applyProjective(calibration.toLocal, { x: p.px, y: p.py });
+    if (!predicted) return Infinity;
+    const actual = toLocalMetres(calibration, p.lat, p.lng);
+    return Math.hypot(predicted.x - actual.x, predicted.y - actual.y);
+  });
+  const rmsM = Math.sqrt(residualsM.reduce((s, r) => s + r * r, 0) / residualsM.length);
+
+  const redundancy = Math.max(0, 2 * points.length - calibration.parameters);
+  const sorted = [...residualsM].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const threshold = Math.max(OUTLIER_FLOOR_M, OUTLIER_FACTOR * median);
+  const outliers = residualsM.map((r) => redundancy > 0 && r > threshold);
+
+  return { mode: calibration.mode, residualsM, rmsM, outliers, redundancy };
+}
+
+/**
+ * The image's four corners on the ground, clockwise from top-left, as a
+ * polygon for deciding which site a position belongs to. Returns null when
+ * the plan isn't calibrated or a corner falls beyond a homography's horizon.
+ */
+export function imageFootprint(
+  points: CalibrationPoint[],
+  imageWidth: number,
+  imageHeight: number,
+  mode: CalibrationMode = "affine"
+): { lat: number; lng: number }[] | null {
+  const calibration = fitCalibration(points, mode);
+  if (!calibration) return null;
+
+  const corners = [
+    { x: 0, y: 0 },
+    { x: imageWidth, y: 0 },
+    { x: imageWidth, y: imageHeight },
+    { x: 0, y: imageHeight },
+  ];
+  const footprint: { lat: number; lng: number }[] = [];
+  for (const corner of corners) {
+    const local = applyProjective(calibration.toLocal, corner);
+    if (!local) return null;
+    footprint.push({
+      lat: calibration.origin.lat + local.y / calibration.mPerDegLat,
+      lng: calibration.origin.lng + local.x / calibration.mPerDegLng,
+    });
+  }
+  return footprint;
+}
+
+/**
+ * The plan's width and height on the ground in metres, measured along its
+ * top and left edges. Null when the plan isn't calibrated.
+ */
+export function planSizeMeters(
+  points: CalibrationPoint[],
+  imageWidth: number,
+  imageHeight: number,
+  mode: CalibrationMode = "affine"
+): { width: number; height: number } | null {
+  const calibration = fitCalibration(points, mode);
+  if (!calibration) return null;
+  const topLeft = applyProjective(calibration.toLocal, { x: 0, y: 0 });
+  const topRight = applyProjective(calibration.toLocal, { x: imageWidth, y: 0 });
+  const bottomLeft = applyProjective(calibration.toLocal, { x: 0, y: imageHeight });
+  if (!topLeft || !topRight || !bottomLeft) return null;
+  return {
+    width: Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y),
+    height: Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y),
+  };
+}
+
+// ─── Linear algebra ──────────────────────────────────────────────────────────
+
+/** Translate to the centroid and scale so the mean distance from it is √2. */
+function normalisation(pts: { x: number; y: number }[]): Mat3 | null {
+  const cx = pts.reduce((s, p) => s + p.x, 0) / pts.length;
+  const cy = pts.reduce((s, p) => s + p.y, 0) / pts.length;
+  const meanDist = pts.reduce((s, p) => s + Math.hypot(p.x - cx, p.y - cy), 0) / pts.length;
+  if (meanDist < 1e-9) return null;
+  const s = Math.SQRT2 / meanDist;
+  return [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1];
+}
+
+function applyAffine(m: Mat3, p: { x: number; y: number }) {
+  return { x: m[0] * p.x + m[1] * p.y + m[2], y: m[3] * p.x + m[4] * p.y + m[5] };
+}
+
+function applyProjective(m: Mat3, p: { x: number; y: number }): { x: number; y: number } | null {
+  const w = m[6] * p.x + m[7] * p.y + m[8];
+  if (w <= 1e-12) return null;
+  return {
+    x: (m[0] * p.x + m[1] * p.y + m[2]) / w,
+    y: (m[3] * p.x + m[4] * p.y + m[5]) / w,
+  };
+}
+
+function multiply3(a: Mat3, b: Mat3): Mat3 {
+  const r = new Array<number>(9).fill(0);
+  for (let i = 0; i < 3; i++)
+    for (let j = 0; j < 3; j++)
+      for (let k = 0; k < 3; k++) r[i * 3 + j] += a[i * 3 + k] * b[k * 3 + j];
+  return r as Mat3;
+}
+
+function invert3(m: Mat3): Mat3 | null {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * h - b * g) / det, (a * e - b * d) / det,
+  ];
+}
+
+/** Least-squares solution of rows · x ≈ rhs via the normal equations. */
+function leastSquares(rows: number[][], rhs: number[]): number[] | null {
+  const n = rows[0].length;
+  const AtA = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  const Atb = new Array<number>(n).fill(0);
+  rows.forEach((row, r) => {
+    for (let i = 0; i < n; i++) {
+      Atb[i] += row[i] * rhs[r];
+      for (let j = 0; j < n; j++) AtA[i][j] += row[i] * row[j];
+    }
+  });
+  return solveLinear(AtA, Atb);
+}
+
+/** Gaussian elimination with partial pivoting for Ax = b. Returns null if singular. */
+function solveLinear(A: number[][], b: number[]): number[] | null {
+  // Clone to avoid mutation
+  const M = A.map((row) => [...row]);
+  const v = [...b];
+  const n = v.length;
+
+  for (let col = 0; col < n; col++) {
+    // Find pivot
+    let maxRow = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(M[row][col]) > Math.abs(M[maxRow][col])) maxRow = row;
+    }
+    [M[col], M[maxRow]] = [M[maxRow], M[col]];
+    [v[col], v[maxRow]] = [v[maxRow], v[col]];
+
+    if (Math.abs(M[col][col]) < 1e-12) return null;
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = M[row][col] / M[col][col];
+      for (let j = col; j < n; j++) {
+        M[row][j] -= factor * M[col][j];
+      }
+      v[row] -= factor * v[col];
+    }
+  }
+
+  // Back substitution
+  const x = new Array<number>(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    x[i] = v[i];
+    for (let j = i + 1; j < n; j++) {
+      x[i] -= M[i][j] * x[j];
+    }
+    x[i] /= M[i][i];
+  }
+
+  return x;
+}
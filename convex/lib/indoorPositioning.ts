@@ -0,0 +1,130 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+
+export type BeaconKind = "ble_beacon" | "wifi_ap";
+
+/** Typical RSSI one metre from the transmitter, for beacons without a measured value. */
+export const DEFAULT_TX_POWER: Record<BeaconKind, number> = {
+  ble_beacon: -59,
+  wifi_ap: -40,
+};
+
+// Readings weaker than this are mostly noise
+export const MIN_USABLE_RSSI = -100;
+
+// Free space is 2; offices and warehouses with shelving and people run 2-3
+const PATH_LOSS_EXPONENT = 2.5;
+
+// Distances closer than this are not meaningful from RSSI and would dominate the weights
+const MIN_DISTANCE_M = 0.5;
+
+// A trilateration result further outside the plan than this (as a fraction) is discarded
+const PLAN_MARGIN = 0.1;
+
+/** An indoor fix stored on `currentWorkerLocations`, in normalized plan coordinates. */
+export const indoorPositionValidator = v.object({
+  floorPlanId: v.id("floorPlans"),
+  x: v.number(),
+  y: v.number(),
+  method: v.union(v.literal("trilateration"), v.literal("centroid")),
+  accuracyM: v.optional(v.number()),
+  beaconCount: v.number(),
+});
+
+export type IndoorPosition = Infer<typeof indoorPositionValidator>;
+
+/** BLE ids (uuid:major:minor) and BSSIDs are matched case-insensitively. */
+export function normalizeBeaconId(id: string): string {
+  return id.trim().toLowerCase();
+}
+
+/** Log-distance path loss model: distance in metres for a received signal strength. */
+export function rssiToDistanceM(rssi: number, txPower: number): number {
+  return Math.max(MIN_DISTANCE_M, 10 ** ((txPower - rssi) / (10 * PATH_LOSS_EXPONENT)));
+}
+
+export interface BeaconRange {
+  x: number; // normalized 0-1, as stored on the marker
+  y: number;
+  distanceM: number;
+}
+
+/**
+ * Estimates a position from beacon ranges. With three or more beacons and a
+ * known plan size in metres, a weighted least-squares trilateration is used;
+ * otherwise, or when that is degenerate or lands off the plan, a centroid
+ * weighted by 1/d². Nearer beacons count more in both, since RSSI error
+ * grows with distance.
+ */
+export function estimateIndoorPosition(
+  ranges: BeaconRange[],
+  planSizeM: { width: number; height: number } | null
+): Omit<IndoorPosition, "floorPlanId"> | null {
+  if (ranges.length === 0) return null;
+
+  if (ranges.length >= 3 && planSizeM) {
+    const fix = trilaterate(ranges, planSizeM);
+    if (fix) return { ...fix, method: "trilateration", beaconCount: ranges.length };
+  }
+
+  let sw = 0;
+  let sx = 0;
+  let sy = 0;
+  for (const r of ranges) {
+    const w = 1 / (r.distanceM * r.distanceM);
+    sw += w;
+    sx += w * r.x;
+    sy += w * r.y;
+  }
+  return {
+    x: sx / sw,
+    y: sy / sw,
+    method: "centroid",
+    // At best the worker is as close as the nearest beacon reads
+    accuracyM: Math.min(...ranges.map((r) => r.distanceM)),
+    beaconCount: ranges.length,
+  };
+}
+
+/**
+ * Linearizes the range circles against the nearest beacon and solves the
+ * 2×2 weighted normal equations in metres.
+ */
+function trilaterate(
+  ranges: BeaconRange[],
+  size: { width: number; height: number }
+): { x: number; y: number; accuracyM: number } | null {
+  const pts = ranges.map((r) => ({ x: r.x * size.width, y: r.y * size.height, d: r.distanceM }));
+  const ref = pts.reduce((best, p) => (p.d < best.d ? p : best));
+
+  let a11 = 0, a12 = 0, a22 = 0, b1 = 0, b2 = 0;
+  for (const p of pts) {
+    if (p === ref) continue;
+    const ax = 2 * (p.x - ref.x);
+    const ay = 2 * (p.y - ref.y);
+    const rhs = ref.d ** 2 - p.d ** 2 + p.x ** 2 - ref.x ** 2 + p.y ** 2 - ref.y ** 2;
+    const w = 1 / (p.d * p.d);
+    a11 += w * ax * ax;
+    a12 += w * ax * ay;
+    a22 += w * ay * ay;
+    b1 += w * ax * rhs;
+    b2 += w * ay * rhs;
+  }
+  const det = a11 * a22 - a12 * a12;
+  // Collinear beacons leave one direction unconstrained
+  if (Math.abs(det) < 1e-9 * Math.max(1, a11 * a22)) return null;
+
+  const X = (a22 * b1 - a12 * b2) / det;
+  const Y = (a11 * b2 - a12 * b1) / det;
+  const x = X / size.width;
+  const y = Y / size.height;
+  if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+  if (x < -PLAN_MARGIN || x > 1 + PLAN_MARGIN || y < -PLAN_MARGIN || y > 1 + PLAN_MARGIN) {
+    return null;
+  }
+
+  const rms = Math.sqrt(
+    pts.reduce((s, p) => s + (Math.hypot(X - p.x, Y - p.y) - p.d) ** 2, 0) / pts.length
+  );
+  return { x, y, accuracyM: rms };
+}
@@ -0,0 +1,24 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+
+/** What a floor marker stands for; uncategorized markers are general points of interest. */
+export const markerCategoryValidator = v.union(
+  v.literal("exit"),
+  v.literal("fire_extinguisher"),
+  v.literal("aed"),
+  v.literal("asset"),
+  v.literal("equipment")
+);
+
+export type MarkerCategory = Infer<typeof markerCategoryValidator>;
+
+export const MARKER_CATEGORIES: MarkerCategory[] = [
+  "exit",
+  "fire_extinguisher",
+  "aed",
+  "asset",
+  "equipment",
+];
+
+/** Categories an evacuation plan shows; everything else is hidden when printing one. */
+export const EVACUATION_CATEGORIES: MarkerCategory[] = ["exit", "fire_extinguisher", "aed"];
@@ -0,0 +1,32 @@
+/** Placeholders a command message may contain, filled in per recipient when it is sent. */
+export const MESSAGE_PLACEHOLDERS = {
+  workerName: "Recipient's name",
+  zoneName: "Zone the recipient is in",
+  adminName: "Your name",
+} as const;
+
+export type MessagePlaceholder = keyof typeof MESSAGE_PLACEHOLDERS;
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+export function hasPlaceholder(text: string, name: MessagePlaceholder): boolean {
+  return text.includes(`{${name}}`);
+}
+
+/** The first `{name}` in the text that is not a known placeholder, if any. */
+export function findUnknownPlaceholder(text: string): string | undefined {
+  for (const [, name] of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!Object.hasOwn(MESSAGE_PLACEHOLDERS, name)) return name;
+  }
+  return undefined;
+}
+
+/** Replaces known placeholders that have a value; anything else is left as typed. */
+export function fillPlaceholders(
+  text: string,
+  values: Partial<Record<MessagePlaceholder, string>>
+): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    (Object.hasOwn(MESSAGE_PLACEHOLDERS, name) && values[name as MessagePlaceholder]) || match
+  );
+}
@@ -0,0 +1,17 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+
+/** Canned replies a worker can send with one tap. */
+export const quickResponseValidator = v.union(
+  v.literal("on_my_way"),
+  v.literal("need_help"),
+  v.literal("cant_respond")
+);
+
+export type QuickResponse = Infer<typeof quickResponseValidator>;
+
+export const QUICK_RESPONSE_TEXT: Record<QuickResponse, string> = {
+  on_my_way: "On my way",
+  need_help: "Need help",
+  cant_respond: "Can't respond",
+};
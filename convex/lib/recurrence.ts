@@ -0,0 +1,150 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+
+/**
+ * How a rule repeats: every day, Monday to Friday, one chosen weekday, or a
+ * custom set of weekdays (0 = Sunday … 6 = Saturday). Shared by recurring
+ * tasks and recurring commands.
+ */
+export const recurrenceTypeValidator = v.union(
+  v.literal("daily"),
+  v.literal("weekdays"),
+  v.literal("weekly"),
+  v.literal("custom")
+);
+
+export type RecurrenceType = Infer<typeof recurrenceTypeValidator>;
+
+/**
+ * When a recurring command fires: a recurrence rule plus the wall-clock time
+ * ("HH:MM") in an IANA time zone, so 12:00 stays 12:00 across daylight saving.
+ */
+export const commandRecurrenceValidator = v.object({
+  recurrenceType: recurrenceTypeValidator,
+  weekdays: v.optional(v.array(v.number())),
+  startDate: v.string(),
+  endDate: v.optional(v.string()),
+  timeOfDay: v.string(),
+  timeZone: v.string(),
+});
+
+export type CommandRecurrence = Infer<typeof commandRecurrenceValidator>;
+
+export interface RecurrenceRule {
+  recurrenceType: RecurrenceType;
+  weekdays?: number[];
+  startDate: string;  // YYYY-MM-DD
+  endDate?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Date utilities ───────────────────────────────────────────────────────────
+
+export function formatDate(ms: number): string {
+  const d = new Date(ms);
+  const y = d.getUTCFullYear();
+  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(d.getUTCDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+export function doesRuleApplyToDate(rule: RecurrenceRule, dateStr: string): boolean {
+  if (dateStr < rule.startDate) return false;
+  if (rule.endDate && dateStr > rule.endDate) return false;
+
+  const d = new Date(dateStr + "T00:00:00Z");
+  const dow = d.getUTCDay(); // 0=Sun…6=Sat
+
+  switch (rule.recurrenceType) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return dow >= 1 && dow <= 5;
+    case "weekly":
+      return rule.weekdays?.[0] === dow;
+    case "custom":
+      return rule.weekdays?.includes(dow) ?? false;
+    default:
+      return false;
+  }
+}
+
+export function getDaysInRange(startDate: string, endDate: string): string[] {
+  const days: string[] = [];
+  const cur = new Date(startDate + "T00:00:00Z");
+  const end = new Date(endDate + "T00:00:00Z");
+  while (cur <= end) {
+    days.push(formatDate(cur.getTime()));
+    cur.setUTCDate(cur.getUTCDate() + 1);
+  }
+  return days;
+}
+
+// ─── Time zones ───────────────────────────────────────────────────────────────
+
+/** Offset of `timeZone` from UTC at the instant `ms`, in milliseconds. */
+function timeZoneOffset(ms: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(ms));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(ms / 1000) * 1000;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The calendar date (YYYY-MM-DD) at instant `ms` in `timeZone`. */
+export function dateInTimeZone(ms: number, timeZone: string): string {
+  return formatDate(ms + timeZoneOffset(ms, timeZone));
+}
+
+/**
+ * The instant a wall-clock time ("HH:MM") occurs on a date in `timeZone`.
+ * A time skipped by a daylight-saving jump resolves to just after the jump.
+ */
+export function zonedTimeToUtc(dateStr: string, timeOfDay: string, timeZone: string): number {
+  const [hours, minutes] = timeOfDay.split(":").map(Number);
+  const wallClock = Date.parse(`${dateStr}T00:00:00Z`) + (hours * 60 + minutes) * 60 * 1000;
+  // The offset at the guess can differ from the offset at the answer near a transition
+  const guess = wallClock - timeZoneOffset(wallClock, timeZone);
+  return wallClock - timeZoneOffset(guess, timeZone);
+}
+
+/**
+ * The first time after `after` that a rule fires at `timeOfDay` in
+ * `timeZone`, or null once the rule has ended.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  timeOfDay: string,
+  timeZone: string,
+  after: number
+): number | null {
+  const today = dateInTimeZone(after, timeZone);
+  let day = Date.parse(`${today > rule.startDate ? today : rule.startDate}T00:00:00Z`);
+  // A weekly rule fires at least once in any eight days
+  for (let i = 0; i < 8; i++, day += DAY_MS) {
+    const dateStr = formatDate(day);
+    if (rule.endDate && dateStr > rule.endDate) return null;
+    if (!doesRuleApplyToDate(rule, dateStr)) continue;
+    const at = zonedTimeToUtc(dateStr, timeOfDay, timeZone);
+    if (at > after) return at;
+  }
+  return null;
+}
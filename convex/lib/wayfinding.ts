@@ -0,0 +1,133 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** Walkable corridors on a floor plan; nodes are normalized 0-1, edges index into nodes. */
+export interface CorridorGraph {
+  nodes: Point[];
+  edges: { a: number; b: number }[];
+}
+
+export const corridorGraphArgs = {
+  nodes: v.array(v.object({ x: v.number(), y: v.number() })),
+  edges: v.array(v.object({ a: v.number(), b: v.number() })),
+};
+
+/** A route attached to a command, drawn by the app over the floor plan. */
+export const routeValidator = v.object({
+  floorPlanId: v.id("floorPlans"),
+  markerId: v.id("floorMarkers"),
+  markerName: v.string(),
+  points: v.array(v.object({ x: v.number(), y: v.number() })),
+  distanceM: v.optional(v.number()), // only for calibrated plans
+});
+
+export type Route = Infer<typeof routeValidator>;
+
+/**
+ * Shortest walk from `from` to `to` along the corridors. Both ends are
+ * snapped to the nearest point on any corridor, so the route starts and ends
+ * with a short straight leg to the graph. `size` scales the normalized
+ * coordinates so distances are isotropic (image pixels, or metres when the
+ * plan is calibrated); the returned `length` is in the same unit. Returns
+ * null when the graph has no corridors or the two ends aren't connected.
+ */
+export function shortestRoute(
+  graph: CorridorGraph,
+  from: Point,
+  to: Point,
+  size: { width: number; height: number }
+): { points: Point[]; length: number } | null {
+  const scale = (p: Point) => ({ x: p.x * size.width, y: p.y * size.height });
+  const nodes = graph.nodes.map(scale);
+  const edges = graph.edges.filter(
+    (e) => e.a !== e.b && nodes[e.a] !== undefined && nodes[e.b] !== undefined
+  );
+  if (edges.length === 0) return null;
+
+  const start = snapToEdges(nodes, edges, scale(from));
+  const end = snapToEdges(nodes, edges, scale(to));
+  if (!start || !end) return null;
+
+  // The snapped points join the graph as two extra nodes
+  const S = nodes.length;
+  const T = nodes.length + 1;
+  const all = [...nodes, start.point, end.point];
+  const adjacency: { to: number; cost: number }[][] = all.map(() => []);
+  const link = (i: number, j: number) => {
+    const cost = dist(all[i], all[j]);
+    adjacency[i].push({ to: j, cost });
+    adjacency[j].push({ to: i, cost });
+  };
+  for (const e of edges) link(e.a, e.b);
+  link(S, start.edge.a);
+  link(S, start.edge.b);
+  link(T, end.edge.a);
+  link(T, end.edge.b);
+  if (start.edge === end.edge) link(S, T);
+
+  const path = dijkstra(adjacency, S, T);
+  if (!path) return null;
+
+  const scaled = [scale(from), ...path.map((i) => all[i]), scale(to)];
+  let length = 0;
+  for (let i = 1; i < scaled.length; i++) length += dist(scaled[i - 1], scaled[i]);
+
+  return {
+    points: scaled.map((p) => ({ x: p.x / size.width, y: p.y / size.height })),
+    length,
+  };
+}
+
+function dist(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function snapToEdges(nodes: Point[], edges: CorridorGraph["edges"], p: Point) {
+  let best: { edge: CorridorGraph["edges"][number]; point: Point; d: number } | null = null;
+  for (const edge of edges) {
+    const a = nodes[edge.a];
+    const b = nodes[edge.b];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+    const point = { x: a.x + t * dx, y: a.y + t * dy };
+    const d = dist(p, point);
+    if (!best || d < best.d) best = { edge, point, d };
+  }
+  return best;
+}
+
+/** Plain O(V²) Dijkstra; corridor graphs are hand-drawn and stay small. */
+function dijkstra(adjacency: { to: number; cost: number }[][], source: number, target: number) {
+  const n = adjacency.length;
+  const distance = new Array<number>(n).fill(Infinity);
+  const previous = new Array<number>(n).fill(-1);
+  const done = new Array<boolean>(n).fill(false);
+  distance[source] = 0;
+
+  for (;;) {
+    let u = -1;
+    for (let i = 0; i < n; i++) {
+      if (!done[i] && distance[i] < Infinity && (u === -1 || distance[i] < distance[u])) u = i;
+    }
+    if (u === -1) return null;
+    if (u === target) break;
+    done[u] = true;
+    for (const { to, cost } of adjacency[u]) {
+      if (distance[u] + cost < distance[to]) {
+        distance[to] = distance[u] + cost;
+        previous[to] = u;
+      }
+    }
+  }
+
+  const path: number[] = [];
+  for (let at = target; at !== -1; at = previous[at]) path.unshift(at);
+  return path;
+}
@@ -0,0 +1,162 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { distanceMeters, simplifyTrack } from "./lib/geo";
+
+export const DEFAULT_RAW_RETENTION_DAYS = 7;
+export const DEFAULT_RETENTION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 2000;
+// Douglas–Peucker tolerance for thinned trails
+const SIMPLIFY_EPSILON_M = 10;
+// A stop is the worker staying within STOP_RADIUS_M for at least STOP_MIN_MS.
+const STOP_RADIUS_M = 25;
+const STOP_MIN_MS = 3 * 60 * 1000;
+// Trail segments separated by a longer gap are simplified independently.
+const SEGMENT_GAP_MS = 15 * 60 * 1000;
+
+/**
+ * Indices of points that must survive simplification: the first and last
+ * sample of every stop, and both sides of every recording gap.
+ */
+function protectedIndices(points: Doc<"historicalWorkerLocations">[]): Set<number> {
+  const keep = new Set<number>();
+
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].timestamp - points[i - 1].timestamp > SEGMENT_GAP_MS) {
+      keep.add(i - 1);
+      keep.add(i);
+    }
+  }
+
+  let anchor = 0;
+  for (let i = 1; i <= points.length; i++) {
+    const left =
+      i === points.length || distanceMeters(points[anchor], points[i]) > STOP_RADIUS_M;
+    if (!left) continue;
+    if (points[i - 1].timestamp - points[anchor].timestamp >= STOP_MIN_MS) {
+      keep.add(anchor);
+      keep.add(i - 1);
+    }
+    anchor = i;
+  }
+
+  return keep;
+}
+
+// ─── Cron entry point ────────────────────────────────────────────────────────
+
+/**
+ * Fans out one compaction job per worker in every organization, and per
+ * worker removed from one, whose trail ages out on the default windows.
+ */
+export const compactAllHistory = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const orgs = await ctx.db.query("organizations").collect();
+    for (const org of orgs) {
+      const workers = await ctx.db
+        .query("workers")
+        .withIndex("by_organizationId", (q) => q.eq("organizationId", org._id as string))
+        .collect();
+      for (const worker of workers) {
+        await ctx.scheduler.runAfter(0, internal.locationRetention.compactWorkerHistory, {
+          workerId: worker._id,
+          organizationId: org._id,
+        });
+      }
+    }
+
+    const unassigned = await ctx.db
+      .query("workers")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", undefined))
+      .collect();
+    for (const worker of unassigned) {
+      await ctx.scheduler.runAfter(0, internal.locationRetention.compactWorkerHistory, {
+        workerId: worker._id,
+      });
+    }
+    return null;
+  },
+});
+
+/**
+ * Deletes a worker's points past the org's retention window, then thins
+ * points older than the raw-retention window with Douglas–Peucker while
+ * keeping stop points. Workers without an organization use the defaults.
+ * Works in batches and reschedules itself until done.
+ */
+export const compactWorkerHistory = internalMutation({
+  args: {
+    workerId: v.id("workers"),
+    organizationId: v.optional(v.id("organizations")),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const org = args.organizationId ? await ctx.db.get(args.organizationId) : null;
+
+    const now = Date.now();
+    const rawDays = org?.historyRawRetentionDays ?? DEFAULT_RAW_RETENTION_DAYS;
+    const totalDays = org?.historyRetentionDays ?? DEFAULT_RETENTION_DAYS;
+    const deleteBefore = now - totalDays * DAY_MS;
+    const simplifyBefore = now - rawDays * DAY_MS;
+
+    // 1. Drop everything past the retention window
+    const expired = await ctx.db
+      .query("historicalWorkerLocations")
+      .withIndex("by_workerId_timestamp", (q) =>
+        q.eq("workerId", args.workerId).lt("timestamp", deleteBefore)
+      )
+      .take(BATCH_SIZE);
+    await Promise.all(expired.map((p) => ctx.db.delete(p._id)));
+    if (expired.length === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.locationRetention.compactWorkerHistory, args);
+      return null;
+    }
+
+    // 2. Thin the next batch of not-yet-simplified points
+    const cursor = await ctx.db
+      .query("historyCompaction")
+      .withIndex("by_workerId", (q) => q.eq("workerId", args.workerId))
+      .unique();
+    const from = Math.max(cursor?.compactedThrough ?? 0, deleteBefore);
+
+    const points = await ctx.db
+      .query("historicalWorkerLocations")
+      .withIndex("by_workerId_timestamp", (q) =>
+        q
+          .eq("workerId", args.workerId)
+          .gt("timestamp", from)
+          .lt("timestamp", simplifyBefore)
+      )
+      .take(BATCH_SIZE);
+    if (points.length === 0) return null;
+
+    const kept = new Set(
+      simplifyTrack(points, SIMPLIFY_EPSILON_M, protectedIndices(points))
+    );
+    const removed: Id<"historicalWorkerLocations">[] = [];
+    points.forEach((p, i) => {
+      if (!kept.has(i)) removed.push(p._id);
+    });
+    await Promise.all(removed.map((id) => ctx.db.delete(id)));
+
+    const compactedThrough = points[points.length - 1].timestamp;
+    if (cursor) {
+      await ctx.db.patch(cursor._id, { compactedThrough });
+    } else {
+      await ctx.db.insert("historyCompaction", {
+        workerId: args.workerId,
+        compactedThrough,
+      });
+    }
+
+    if (points.length === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.locationRetention.compactWorkerHistory, args);
+    }
+    return null;
+  },
+});
@@ -1,14 +1,195 @@
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
 import { mutation, query } from "./_generated/server";
-import type { QueryCtx, MutationCtx } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
 import { ConvexError } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  getOrgMember,
+  getWorkerByClerkId,
+  requireAuth,
+  requireOrgMember,
+  requireWorkerInOrg,
+} from "./lib/auth";
+import { distanceMeters, pointInZone } from "./lib/geo";
+import { planSizeMeters } from "./lib/geoTransform";
+import {
+  DEFAULT_TX_POWER,
+  MIN_USABLE_RSSI,
+  estimateIndoorPosition,
+  indoorPositionValidator,
+  normalizeBeaconId,
+  rssiToDistanceM,
+  type BeaconRange,
+  type IndoorPosition,
+} from "./lib/indoorPositioning";
+import { detectIntrusions } from "./intrusions";
 
-async function requireAuth(ctx: QueryCtx | MutationCtx) {
-  const identity = await ctx.auth.getUserIdentity();
-  if (!identity) {
-    throw new ConvexError("Authentication required");
+const MAX_TRAIL_POINTS = 5000;
+const DEFAULT_HISTORY_INTERVAL_MS = 10000;
+// A stationary worker still gets a point this often, so trails show stops.
+const HISTORY_HEARTBEAT_MS = 5 * 60 * 1000;
+// Only the strongest readings of one update are used for indoor positioning
+const MAX_BEACON_READINGS = 20;
+
+/**
+ * Appends a point to the worker's historical trail, sampled by the org's
+ * `historyIntervalMs` and, when set, `historyMinDistanceM`. Points closer in
+ * time than the interval are dropped; points within the minimum distance of
+ * the previous one are dropped until HISTORY_HEARTBEAT_MS has passed.
+ */
+async function appendHistoryPoint(
+  ctx: MutationCtx,
+  worker: Doc<"workers">,
+  point: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+    batteryLevel?: number;
+  },
+  now: number
+) {
+  const org = worker.organizationId
+    ? await ctx.db.get(worker.organizationId as Id<"organizations">)
+    : null;
+  const intervalMs = org?.historyIntervalMs ?? DEFAULT_HISTORY_INTERVAL_MS;
+  const minDistanceM = org?.historyMinDistanceM ?? 0;
+
+  const previous = await ctx.db
+    .query("historicalWorkerLocations")
+    .withIndex("by_workerId_timestamp", (q) => q.eq("workerId", worker._id))
+    .order("desc")
+    .first();
+
+  if (previous) {
+    const elapsed = now - previous.timestamp;
+    if (elapsed < intervalMs) return;
+    if (
+      minDistanceM > 0 &&
+      elapsed < HISTORY_HEARTBEAT_MS &&
+      distanceMeters(previous, point) < minDistanceM
+    ) {
+      return;
+    }
+  }
+
+  await ctx.db.insert("historicalWorkerLocations", {
+    workerId: worker._id,
+    latitude: point.latitude,
+    longitude: point.longitude,
+    accuracy: point.accuracy,
+    batteryLevel: point.batteryLevel,
+    timestamp: now,
+  });
+}
+
+/**
+ * Compares the worker's previous and new position against every map zone in
+ * their organization and logs an enter/exit event for each zone crossed.
+ * A worker with no previous position is treated as outside every zone.
+ */
+async function recordZoneTransitions(
+  ctx: MutationCtx,
+  worker: Doc<"workers">,
+  previous: { latitude: number; longitude: number } | null,
+  next: { latitude: number; longitude: number },
+  now: number
+) {
+  if (!worker.organizationId) return;
+  const organizationId = worker.organizationId as Id<"organizations">;
+
+  const zones = await ctx.db
+    .query("mapZones")
+    .withIndex("by_organizationId", (q) => q.eq("organizationId", organizationId))
+    .collect();
+
+  for (const zone of zones) {
+    const wasInside = previous
+      ? pointInZone(previous.latitude, previous.longitude, zone)
+      : false;
+    const isInside = pointInZone(next.latitude, next.longitude, zone);
+    if (wasInside === isInside) continue;
+
+    await ctx.db.insert("zoneEvents", {
+      organizationId,
+      workerId: worker._id,
+      zoneId: zone._id,
+      zoneName: zone.name,
+      direction: isInside ? "enter" : "exit",
+      latitude: next.latitude,
+      longitude: next.longitude,
+      timestamp: now,
+    });
+  }
+}
+
+/**
+ * Matches beacon readings to the organization's BLE and Wi-Fi markers and
+ * estimates an indoor position on the plan that hears the most of them
+ * (ties go to the plan with the loudest beacon).
+ */
+async function locateIndoors(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  readings: { id: string; rssi: number }[]
+): Promise<IndoorPosition | undefined> {
+  const strongest = new Map<string, number>();
+  for (const r of readings) {
+    if (r.rssi < MIN_USABLE_RSSI) continue;
+    const id = normalizeBeaconId(r.id);
+    strongest.set(id, Math.max(r.rssi, strongest.get(id) ?? -Infinity));
+  }
+  const usable = [...strongest]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_BEACON_READINGS);
+
+  const byPlan = new Map<Id<"floorPlans">, { ranges: BeaconRange[]; loudest: number }>();
+  for (const [beaconId, rssi] of usable) {
+    const markers = await ctx.db
+      .query("floorMarkers")
+      .withIndex("by_organizationId_beaconId", (q) =>
+        q.eq("organizationId", organizationId).eq("beaconId", beaconId)
+      )
+      .collect();
+    for (const marker of markers) {
+      if (marker.kind !== "ble_beacon" && marker.kind !== "wifi_ap") continue;
+      const entry = byPlan.get(marker.floorPlanId) ?? { ranges: [], loudest: -Infinity };
+      entry.ranges.push({
+        x: marker.x,
+        y: marker.y,
+        distanceM: rssiToDistanceM(rssi, marker.txPower ?? DEFAULT_TX_POWER[marker.kind]),
+      });
+      entry.loudest = Math.max(entry.loudest, rssi);
+      byPlan.set(marker.floorPlanId, entry);
+    }
+  }
+
+  let best: [Id<"floorPlans">, { ranges: BeaconRange[]; loudest: number }] | null = null;
+  for (const candidate of byPlan) {
+    if (
+      !best ||
+      candidate[1].ranges.length > best[1].ranges.length ||
+      (candidate[1].ranges.length === best[1].ranges.length && candidate[1].loudest > best[1].loudest)
+    ) {
+      best = candidate;
+    }
   }
-  return identity;
+  if (!best) return undefined;
+
+  const [floorPlanId, { ranges }] = best;
+  const plan = await ctx.db.get(floorPlanId);
+  if (!plan) return undefined;
+
+  // Trilateration needs the plan's size in metres, which only calibration provides
+  const planSizeM = planSizeMeters(
+    plan.calibrationPoints,
+    plan.imageWidth,
+    plan.imageHeight,
+    plan.calibrationMode
+  );
+
+  const estimate = estimateIndoorPosition(ranges, planSizeM);
+  return estimate ? { floorPlanId, ...estimate } : undefined;
 }
 
 export const updateLocation = mutation({
@@ -16,17 +197,16 @@ export const updateLocation = mutation({
     latitude: v.number(),
     longitude: v.number(),
     accuracy: v.optional(v.number()),
+    altitude: v.optional(v.number()),
     batteryLevel: v.optional(v.number()),
     isCharging: v.optional(v.boolean()),
+    // BLE beacons (uuid:major:minor) and Wi-Fi access points (BSSID) heard by the app
+    beacons: v.optional(v.array(v.object({ id: v.string(), rssi: v.number() }))),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
     const identity = await requireAuth(ctx);
-
-    const worker = await ctx.db
-      .query("workers")
-      .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-      .unique();
+    const worker = await getWorkerByClerkId(ctx, identity.subject);
 
     if (!worker) {
       throw new ConvexError("Worker not found");
@@ -34,6 +214,12 @@ export const updateLocation = mutation({
 
     const now = Date.now();
 
+    // An update without readings clears the previous fix, so it never goes stale
+    const indoor =
+      args.beacons && args.beacons.length > 0 && worker.organizationId
+        ? await locateIndoors(ctx, worker.organizationId as Id<"organizations">, args.beacons)
+        : undefined;
+
     // Update or insert current location
     const existing = await ctx.db
       .query("currentWorkerLocations")
@@ -45,8 +231,10 @@ export const updateLocation = mutation({
         latitude: args.latitude,
         longitude: args.longitude,
         accuracy: args.accuracy,
+        altitude: args.altitude,
         batteryLevel: args.batteryLevel,
         isCharging: args.isCharging,
+        indoor,
         timestamp: now,
         updatedAt: now,
       });
@@ -56,13 +244,19 @@ export const updateLocation = mutation({
         latitude: args.latitude,
         longitude: args.longitude,
         accuracy: args.accuracy,
+        altitude: args.altitude,
         batteryLevel: args.batteryLevel,
         isCharging: args.isCharging,
+        indoor,
         timestamp: now,
         updatedAt: now,
       });
     }
 
+    await recordZoneTransitions(ctx, worker, existing, args, now);
+    await detectIntrusions(ctx, worker, existing, { ...args, indoor }, now);
+    await appendHistoryPoint(ctx, worker, args, now);
+
     // Update worker lastSeen
     await ctx.db.patch(worker._id, { lastSeen: now });
 
@@ -80,8 +274,10 @@ export const getCurrentLocations = query({
       latitude: v.number(),
       longitude: v.number(),
       accuracy: v.optional(v.number()),
+      altitude: v.optional(v.number()),
       batteryLevel: v.optional(v.number()),
       isCharging: v.optional(v.boolean()),
+      indoor: v.optional(indoorPositionValidator),
       timestamp: v.number(),
       updatedAt: v.number(),
       workerName: v.string(),
@@ -91,21 +287,34 @@ export const getCurrentLocations = query({
   ),
   handler: async (ctx) => {
     await requireAuth(ctx);
-    const locations = await ctx.db.query("currentWorkerLocations").collect();
+    const member = await getOrgMember(ctx);
+    if (!member) return [];
+
+    // Only locations of workers in the caller's organization
+    const workers = await ctx.db
+      .query("workers")
+      .withIndex("by_organizationId", (q) =>
+        q.eq("organizationId", member.organizationId)
+      )
+      .collect();
 
     const locationsWithWorkers = await Promise.all(
-      locations.map(async (loc) => {
-        const worker = await ctx.db.get(loc.workerId);
+      workers.map(async (worker) => {
+        const loc = await ctx.db
+          .query("currentWorkerLocations")
+          .withIndex("by_workerId", (q) => q.eq("workerId", worker._id))
+          .unique();
+        if (!loc) return null;
         return {
           ...loc,
-          workerName: worker?.name ?? "Unknown",
-          workerRole: worker?.role ?? ("worker" as const),
-          isOnDuty: worker?.isOnDuty ?? false,
+          workerName: worker.name,
+          workerRole: worker.role,
+          isOnDuty: worker.isOnDuty,
         };
       })
     );
 
-    return locationsWithWorkers;
+    return locationsWithWorkers.filter((loc) => loc !== null);
   },
 });
 
@@ -127,7 +336,9 @@ export const getWorkerHistory = query({
     })
   ),
   handler: async (ctx, args) => {
-    await requireAuth(ctx);
+    const { organizationId } = await requireOrgMember(ctx);
+    await requireWorkerInOrg(ctx, args.workerId, organizationId);
+
     const q = ctx.db
       .query("historicalWorkerLocations")
       .withIndex("by_workerId_timestamp", (q) =>
@@ -142,6 +353,78 @@ export const getWorkerHistory = query({
   },
 });
 
+/**
+ * Returns a worker's trail between two timestamps, oldest first, for route
+ * playback. Capped at MAX_TRAIL_POINTS; longer windows are truncated at the end.
+ */
+export const getWorkerTrail = query({
+  args: {
+    workerId: v.id("workers"),
+    startTime: v.number(),
+    endTime: v.number(),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("historicalWorkerLocations"),
+      _creationTime: v.number(),
+      workerId: v.id("workers"),
+      latitude: v.number(),
+      longitude: v.number(),
+      accuracy: v.optional(v.number()),
+      batteryLevel: v.optional(v.number()),
+      timestamp: v.number(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgMember(ctx);
+    await requireWorkerInOrg(ctx, args.workerId, organizationId);
+
+    return await ctx.db
+      .query("historicalWorkerLocations")
+      .withIndex("by_workerId_timestamp", (q) =>
+        q
+          .eq("workerId", args.workerId)
+          .gte("timestamp", args.startTime)
+          .lte("timestamp", args.endTime)
+      )
+      .order("asc")
+      .take(MAX_TRAIL_POINTS);
+  },
+});
+
+/**
+ * Pages through a worker's trail between two timestamps, oldest first.
+ * Used for file exports, which need the whole range rather than a capped slice.
+ */
+export const getWorkerTrailPage = query({
+  args: {
+    workerId: v.id("workers"),
+    startTime: v.number(),
+    endTime: v.number(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgMember(ctx);
+    await requireWorkerInOrg(ctx, args.workerId, organizationId);
+
+    return await ctx.db
+      .query("historicalWorkerLocations")
+      .withIndex("by_workerId_timestamp", (q) =>
+        q
+          .eq("workerId", args.workerId)
+          .gte("timestamp", args.startTime)
+          .lte("timestamp", args.endTime)
+      )
+      .order("asc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Legacy client-driven history logging. `updateLocation` now records history
+ * on the server, so this only accepts the caller's own id and goes through the
+ * same sampling; older app builds that still call it cannot double-log.
+ */
 export const logHistoricalLocation = mutation({
   args: {
     workerId: v.id("workers"),
@@ -152,15 +435,12 @@ export const logHistoricalLocation = mutation({
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAuth(ctx);
-    await ctx.db.insert("historicalWorkerLocations", {
-      workerId: args.workerId,
-      latitude: args.latitude,
-      longitude: args.longitude,
-      accuracy: args.accuracy,
-      batteryLevel: args.batteryLevel,
-      timestamp: Date.now(),
-    });
+    const { worker: caller } = await requireOrgMember(ctx);
+    if (caller._id !== args.workerId) {
+      throw new ConvexError("Not authorized to log this worker's location");
+    }
+
+    await appendHistoryPoint(ctx, caller, args, Date.now());
     return null;
   },
 });
@@ -1,24 +1,14 @@
-import { v } from "convex/values";
+import { ConvexError, v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { QueryCtx, MutationCtx } from "./_generated/server";
-import { ConvexError } from "convex/values";
 import type { Id } from "./_generated/dataModel";
-
-async function requireAuth(ctx: QueryCtx | MutationCtx) {
-  const identity = await ctx.auth.getUserIdentity();
-  if (!identity) throw new ConvexError("Authentication required");
-  return identity;
-}
-
-async function requireAdmin(ctx: QueryCtx | MutationCtx) {
-  const identity = await requireAuth(ctx);
-  const worker = await ctx.db
-    .query("workers")
-    .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-    .unique();
-  if (!worker || worker.role !== "admin") throw new ConvexError("Admin access required");
-  return { identity, worker };
-}
+import {
+  requireOrgAdmin,
+  requireOrgDoc,
+  requireOrgMember,
+  requireWorkerInOrg,
+} from "./lib/auth";
+import { pointInZone, type ZoneGeometry } from "./lib/geo";
+import { addRestrictionPatch, zoneRestrictionArgs } from "./intrusions";
 
 // ─── Queries ─────────────────────────────────────────────────────────────────
 
@@ -45,7 +35,7 @@ export const getMapZones = query({
 
 /**
  * Returns each zone with the list of workers currently inside it.
- * Uses ray-casting point-in-polygon on live GPS locations.
+ * Membership is checked against live GPS locations for every zone shape.
  */
 export const getWorkerZoneStatus = query({
   args: {},
@@ -85,7 +75,7 @@ export const getWorkerZoneStatus = query({
 
     return zones.map((zone) => {
       const inside = workerLocations
-        .filter(({ loc }) => loc && pointInPolygon(loc.latitude, loc.longitude, zone.points))
+        .filter(({ loc }) => loc && pointInZone(loc.latitude, loc.longitude, zone))
         .map(({ worker }) => ({ _id: worker._id, name: worker.name, isOnDuty: worker.isOnDuty }));
 
       return {
@@ -99,44 +89,180 @@ export const getWorkerZoneStatus = query({
   },
 });
 
+/**
+ * Returns a worker's zone entry/exit log, newest first.
+ * Events are written by `locations.updateLocation` when a position update
+ * crosses a zone boundary.
+ */
+export const getWorkerZoneEvents = query({
+  args: {
+    workerId: v.id("workers"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgMember(ctx);
+    await requireWorkerInOrg(ctx, args.workerId, organizationId);
+
+    return await ctx.db
+      .query("zoneEvents")
+      .withIndex("by_workerId_timestamp", (q) =>
+        q.eq("workerId", args.workerId)
+      )
+      .order("desc")
+      .take(args.limit ?? 100);
+  },
+});
+
 // ─── Mutations ────────────────────────────────────────────────────────────────
 
+const latLng = v.object({ lat: v.number(), lng: v.number() });
+
+const zoneShapeArgs = {
+  shape: v.optional(
+    v.union(v.literal("polygon"), v.literal("circle"), v.literal("corridor"))
+  ),
+  points: v.array(latLng),
+  center: v.optional(latLng),
+  radiusM: v.optional(v.number()),
+  widthM: v.optional(v.number()),
+};
+
+const MAX_ZONE_SIZE_M = 50_000;
+
+/** Checks that the fields required by the zone's shape are present and sane. */
+function assertValidGeometry(name: string, zone: ZoneGeometry) {
+  switch (zone.shape ?? "polygon") {
+    case "polygon":
+      if (zone.points.length < 3) {
+        throw new ConvexError(`Zone "${name}" needs at least 3 points`);
+      }
+      break;
+    case "circle":
+      if (!zone.center) throw new ConvexError(`Circle zone "${name}" needs a centre`);
+      if (zone.radiusM === undefined) throw new ConvexError(`Circle zone "${name}" needs a radius`);
+      if (!(zone.radiusM > 0 && zone.radiusM <= MAX_ZONE_SIZE_M)) {
+        throw new ConvexError(`Circle zone "${name}" needs a radius between 0 and ${MAX_ZONE_SIZE_M} m`);
+      }
+      break;
+    case "corridor":
+      if (zone.points.length < 2) {
+        throw new ConvexError(`Corridor zone "${name}" needs at least 2 points`);
+      }
+      if (zone.widthM === undefined) throw new ConvexError(`Corridor zone "${name}" needs a width`);
+      if (!(zone.widthM > 0 && zone.widthM <= MAX_ZONE_SIZE_M)) {
+        throw new ConvexError(`Corridor zone "${name}" needs a width between 0 and ${MAX_ZONE_SIZE_M} m`);
+      }
+      break;
+  }
+}
+
+/** Keeps only the fields that belong to the zone's shape. */
+function geometryFields(zone: ZoneGeometry) {
+  const shape = zone.shape ?? "polygon";
+  return {
+    shape,
+    points: shape === "circle" ? [] : zone.points,
+    center: shape === "circle" ? zone.center : undefined,
+    radiusM: shape === "circle" ? zone.radiusM : undefined,
+    widthM: shape === "corridor" ? zone.widthM : undefined,
+  };
+}
+
 export const createMapZone = mutation({
   args: {
     name: v.string(),
     color: v.string(),
-    points: v.array(v.object({ lat: v.number(), lng: v.number() })),
+    ...zoneShapeArgs,
   },
   returns: v.id("mapZones"),
   handler: async (ctx, args) => {
-    const { worker } = await requireAdmin(ctx);
-    if (!worker.organizationId) throw new ConvexError("No organization found");
+    const { organizationId } = await requireOrgAdmin(ctx);
+    assertValidGeometry(args.name, args);
 
     return await ctx.db.insert("mapZones", {
-      organizationId: worker.organizationId as Id<"organizations">,
+      organizationId,
       name: args.name,
       color: args.color,
-      points: args.points,
+      ...geometryFields(args),
       createdAt: Date.now(),
     });
   },
 });
 
+const MAX_IMPORT_ZONES = 500;
+
+/** Bulk-creates zones parsed from a GeoJSON or KML file on the client. */
+export const importMapZones = mutation({
+  args: {
+    zones: v.array(
+      v.object({
+        name: v.string(),
+        color: v.string(),
+        ...zoneShapeArgs,
+      })
+    ),
+  },
+  returns: v.array(v.id("mapZones")),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    if (args.zones.length > MAX_IMPORT_ZONES) {
+      throw new ConvexError(`Import is limited to ${MAX_IMPORT_ZONES} zones at a time`);
+    }
+    for (const zone of args.zones) assertValidGeometry(zone.name, zone);
+
+    const now = Date.now();
+    return await Promise.all(
+      args.zones.map((zone) =>
+        ctx.db.insert("mapZones", {
+          organizationId,
+          name: zone.name.trim() || "Imported zone",
+          color: zone.color,
+          ...geometryFields(zone),
+          createdAt: now,
+        })
+      )
+    );
+  },
+});
+
 export const updateMapZone = mutation({
   args: {
     zoneId: v.id("mapZones"),
     name: v.optional(v.string()),
     color: v.optional(v.string()),
-    points: v.optional(v.array(v.object({ lat: v.number(), lng: v.number() }))),
+    points: v.optional(v.array(latLng)),
+    center: v.optional(latLng),
+    radiusM: v.optional(v.number()),
+    widthM: v.optional(v.number()),
+    ...zoneRestrictionArgs,
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const zone = await requireOrgDoc(ctx, args.zoneId, organizationId, "Zone not found");
     const { zoneId, ...rest } = args;
     const patch: Record<string, unknown> = {};
     if (rest.name !== undefined) patch.name = rest.name;
     if (rest.color !== undefined) patch.color = rest.color;
-    if (rest.points !== undefined) patch.points = rest.points;
+    await addRestrictionPatch(ctx, organizationId, rest, patch);
+
+    // Geometry edits keep the zone's shape; re-validate the merged result
+    if (
+      rest.points !== undefined ||
+      rest.center !== undefined ||
+      rest.radiusM !== undefined ||
+      rest.widthM !== undefined
+    ) {
+      const merged: ZoneGeometry = {
+        shape: zone.shape,
+        points: rest.points ?? zone.points,
+        center: rest.center ?? zone.center,
+        radiusM: rest.radiusM ?? zone.radiusM,
+        widthM: rest.widthM ?? zone.widthM,
+      };
+      assertValidGeometry(rest.name ?? zone.name, merged);
+      Object.assign(patch, geometryFields(merged));
+    }
     await ctx.db.patch(zoneId, patch);
     return null;
   },
@@ -146,31 +272,9 @@ export const deleteMapZone = mutation({
   args: { zoneId: v.id("mapZones") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.zoneId, organizationId, "Zone not found");
     await ctx.db.delete(args.zoneId);
     return null;
   },
 });
-
-// ─── Helpers ─────────────────────────────────────────────────────────────────
-
-/** Ray-casting point-in-polygon. Works for small GPS areas. */
-function pointInPolygon(
-  lat: number,
-  lng: number,
-  polygon: { lat: number; lng: number }[]
-): boolean {
-  let inside = false;
-  const n = polygon.length;
-  let j = n - 1;
-  for (let i = 0; i < n; j = i++) {
-    const xi = polygon[i].lng,
-      yi = polygon[i].lat;
-    const xj = polygon[j].lng,
-      yj = polygon[j].lat;
-    const intersect =
-      yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
-    if (intersect) inside = !inside;
-  }
-  return inside;
-}
@@ -1,8 +1,18 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { QueryCtx, MutationCtx } from "./_generated/server";
 import { ConvexError } from "convex/values";
 import type { Id } from "./_generated/dataModel";
+import {
+  getWorkerByClerkId,
+  requireAdmin,
+  requireAuth,
+  requireOrgAdmin,
+  requireWorkerInOrg,
+} from "./lib/auth";
+import {
+  DEFAULT_RAW_RETENTION_DAYS,
+  DEFAULT_RETENTION_DAYS,
+} from "./locationRetention";
 
 const JOIN_CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
 
@@ -14,24 +24,14 @@ function generateJoinCode(): string {
   return code;
 }
 
-async function requireAuth(ctx: QueryCtx | MutationCtx) {
-  const identity = await ctx.auth.getUserIdentity();
-  if (!identity) {
-    throw new ConvexError("Authentication required");
+/** Rejects admins acting on an organization other than their own. */
+function assertOwnOrganization(
+  organizationId: string,
+  callerOrganizationId: Id<"organizations">
+) {
+  if (organizationId !== callerOrganizationId) {
+    throw new ConvexError("Organization not found");
   }
-  return identity;
-}
-
-async function requireAdmin(ctx: QueryCtx | MutationCtx) {
-  const identity = await requireAuth(ctx);
-  const worker = await ctx.db
-    .query("workers")
-    .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-    .unique();
-  if (!worker || worker.role !== "admin") {
-    throw new ConvexError("Admin access required");
-  }
-  return { identity, worker };
 }
 
 export const createOrganization = mutation({
@@ -90,7 +90,8 @@ export const getMyOrganization = query({
 export const getOrganizationMembers = query({
   args: { organizationId: v.string() },
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    assertOwnOrganization(args.organizationId, organizationId);
 
     const workers = await ctx.db
       .query("workers")
@@ -128,10 +129,7 @@ export const joinOrganization = mutation({
   returns: v.null(),
   handler: async (ctx, args) => {
     const identity = await requireAuth(ctx);
-    const worker = await ctx.db
-      .query("workers")
-      .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-      .unique();
+    const worker = await getWorkerByClerkId(ctx, identity.subject);
 
     if (!worker) {
       throw new ConvexError("Worker not found");
@@ -155,12 +153,8 @@ export const removeWorkerFromOrganization = mutation({
   args: { workerId: v.id("workers") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
-
-    const worker = await ctx.db.get(args.workerId);
-    if (!worker) {
-      throw new ConvexError("Worker not found");
-    }
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireWorkerInOrg(ctx, args.workerId, organizationId);
 
     await ctx.db.patch(args.workerId, { organizationId: undefined });
     return null;
@@ -171,7 +165,8 @@ export const regenerateJoinCode = mutation({
   args: { organizationId: v.id("organizations") },
   returns: v.string(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    assertOwnOrganization(args.organizationId, organizationId);
 
     let joinCode = generateJoinCode();
     while (
@@ -193,14 +188,44 @@ export const updateOrgSettings = mutation({
     organizationId: v.id("organizations"),
     locationIntervalMs: v.number(),
     historyIntervalMs: v.number(),
+    historyMinDistanceM: v.optional(v.number()),
+    historyRawRetentionDays: v.optional(v.number()),
+    historyRetentionDays: v.optional(v.number()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
-    await ctx.db.patch(args.organizationId, {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    assertOwnOrganization(args.organizationId, organizationId);
+    const org = await ctx.db.get(args.organizationId);
+    if (!org) throw new ConvexError("Organization not found");
+
+    const rawDays =
+      args.historyRawRetentionDays ??
+      org.historyRawRetentionDays ??
+      DEFAULT_RAW_RETENTION_DAYS;
+    const totalDays =
+      args.historyRetentionDays ?? org.historyRetentionDays ?? DEFAULT_RETENTION_DAYS;
+    if (rawDays < 1 || totalDays < 1) {
+      throw new ConvexError("Retention must be at least 1 day");
+    }
+    if (rawDays > totalDays) {
+      throw new ConvexError("Raw retention cannot exceed total retention");
+    }
+
+    const patch: Record<string, unknown> = {
       locationIntervalMs: args.locationIntervalMs,
       historyIntervalMs: args.historyIntervalMs,
-    });
+    };
+    if (args.historyMinDistanceM !== undefined) {
+      patch.historyMinDistanceM = args.historyMinDistanceM;
+    }
+    if (args.historyRawRetentionDays !== undefined) {
+      patch.historyRawRetentionDays = args.historyRawRetentionDays;
+    }
+    if (args.historyRetentionDays !== undefined) {
+      patch.historyRetentionDays = args.historyRetentionDays;
+    }
+    await ctx.db.patch(args.organizationId, patch);
     return null;
   },
 });
@@ -225,6 +250,10 @@ export const getMyOrgSettings = query({
     return {
       locationIntervalMs: org.locationIntervalMs ?? 10000,
       historyIntervalMs: org.historyIntervalMs ?? 10000,
+      historyMinDistanceM: org.historyMinDistanceM ?? 0,
+      historyRawRetentionDays:
+        org.historyRawRetentionDays ?? DEFAULT_RAW_RETENTION_DAYS,
+      historyRetentionDays: org.historyRetentionDays ?? DEFAULT_RETENTION_DAYS,
     };
   },
 });
@@ -233,7 +262,8 @@ export const updateOrganizationName = mutation({
   args: { organizationId: v.id("organizations"), name: v.string() },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    assertOwnOrganization(args.organizationId, organizationId);
     await ctx.db.patch(args.organizationId, { name: args.name });
     return null;
   },
@@ -0,0 +1,169 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { ConvexError } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireOrgAdmin } from "./lib/auth";
+
+const HOUR_MS = 60 * 60 * 1000;
+// 31 calendar days, plus an hour for a daylight-saving change in the range
+const MAX_RANGE_MS = 31 * 24 * HOUR_MS + HOUR_MS;
+
+// ─── Queries ─────────────────────────────────────────────────────────────────
+
+/**
+ * Time spent per worker per map zone over a time range, computed from the
+ * zone entry/exit log rather than the raw trail so the read cost follows the
+ * number of transitions, not the sampling rate. A visit still open at the end
+ * of the range runs until the worker was last seen. Hourly occupancy counts
+ * distinct workers seen in a zone during each clock hour (UTC-aligned).
+ */
+export const getZoneDwellReport = query({
+  args: {
+    startTime: v.number(),
+    endTime: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    if (args.endTime <= args.startTime) {
+      throw new ConvexError("End time must be after start time");
+    }
+    if (args.endTime - args.startTime > MAX_RANGE_MS) {
+      throw new ConvexError("Reports are limited to 31 days");
+    }
+
+    const zones = await ctx.db
+      .query("mapZones")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", organizationId))
+      .collect();
+
+    const workers = await ctx.db
+      .query("workers")
+      .withIndex("by_organizationId", (q) =>
+        q.eq("organizationId", organizationId as string)
+      )
+      .collect();
+
+    // zoneId -> hour start -> workers present during that hour
+    const hourly = new Map<Id<"mapZones">, Map<number, Set<Id<"workers">>>>(
+      zones.map((z) => [z._id, new Map()])
+    );
+
+    const rows: {
+      workerId: Id<"workers">;
+      workerName: string;
+      zoneId: Id<"mapZones">;
+      zoneName: string;
+      totalMs: number;
+      visits: number;
+      averageVisitMs: number;
+    }[] = [];
+
+    for (const zone of zones) {
+      const events = await ctx.db
+        .query("zoneEvents")
+        .withIndex("by_zoneId_timestamp", (q) =>
+          q
+            .eq("zoneId", zone._id)
+            .gte("timestamp", args.startTime)
+            .lte("timestamp", args.endTime)
+        )
+        .collect();
+      const eventsByWorker = new Map<Id<"workers">, Doc<"zoneEvents">[]>();
+      for (const e of events) {
+        const list = eventsByWorker.get(e.workerId) ?? [];
+        list.push(e);
+        eventsByWorker.set(e.workerId, list);
+      }
+      const buckets = hourly.get(zone._id)!;
+
+      for (const worker of workers) {
+        const workerEvents = eventsByWorker.get(worker._id) ?? [];
+
+        // Inside at the start if the first transition in range is an exit,
+        // or, with none in range, if the last one before it was an entry
+        let enteredAt: number | null = null;
+        if (workerEvents.length > 0) {
+          if (workerEvents[0].direction === "exit") enteredAt = args.startTime;
+        } else {
+          const before = await ctx.db
+            .query("zoneEvents")
+            .withIndex("by_workerId_zoneId_timestamp", (q) =>
+              q.eq("workerId", worker._id).eq("zoneId", zone._id).lt("timestamp", args.startTime)
+            )
+            .order("desc")
+            .first();
+          if (before?.direction === "enter") enteredAt = args.startTime;
+        }
+
+        let totalMs = 0;
+        let visits = 0;
+        const addVisit = (from: number, to: number) => {
+          if (to <= from) return;
+          totalMs += to - from;
+          visits++;
+          for (let hour = Math.floor(from / HOUR_MS) * HOUR_MS; hour < to; hour += HOUR_MS) {
+            let present = buckets.get(hour);
+            if (!present) {
+              present = new Set();
+              buckets.set(hour, present);
+            }
+            present.add(worker._id);
+          }
+        };
+
+        for (const e of workerEvents) {
+          if (e.direction === "enter") {
+            enteredAt ??= e.timestamp;
+          } else if (enteredAt !== null) {
+            addVisit(enteredAt, e.timestamp);
+            enteredAt = null;
+          }
+        }
+        if (enteredAt !== null) {
+          addVisit(enteredAt, Math.min(args.endTime, worker.lastSeen ?? args.endTime));
+        }
+
+        if (totalMs === 0) continue;
+        rows.push({
+          workerId: worker._id,
+          workerName: worker.name,
+          zoneId: zone._id,
+          zoneName: zone.name,
+          totalMs,
+          visits,
+          averageVisitMs: Math.round(totalMs / visits),
+        });
+      }
+    }
+
+    const zoneSummaries = zones.map((zone) => {
+      const zoneRows = rows.filter((r) => r.zoneId === zone._id);
+      const totalMs = zoneRows.reduce((sum, r) => sum + r.totalMs, 0);
+      const visits = zoneRows.reduce((sum, r) => sum + r.visits, 0);
+      const occupancy = [...hourly.get(zone._id)!.entries()]
+        .map(([hour, present]) => ({ hour, workers: present.size }))
+        .sort((a, b) => a.hour - b.hour);
+      const peak = occupancy.reduce<{ hour: number; workers: number } | null>(
+        (best, h) => (!best || h.workers > best.workers ? h : best),
+        null
+      );
+
+      return {
+        zoneId: zone._id,
+        zoneName: zone.name,
+        color: zone.color,
+        totalMs,
+        visits,
+        averageVisitMs: visits > 0 ? Math.round(totalMs / visits) : 0,
+        peakOccupancy: peak?.workers ?? 0,
+        peakHour: peak?.hour,
+        hourlyOccupancy: occupancy,
+      };
+    });
+
+    return {
+      rows: rows.sort((a, b) => b.totalMs - a.totalMs),
+      zones: zoneSummaries,
+    };
+  },
+});
@@ -0,0 +1,327 @@
+import { ConvexError, v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getOrgMember, requireOrgAdmin, requireOrgDoc, requireWorkerInOrg } from "./lib/auth";
+import { commandTargetValidator, type CommandTarget } from "./lib/broadcastTarget";
+import { findUnknownPlaceholder } from "./lib/placeholders";
+import {
+  commandRecurrenceValidator,
+  isValidTimeZone,
+  nextOccurrence,
+  type CommandRecurrence,
+} from "./lib/recurrence";
+import { insertCommand } from "./commands";
+import { createBroadcast } from "./broadcasts";
+
+const scheduleArgs = {
+  target: commandTargetValidator,
+  type: v.union(
+    v.literal("sound_alert"),
+    v.literal("message"),
+    v.literal("sound_and_message")
+  ),
+  soundType: v.union(
+    v.literal("alarm"),
+    v.literal("notification"),
+    v.literal("urgent")
+  ),
+  message: v.optional(v.string()),
+  runAt: v.optional(v.number()),
+  recurrence: v.optional(commandRecurrenceValidator),
+};
+
+type ScheduleFields = Pick<
+  Doc<"scheduledCommands">,
+  "target" | "type" | "soundType" | "message" | "runAt" | "recurrence"
+>;
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateRecurrence(recurrence: CommandRecurrence): CommandRecurrence {
+  if (!TIME_OF_DAY.test(recurrence.timeOfDay)) throw new ConvexError("Time must be HH:MM");
+  if (!isValidTimeZone(recurrence.timeZone)) throw new ConvexError("Unknown time zone");
+  if (!DATE.test(recurrence.startDate)) throw new ConvexError("Start date must be YYYY-MM-DD");
+  if (recurrence.endDate !== undefined) {
+    if (!DATE.test(recurrence.endDate)) throw new ConvexError("End date must be YYYY-MM-DD");
+    if (recurrence.endDate < recurrence.startDate) {
+      throw new ConvexError("End date must not be before the start date");
+    }
+  }
+
+  const weekdays = [...new Set(recurrence.weekdays ?? [])].sort((a, b) => a - b);
+  if (weekdays.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    throw new ConvexError("Weekdays must be 0 (Sunday) to 6 (Saturday)");
+  }
+  if (recurrence.recurrenceType === "weekly" && weekdays.length !== 1) {
+    throw new ConvexError("Choose the day of the week");
+  }
+  if (recurrence.recurrenceType === "custom" && weekdays.length === 0) {
+    throw new ConvexError("Choose at least one day of the week");
+  }
+
+  const usesWeekdays =
+    recurrence.recurrenceType === "weekly" || recurrence.recurrenceType === "custom";
+  return { ...recurrence, weekdays: usesWeekdays ? weekdays : undefined };
+}
+
+/**
+ * Checks the target belongs to the organization and the message only uses
+ * known placeholders, and works out when the schedule first fires. Exactly
+ * one of a one-off `runAt` or a `recurrence` is required.
+ */
+async function validateSchedule(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  schedule: ScheduleFields
+): Promise<ScheduleFields & { nextRunAt: number }> {
+  await requireTarget(ctx, organizationId, schedule.target);
+
+  let message: string | undefined;
+  if (schedule.type !== "sound_alert") {
+    message = schedule.message?.trim();
+    if (!message) throw new ConvexError("Message is required");
+    const unknown = findUnknownPlaceholder(message);
+    if (unknown) throw new ConvexError(`Unknown placeholder {${unknown}}`);
+  }
+  const fields = {
+    target: schedule.target,
+    type: schedule.type,
+    soundType: schedule.soundType,
+    message,
+  };
+
+  const now = Date.now();
+  if ((schedule.runAt === undefined) === (schedule.recurrence === undefined)) {
+    throw new ConvexError("Choose either a time or a recurrence");
+  }
+  if (schedule.runAt !== undefined) {
+    if (schedule.runAt <= now) throw new ConvexError("Scheduled time must be in the future");
+    return { ...fields, runAt: schedule.runAt, recurrence: undefined, nextRunAt: schedule.runAt };
+  }
+
+  const recurrence = validateRecurrence(schedule.recurrence!);
+  const nextRunAt = nextOccurrence(recurrence, recurrence.timeOfDay, recurrence.timeZone, now);
+  if (nextRunAt === null) throw new ConvexError("This schedule never runs");
+  return { ...fields, runAt: undefined, recurrence, nextRunAt };
+}
+
+/** Rejects targets outside the organization. */
+async function requireTarget(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  target: CommandTarget
+) {
+  switch (target.kind) {
+    case "worker":
+      await requireWorkerInOrg(ctx, target.workerId, organizationId);
+      return;
+    case "zone":
+      await requireOrgDoc(ctx, target.zoneId, organizationId, "Zone not found");
+      return;
+    case "group":
+      await requireOrgDoc(ctx, target.groupId, organizationId, "Group not found");
+      return;
+  }
+}
+
+/** A label for the target, or null once its worker, zone or group is gone. */
+async function describeTarget(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  target: CommandTarget
+): Promise<string | null> {
+  switch (target.kind) {
+    case "worker": {
+      const worker = await ctx.db.get(target.workerId);
+      return worker?.organizationId === organizationId ? worker.name : null;
+    }
+    case "all":
+      return "Everyone";
+    case "on_duty":
+      return "On duty";
+    case "zone": {
+      const zone = await ctx.db.get(target.zoneId);
+      return zone?.organizationId === organizationId ? `Zone: ${zone.name}` : null;
+    }
+    case "group": {
+      const group = await ctx.db.get(target.groupId);
+      return group?.organizationId === organizationId ? `Group: ${group.name}` : null;
+    }
+  }
+}
+
+async function scheduleRun(
+  ctx: MutationCtx,
+  scheduledCommandId: Id<"scheduledCommands">,
+  runAt: number
+) {
+  return await ctx.scheduler.runAt(runAt, internal.scheduledCommands.runScheduledCommand, {
+    scheduledCommandId,
+  });
+}
+
+async function cancelRun(ctx: MutationCtx, schedule: Doc<"scheduledCommands">) {
+  if (schedule.scheduledFunctionId) await ctx.scheduler.cancel(schedule.scheduledFunctionId);
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────────────
+
+/** Upcoming scheduled commands, soonest first. */
+export const getScheduledCommands = query({
+  args: {},
+  handler: async (ctx) => {
+    const member = await getOrgMember(ctx);
+    if (!member || member.worker.role !== "admin") return [];
+
+    const schedules = await ctx.db
+      .query("scheduledCommands")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", member.organizationId))
+      .collect();
+
+    const withLabels = await Promise.all(
+      schedules.map(async (s) => {
+        const createdBy = await ctx.db.get(s.createdBy);
+        return {
+          ...s,
+          targetLabel:
+            (await describeTarget(ctx, member.organizationId, s.target)) ?? "Removed target",
+          createdByName: createdBy?.name ?? "Unknown Admin",
+        };
+      })
+    );
+    return withLabels.sort((a, b) => a.nextRunAt - b.nextRunAt);
+  },
+});
+
+// ─── Mutations (Admin only) ──────────────────────────────────────────────────
+
+export const createScheduledCommand = mutation({
+  args: scheduleArgs,
+  returns: v.id("scheduledCommands"),
+  handler: async (ctx, args) => {
+    const { worker: admin, organizationId } = await requireOrgAdmin(ctx);
+    const fields = await validateSchedule(ctx, organizationId, args);
+
+    const now = Date.now();
+    const scheduledCommandId = await ctx.db.insert("scheduledCommands", {
+      organizationId,
+      createdBy: admin._id,
+      ...fields,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.patch(scheduledCommandId, {
+      scheduledFunctionId: await scheduleRun(ctx, scheduledCommandId, fields.nextRunAt),
+    });
+    return scheduledCommandId;
+  },
+});
+
+/** Replaces the command and its timing; it is then sent as the admin who saved it. */
+export const updateScheduledCommand = mutation({
+  args: { scheduledCommandId: v.id("scheduledCommands"), ...scheduleArgs },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { worker: admin, organizationId } = await requireOrgAdmin(ctx);
+    const { scheduledCommandId, ...schedule } = args;
+    const existing = await requireOrgDoc(
+      ctx,
+      scheduledCommandId,
+      organizationId,
+      "Scheduled command not found"
+    );
+    const fields = await validateSchedule(ctx, organizationId, schedule);
+
+    await cancelRun(ctx, existing);
+    await ctx.db.patch(scheduledCommandId, {
+      createdBy: admin._id,
+      ...fields,
+      scheduledFunctionId: await scheduleRun(ctx, scheduledCommandId, fields.nextRunAt),
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+export const cancelScheduledCommand = mutation({
+  args: { scheduledCommandId: v.id("scheduledCommands") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const schedule = await requireOrgDoc(
+      ctx,
+      args.scheduledCommandId,
+      organizationId,
+      "Scheduled command not found"
+    );
+    await cancelRun(ctx, schedule);
+    await ctx.db.delete(schedule._id);
+    return null;
+  },
+});
+
+// ─── Scheduled runs ──────────────────────────────────────────────────────────
+
+/**
+ * Sends a scheduled command, then queues the next occurrence of a recurring
+ * one. One-offs and finished recurrences are removed. A schedule whose admin
+ * has left or lost admin rights, or whose target is gone, is dropped without
+ * sending; a target that covers nobody right now is skipped quietly.
+ */
+export const runScheduledCommand = internalMutation({
+  args: { scheduledCommandId: v.id("scheduledCommands") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const schedule = await ctx.db.get(args.scheduledCommandId);
+    if (!schedule) return null;
+
+    const admin = await ctx.db.get(schedule.createdBy);
+    const targetLabel = await describeTarget(ctx, schedule.organizationId, schedule.target);
+    if (
+      !admin ||
+      admin.role !== "admin" ||
+      admin.organizationId !== schedule.organizationId ||
+      targetLabel === null
+    ) {
+      await ctx.db.delete(schedule._id);
+      return null;
+    }
+
+    const command = {
+      type: schedule.type,
+      message: schedule.message,
+      soundType: schedule.soundType,
+    };
+    if (schedule.target.kind === "worker") {
+      await insertCommand(ctx, {
+        workerId: schedule.target.workerId,
+        fromAdminId: admin._id,
+        ...command,
+      });
+    } else {
+      await createBroadcast(ctx, admin, schedule.organizationId, schedule.target, command);
+    }
+
+    const { recurrence } = schedule;
+    const nextRunAt =
+      recurrence &&
+      nextOccurrence(
+        recurrence,
+        recurrence.timeOfDay,
+        recurrence.timeZone,
+        Math.max(Date.now(), schedule.nextRunAt)
+      );
+    if (!nextRunAt) {
+      await ctx.db.delete(schedule._id);
+      return null;
+    }
+    await ctx.db.patch(schedule._id, {
+      nextRunAt,
+      scheduledFunctionId: await scheduleRun(ctx, schedule._id, nextRunAt),
+    });
+    return null;
+  },
+});
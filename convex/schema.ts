@@ -1,5 +1,12 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { indoorPositionValidator } from "./lib/indoorPositioning";
+import { routeValidator } from "./lib/wayfinding";
+import { markerCategoryValidator } from "./lib/markerCategories";
+import { broadcastTargetValidator, commandTargetValidator } from "./lib/broadcastTarget";
+import { escalationActionValidator, escalationStepValidator } from "./lib/escalation";
+import { quickResponseValidator } from "./lib/quickResponses";
+import { commandRecurrenceValidator, recurrenceTypeValidator } from "./lib/recurrence";
 
 export default defineSchema({
   organizations: defineTable({
@@ -9,6 +16,9 @@ export default defineSchema({
     createdAt: v.number(),
     locationIntervalMs: v.optional(v.number()),
     historyIntervalMs: v.optional(v.number()),
+    historyMinDistanceM: v.optional(v.number()),  // 0 or unset = time-based sampling only
+    historyRawRetentionDays: v.optional(v.number()),  // full-resolution trail kept this long
+    historyRetentionDays: v.optional(v.number()),     // simplified trail deleted after this
   })
     .index("by_joinCode", ["joinCode"])
     .index("by_createdBy", ["createdBy"]),
@@ -23,6 +33,7 @@ export default defineSchema({
     avatarStorageId: v.optional(v.id("_storage")),
     isOnDuty: v.boolean(),
     lastSeen: v.optional(v.number()),
+    floorOverride: v.optional(v.id("floorPlans")),  // manual level assignment; wins over altitude
     createdAt: v.number(),
   })
     .index("by_clerkId", ["clerkId"])
@@ -34,8 +45,10 @@ export default defineSchema({
     latitude: v.number(),
     longitude: v.number(),
     accuracy: v.optional(v.number()),
+    altitude: v.optional(v.number()),  // metres, used to pick a building level
     batteryLevel: v.optional(v.number()),
     isCharging: v.optional(v.boolean()),
+    indoor: v.optional(indoorPositionValidator),  // from beacon readings in the same update
     timestamp: v.number(),
     updatedAt: v.number(),
   }).index("by_workerId", ["workerId"]),
@@ -49,17 +62,79 @@ export default defineSchema({
     timestamp: v.number(),
   }).index("by_workerId_timestamp", ["workerId", "timestamp"]),
 
+  // Per-worker cursor for the history retention cron
+  historyCompaction: defineTable({
+    workerId: v.id("workers"),
+    compactedThrough: v.number(),  // points at or before this timestamp are already simplified
+  }).index("by_workerId", ["workerId"]),
+
   mapZones: defineTable({
     organizationId: v.id("organizations"),
     name: v.string(),
     color: v.string(),
+    // Absent on zones created before circles/corridors existed — treat as polygon
+    shape: v.optional(
+      v.union(v.literal("polygon"), v.literal("circle"), v.literal("corridor"))
+    ),
+    // Polygon vertices, or the corridor's centre line. Empty for circles.
     points: v.array(v.object({ lat: v.number(), lng: v.number() })),
+    center: v.optional(v.object({ lat: v.number(), lng: v.number() })), // circle
+    radiusM: v.optional(v.number()), // circle
+    widthM: v.optional(v.number()), // corridor, full width
+    // Restricted zones raise an intrusion when anyone not allow-listed enters
+    restricted: v.optional(v.boolean()),
+    allowedWorkerIds: v.optional(v.array(v.id("workers"))),
+    allowedRoles: v.optional(v.array(v.union(v.literal("worker"), v.literal("admin")))),
+    autoSoundAlert: v.optional(v.boolean()),  // send the intruder a sound_alert command
+    createdAt: v.number(),
+  }).index("by_organizationId", ["organizationId"]),
+
+  zoneEvents: defineTable({
+    organizationId: v.id("organizations"),
+    workerId: v.id("workers"),
+    zoneId: v.id("mapZones"),
+    zoneName: v.string(),          // snapshot, so the log survives zone renames/deletes
+    direction: v.union(v.literal("enter"), v.literal("exit")),
+    latitude: v.number(),
+    longitude: v.number(),
+    timestamp: v.number(),
+  })
+    .index("by_workerId_timestamp", ["workerId", "timestamp"])
+    .index("by_workerId_zoneId_timestamp", ["workerId", "zoneId", "timestamp"])
+    .index("by_zoneId_timestamp", ["zoneId", "timestamp"]),
+
+  zoneIntrusions: defineTable({
+    organizationId: v.id("organizations"),
+    workerId: v.id("workers"),
+    workerName: v.string(),
+    mapZoneId: v.optional(v.id("mapZones")),      // exactly one of mapZoneId / floorZoneId
+    floorZoneId: v.optional(v.id("floorZones")),
+    zoneName: v.string(),
+    latitude: v.number(),
+    longitude: v.number(),
+    timestamp: v.number(),
+    soundAlertCommandId: v.optional(v.id("workerCommands")),
+    acknowledgedAt: v.optional(v.number()),
+    acknowledgedBy: v.optional(v.id("workers")),
+  })
+    .index("by_organizationId_timestamp", ["organizationId", "timestamp"])
+    .index("by_organizationId_acknowledgedAt_timestamp", ["organizationId", "acknowledgedAt", "timestamp"])
+    .index("by_workerId_timestamp", ["workerId", "timestamp"]),
+
+  buildings: defineTable({
+    organizationId: v.id("organizations"),
+    name: v.string(),
     createdAt: v.number(),
   }).index("by_organizationId", ["organizationId"]),
 
   floorPlans: defineTable({
     organizationId: v.id("organizations"),
     name: v.string(),
+    // Levels of one building are stacked and activated together
+    buildingId: v.optional(v.id("buildings")),
+    level: v.optional(v.number()),         // 0 = ground, negative = below ground
+    minAltitudeM: v.optional(v.number()),  // altitude band that places a worker on this level
+    maxAltitudeM: v.optional(v.number()),
     imageStorageId: v.id("_storage"),
     imageWidth: v.number(),
     imageHeight: v.number(),
@@ -69,24 +144,66 @@ export default defineSchema({
       lat: v.number(),
       lng: v.number(),
     })),
+    calibrationMode: v.optional(v.union(v.literal("affine"), v.literal("homography"))),  // unset = affine
+    // Set after an image replacement that moved the drawing: zones and markers are still
+    // aligned to this revision's image until the new image is calibrated
+    pendingReprojection: v.optional(v.id("floorPlanRevisions")),
     isActive: v.boolean(),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_organizationId", ["organizationId"])
-    .index("by_organizationId_active", ["organizationId", "isActive"]),
+    .index("by_organizationId_active", ["organizationId", "isActive"])
+    .index("by_buildingId", ["buildingId"]),
+
+  // Earlier image and calibration of a floor plan, saved whenever either is replaced
+  floorPlanRevisions: defineTable({
+    floorPlanId: v.id("floorPlans"),
+    organizationId: v.id("organizations"),
+    reason: v.union(v.literal("image"), v.literal("calibration"), v.literal("rollback")),  // what superseded it
+    imageStorageId: v.id("_storage"),
+    imageWidth: v.number(),
+    imageHeight: v.number(),
+    calibrationPoints: v.array(v.object({
+      px: v.number(),
+      py: v.number(),
+      lat: v.number(),
+      lng: v.number(),
+    })),
+    calibrationMode: v.optional(v.union(v.literal("affine"), v.literal("homography"))),
+    // Where zones, markers and corridors sat on this image
+    geometry: v.object({
+      zones: v.array(v.object({
+        zoneId: v.id("floorZones"),
+        points: v.array(v.object({ x: v.number(), y: v.number() })),
+      })),
+      markers: v.array(v.object({ markerId: v.id("floorMarkers"), x: v.number(), y: v.number() })),
+      corridors: v.optional(v.object({
+        nodes: v.array(v.object({ x: v.number(), y: v.number() })),
+        edges: v.array(v.object({ a: v.number(), b: v.number() })),
+      })),
+    }),
+    savedBy: v.id("workers"),
+    createdAt: v.number(),
+  }).index("by_floorPlanId", ["floorPlanId"]),
 
   floorMarkers: defineTable({
     floorPlanId: v.id("floorPlans"),
     organizationId: v.id("organizations"),
     name: v.string(),
     icon: v.optional(v.string()),  // emoji or short text shown inside the pin
+    category: v.optional(markerCategoryValidator),  // unset = general point of interest
     x: v.number(),                 // normalized 0-1 fraction of imageWidth
     y: v.number(),                 // normalized 0-1 fraction of imageHeight
+    // Radio markers position workers indoors; unset = plain point of interest
+    kind: v.optional(v.union(v.literal("poi"), v.literal("ble_beacon"), v.literal("wifi_ap"))),
+    beaconId: v.optional(v.string()),  // BLE uuid:major:minor or Wi-Fi BSSID, lowercase
+    txPower: v.optional(v.number()),   // measured RSSI at 1 m, dBm
     createdAt: v.number(),
   })
     .index("by_floorPlanId", ["floorPlanId"])
-    .index("by_organizationId", ["organizationId"]),
+    .index("by_organizationId", ["organizationId"])
+    .index("by_organizationId_beaconId", ["organizationId", "beaconId"]),
 
   floorZones: defineTable({
     floorPlanId: v.id("floorPlans"),
@@ -97,14 +214,118 @@ export default defineSchema({
       x: v.number(),
       y: v.number(),
     })),
+    // Restricted zones raise an intrusion when anyone not allow-listed enters
+    restricted: v.optional(v.boolean()),
+    allowedWorkerIds: v.optional(v.array(v.id("workers"))),
+    allowedRoles: v.optional(v.array(v.union(v.literal("worker"), v.literal("admin")))),
+    autoSoundAlert: v.optional(v.boolean()),  // send the intruder a sound_alert command
+    capacity: v.optional(v.number()),  // occupancy above this shows the zone as over capacity
     createdAt: v.number(),
   })
     .index("by_floorPlanId", ["floorPlanId"])
     .index("by_organizationId", ["organizationId"]),
 
+  // One walkable corridor graph per floor plan, for wayfinding
+  floorCorridors: defineTable({
+    floorPlanId: v.id("floorPlans"),
+    organizationId: v.id("organizations"),
+    nodes: v.array(v.object({ x: v.number(), y: v.number() })),  // normalized 0-1
+    edges: v.array(v.object({ a: v.number(), b: v.number() })),  // indices into nodes
+    updatedAt: v.number(),
+  }).index("by_floorPlanId", ["floorPlanId"]),
+
+  // Named sets of workers, e.g. fire wardens or a shift crew
+  workerGroups: defineTable({
+    organizationId: v.id("organizations"),
+    name: v.string(),
+    workerIds: v.array(v.id("workers")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_organizationId", ["organizationId"]),
+
+  // One command sent to many workers; each recipient gets a workerCommands row
+  broadcasts: defineTable({
+    organizationId: v.id("organizations"),
+    fromAdminId: v.id("workers"),
+    target: broadcastTargetValidator,
+    targetLabel: v.string(),  // snapshot, e.g. "Zone: Loading Dock"
+    type: v.union(
+      v.literal("sound_alert"),
+      v.literal("message"),
+      v.literal("sound_and_message")
+    ),
+    message: v.optional(v.string()),
+    soundType: v.union(
+      v.literal("alarm"),
+      v.literal("notification"),
+      v.literal("urgent")
+    ),
+    recipientCount: v.number(),
+    // Escalation steps whose notify_admins notice already went out for the whole broadcast
+    adminsNotifiedSteps: v.optional(v.array(v.number())),
+    createdAt: v.number(),
+  }).index("by_organizationId_createdAt", ["organizationId", "createdAt"]),
+
+  // Canned commands admins pick from instead of retyping; message may hold placeholders
+  commandTemplates: defineTable({
+    organizationId: v.id("organizations"),
+    name: v.string(),
+    type: v.union(
+      v.literal("sound_alert"),
+      v.literal("message"),
+      v.literal("sound_and_message")
+    ),
+    soundType: v.union(
+      v.literal("alarm"),
+      v.literal("notification"),
+      v.literal("urgent")
+    ),
+    message: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_organizationId", ["organizationId"]),
+
+  // A command queued for later, either once at `runAt` or on a recurrence
+  scheduledCommands: defineTable({
+    organizationId: v.id("organizations"),
+    createdBy: v.id("workers"),  // sent as this admin
+    target: commandTargetValidator,
+    type: v.union(
+      v.literal("sound_alert"),
+      v.literal("message"),
+      v.literal("sound_and_message")
+    ),
+    soundType: v.union(
+      v.literal("alarm"),
+      v.literal("notification"),
+      v.literal("urgent")
+    ),
+    message: v.optional(v.string()),
+    runAt: v.optional(v.number()),  // one-off
+    recurrence: v.optional(commandRecurrenceValidator),
+    nextRunAt: v.number(),
+    scheduledFunctionId: v.optional(v.id("_scheduled_functions")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_organizationId", ["organizationId"]),
+
+  // What happens when a command at one of `soundTypes` goes unacknowledged
+  escalationPolicies: defineTable({
+    organizationId: v.id("organizations"),
+    name: v.string(),
+    soundTypes: v.array(
+      v.union(v.literal("alarm"), v.literal("notification"), v.literal("urgent"))
+    ),
+    steps: v.array(escalationStepValidator),  // ascending afterMinutes
+    isActive: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_organizationId", ["organizationId"]),
+
   workerCommands: defineTable({
     workerId: v.id("workers"),
     fromAdminId: v.id("workers"),
+    broadcastId: v.optional(v.id("broadcasts")),
     type: v.union(
       v.literal("sound_alert"),
       v.literal("message"),
@@ -116,6 +337,7 @@ export default defineSchema({
       v.literal("notification"),
       v.literal("urgent")
     ),
+    route: v.optional(routeValidator),  // walking directions to a floor marker
     status: v.union(
       v.literal("pending"),
       v.literal("delivered"),
@@ -124,9 +346,31 @@ export default defineSchema({
     createdAt: v.number(),
     deliveredAt: v.optional(v.number()),
     acknowledgedAt: v.optional(v.number()),
+    // Set on a command that escalates; steps run until anything in its chain is acknowledged
+    escalationPolicyId: v.optional(v.id("escalationPolicies")),
+    nextEscalationAt: v.optional(v.number()),
+    // Set on the commands an escalation sends, pointing back at the original
+    escalatedFromId: v.optional(v.id("workerCommands")),
+    escalationAction: v.optional(escalationActionValidator),
   })
     .index("by_workerId", ["workerId"])
-    .index("by_workerId_status", ["workerId", "status"]),
+    .index("by_workerId_status", ["workerId", "status"])
+    .index("by_broadcastId", ["broadcastId"])
+    .index("by_escalatedFromId", ["escalatedFromId"]),
+
+  // Conversation on a command: worker replies, and admin answers in the same thread
+  commandReplies: defineTable({
+    commandId: v.id("workerCommands"),
+    organizationId: v.id("organizations"),
+    authorId: v.id("workers"),
+    fromRecipient: v.boolean(),  // written by the worker the command was sent to
+    text: v.string(),
+    quickResponse: v.optional(quickResponseValidator),
+    isUnread: v.boolean(),  // recipient replies until an admin opens the thread
+    createdAt: v.number(),
+  })
+    .index("by_commandId", ["commandId"])
+    .index("by_organizationId_isUnread", ["organizationId", "isUnread"]),
 
   taskTemplates: defineTable({
     organizationId: v.id("organizations"),
@@ -168,12 +412,7 @@ export default defineSchema({
     description: v.optional(v.string()),
     estimatedMinutes: v.optional(v.number()),
     taskTemplateId: v.optional(v.id("taskTemplates")),
-    recurrenceType: v.union(
-      v.literal("daily"),
-      v.literal("weekdays"),
-      v.literal("weekly"),
-      v.literal("custom"),
-    ),
+    recurrenceType: recurrenceTypeValidator,
     weekdays: v.optional(v.array(v.number())),
     startDate: v.string(),
     endDate: v.optional(v.string()),
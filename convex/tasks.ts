@@ -1,77 +1,26 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { QueryCtx, MutationCtx } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
 import { ConvexError } from "convex/values";
 import type { Id } from "./_generated/dataModel";
+import {
+  requireOrgAdmin,
+  requireOrgDoc,
+  requireOrgMember,
+  requireWorkerInOrg,
+} from "./lib/auth";
+import { doesRuleApplyToDate, formatDate, getDaysInRange, recurrenceTypeValidator } from "./lib/recurrence";
 
 // ─── Auth helpers ─────────────────────────────────────────────────────────────
 
-async function requireAuth(ctx: QueryCtx | MutationCtx) {
-  const identity = await ctx.auth.getUserIdentity();
-  if (!identity) throw new ConvexError("Authentication required");
-  return identity;
-}
-
-async function requireAdmin(ctx: QueryCtx | MutationCtx) {
-  const identity = await requireAuth(ctx);
-  const worker = await ctx.db
-    .query("workers")
-    .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-    .unique();
-  if (!worker || worker.role !== "admin") {
-    throw new ConvexError("Admin access required");
-  }
-  return { identity, worker };
-}
-
-// ─── Date utilities ───────────────────────────────────────────────────────────
-
-function formatDate(ms: number): string {
-  const d = new Date(ms);
-  const y = d.getUTCFullYear();
-  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
-  const day = String(d.getUTCDate()).padStart(2, "0");
-  return `${y}-${m}-${day}`;
-}
-
-function doesRuleApplyToDate(
-  rule: {
-    recurrenceType: string;
-    weekdays?: number[];
-    startDate: string;
-    endDate?: string;
-  },
-  dateStr: string
-): boolean {
-  if (dateStr < rule.startDate) return false;
-  if (rule.endDate && dateStr > rule.endDate) return false;
-
-  const d = new Date(dateStr + "T00:00:00Z");
-  const dow = d.getUTCDay(); // 0=Sun…6=Sat
-
-  switch (rule.recurrenceType) {
-    case "daily":
-      return true;
-    case "weekdays":
-      return dow >= 1 && dow <= 5;
-    case "weekly":
-      return rule.weekdays?.[0] === dow;
-    case "custom":
-      return rule.weekdays?.includes(dow) ?? false;
-    default:
-      return false;
-  }
-}
-
-function getDaysInRange(startDate: string, endDate: string): string[] {
-  const days: string[] = [];
-  const cur = new Date(startDate + "T00:00:00Z");
-  const end = new Date(endDate + "T00:00:00Z");
-  while (cur <= end) {
-    days.push(formatDate(cur.getTime()));
-    cur.setUTCDate(cur.getUTCDate() + 1);
-  }
-  return days;
+async function requireWorkersInOrg(
+  ctx: MutationCtx,
+  workerIds: Id<"workers">[],
+  organizationId: Id<"organizations">
+) {
+  await Promise.all(
+    workerIds.map((wId) => requireWorkerInOrg(ctx, wId, organizationId))
+  );
 }
 
 // ─── Task Template Queries ────────────────────────────────────────────────────
@@ -210,11 +159,10 @@ export const createTaskTemplate = mutation({
   },
   returns: v.id("taskTemplates"),
   handler: async (ctx, args) => {
-    const { worker } = await requireAdmin(ctx);
-    if (!worker.organizationId) throw new ConvexError("No organization found");
+    const { organizationId } = await requireOrgAdmin(ctx);
 
     return await ctx.db.insert("taskTemplates", {
-      organizationId: worker.organizationId as Id<"organizations">,
+      organizationId,
       title: args.title,
       description: args.description,
       estimatedMinutes: args.estimatedMinutes,
@@ -235,7 +183,8 @@ export const updateTaskTemplate = mutation({
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.templateId, organizationId, "Template not found");
     const { templateId, ...updates } = args;
     const patch: Record<string, unknown> = { updatedAt: Date.now() };
     if (updates.title !== undefined) patch.title = updates.title;
@@ -251,7 +200,8 @@ export const deleteTaskTemplate = mutation({
   args: { templateId: v.id("taskTemplates") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.templateId, organizationId, "Template not found");
     await ctx.db.delete(args.templateId);
     return null;
   },
@@ -270,10 +220,12 @@ export const createTaskAssignments = mutation({
   },
   returns: v.array(v.id("taskAssignments")),
   handler: async (ctx, args) => {
-    const { worker } = await requireAdmin(ctx);
-    if (!worker.organizationId) throw new ConvexError("No organization found");
+    const { organizationId: orgId } = await requireOrgAdmin(ctx);
+    await requireWorkersInOrg(ctx, args.workerIds, orgId);
+    if (args.taskTemplateId) {
+      await requireOrgDoc(ctx, args.taskTemplateId, orgId, "Template not found");
+    }
 
-    const orgId = worker.organizationId as Id<"organizations">;
     const now = Date.now();
 
     const ids = await Promise.all(
@@ -315,15 +267,13 @@ export const updateTaskAssignment = mutation({
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-    const caller = await ctx.db
-      .query("workers")
-      .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-    if (!caller) throw new ConvexError("Worker not found");
-
-    const assignment = await ctx.db.get(args.assignmentId);
-    if (!assignment) throw new ConvexError("Assignment not found");
+    const { worker: caller, organizationId } = await requireOrgMember(ctx);
+    const assignment = await requireOrgDoc(
+      ctx,
+      args.assignmentId,
+      organizationId,
+      "Assignment not found"
+    );
 
     if (caller.role !== "admin" && caller._id !== assignment.workerId) {
       throw new ConvexError("Not authorized");
@@ -351,7 +301,8 @@ export const deleteTaskAssignment = mutation({
   args: { assignmentId: v.id("taskAssignments") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.assignmentId, organizationId, "Assignment not found");
     await ctx.db.delete(args.assignmentId);
     return null;
   },
@@ -366,23 +317,21 @@ export const createRecurringRule = mutation({
     description: v.optional(v.string()),
     estimatedMinutes: v.optional(v.number()),
     taskTemplateId: v.optional(v.id("taskTemplates")),
-    recurrenceType: v.union(
-      v.literal("daily"),
-      v.literal("weekdays"),
-      v.literal("weekly"),
-      v.literal("custom")
-    ),
+    recurrenceType: recurrenceTypeValidator,
     weekdays: v.optional(v.array(v.number())),
     startDate: v.string(),
     endDate: v.optional(v.string()),
   },
   returns: v.id("recurringTaskRules"),
   handler: async (ctx, args) => {
-    const { worker } = await requireAdmin(ctx);
-    if (!worker.organizationId) throw new ConvexError("No organization found");
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireWorkersInOrg(ctx, args.workerIds, organizationId);
+    if (args.taskTemplateId) {
+      await requireOrgDoc(ctx, args.taskTemplateId, organizationId, "Template not found");
+    }
 
     return await ctx.db.insert("recurringTaskRules", {
-      organizationId: worker.organizationId as Id<"organizations">,
+      organizationId,
       workerIds: args.workerIds,
       title: args.title,
       description: args.description,
@@ -406,14 +355,7 @@ export const updateRecurringRule = mutation({
     title: v.optional(v.string()),
     description: v.optional(v.string()),
     estimatedMinutes: v.optional(v.number()),
-    recurrenceType: v.optional(
-      v.union(
-        v.literal("daily"),
-        v.literal("weekdays"),
-        v.literal("weekly"),
-        v.literal("custom")
-      )
-    ),
+    recurrenceType: v.optional(recurrenceTypeValidator),
     weekdays: v.optional(v.array(v.number())),
     startDate: v.optional(v.string()),
     endDate: v.optional(v.string()),
@@ -421,7 +363,11 @@ export const updateRecurringRule = mutation({
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.ruleId, organizationId, "Rule not found");
+    if (args.workerIds) {
+      await requireWorkersInOrg(ctx, args.workerIds, organizationId);
+    }
     const { ruleId, ...updates } = args;
     const patch: Record<string, unknown> = { updatedAt: Date.now() };
     if (updates.workerIds !== undefined) patch.workerIds = updates.workerIds;
@@ -442,7 +388,8 @@ export const deleteRecurringRule = mutation({
   args: { ruleId: v.id("recurringTaskRules") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAdmin(ctx);
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.ruleId, organizationId, "Rule not found");
     await ctx.db.delete(args.ruleId);
     return null;
   },
@@ -457,10 +404,7 @@ export const ensureRecurringAssignments = mutation({
   },
   returns: v.number(),
   handler: async (ctx, args) => {
-    const { worker } = await requireAdmin(ctx);
-    if (!worker.organizationId) return 0;
-
-    const orgId = worker.organizationId as Id<"organizations">;
+    const { organizationId: orgId } = await requireOrgAdmin(ctx);
 
     const rules = await ctx.db
       .query("recurringTaskRules")
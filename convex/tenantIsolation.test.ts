@@ -0,0 +1,657 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { anyApi } from "convex/server";
+import type { FunctionReference } from "convex/server";
+import { ConvexError } from "convex/values";
+import { beforeEach, describe, expect, test } from "vitest";
+import schema from "./schema";
+
+/**
+ * Tenant isolation: every public query and mutation is called by the admin
+ * of organization B with ids that belong to organization A. Each call must
+ * either be rejected, or succeed without returning any of A's documents and
+ * without creating, changing or deleting anything that belongs to A.
+ */
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+// Loaded eagerly to discover every exported function
+const functionModules = import.meta.glob<Record<string, unknown>>(
+  ["./*.ts", "!./*.test.ts", "!./schema.ts", "!./auth.config.ts"],
+  { eager: true }
+);
+
+type RegisteredFunction = { isQuery?: boolean; isPublic?: boolean };
+
+const publicFunctions = Object.entries(functionModules).flatMap(([path, exports]) => {
+  const moduleName = path.replace(/^\.\//, "").replace(/\.ts$/, "");
+  return Object.entries(exports)
+    .filter(([, value]) => (value as RegisteredFunction | null)?.isPublic)
+    .map(([name, value]) => ({
+      name: `${moduleName}:${name}`,
+      isQuery: !!(value as RegisteredFunction).isQuery,
+      ref: anyApi[moduleName][name],
+    }));
+});
+
+// Rejections that mean "not yours" rather than a problem with the test's arguments
+const REJECTED =
+  /not found|not authorized|access required|only admins|already in an organization|invalid join code/i;
+
+const HOUR_MS = 60 * 60 * 1000;
+const BEACON_A = "f7826da6-4fa2-4e98-8024-bc5b71e0893e:1:1";
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+async function seed(t: ReturnType<typeof convexTest>) {
+  return await t.run(async (ctx) => {
+    const now = Date.now();
+    const addWorker = (clerkId: string, role: "admin" | "worker") =>
+      ctx.db.insert("workers", {
+        clerkId,
+        email: `${clerkId}@example.com`,
+        name: clerkId,
+        role,
+        isOnDuty: true,
+        lastSeen: now,
+        createdAt: now,
+      });
+
+    // Organization B: the caller
+    const adminB = await addWorker("b-admin", "admin");
+    const workerB = await addWorker("b-worker", "worker");
+    const orgB = await ctx.db.insert("organizations", {
+      name: "Org B",
+      joinCode: "BBBBBB",
+      createdBy: adminB,
+      createdAt: now,
+    });
+    await ctx.db.patch(adminB, { organizationId: orgB });
+    await ctx.db.patch(workerB, { organizationId: orgB });
+    const imageB = await ctx.storage.store(new Blob(["b"]));
+    const floorPlanB = await ctx.db.insert("floorPlans", {
+      organizationId: orgB,
+      name: "B plan",
+      imageStorageId: imageB,
+      imageWidth: 500,
+      imageHeight: 500,
+      calibrationPoints: [],
+      isActive: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    // Organization A: one of everything
+    const adminA = await addWorker("a-admin", "admin");
+    const workerA = await addWorker("a-worker", "worker");
+    const orgA = await ctx.db.insert("organizations", {
+      name: "Org A",
+      joinCode: "AAAAAA",
+      createdBy: adminA,
+      createdAt: now,
+    });
+    await ctx.db.patch(adminA, { organizationId: orgA });
+    await ctx.db.patch(workerA, { organizationId: orgA });
+
+    const currentLocation = await ctx.db.insert("currentWorkerLocations", {
+      workerId: workerA,
+      latitude: 10,
+      longitude: 10,
+      timestamp: now,
+      updatedAt: now,
+    });
+    const historyPoint = await ctx.db.insert("historicalWorkerLocations", {
+      workerId: workerA,
+      latitude: 10,
+      longitude: 10,
+      timestamp: now - HOUR_MS,
+    });
+    const compaction = await ctx.db.insert("historyCompaction", {
+      workerId: workerA,
+      compactedThrough: now - 24 * HOUR_MS,
+    });
+
+    const mapZone = await ctx.db.insert("mapZones", {
+      organizationId: orgA,
+      name: "Yard",
+      color: "#ff0000",
+      points: [
+        { lat: 9.99, lng: 9.99 },
+        { lat: 10.01, lng: 9.99 },
+        { lat: 10.01, lng: 10.01 },
+        { lat: 9.99, lng: 10.01 },
+      ],
+      restricted: true,
+      autoSoundAlert: true,
+      createdAt: now,
+    });
+    const zoneEvent = await ctx.db.insert("zoneEvents", {
+      organizationId: orgA,
+      workerId: workerA,
+      zoneId: mapZone,
+      zoneName: "Yard",
+      direction: "enter",
+      latitude: 10,
+      longitude: 10,
+      timestamp: now - HOUR_MS,
+    });
+    const intrusion = await ctx.db.insert("zoneIntrusions", {
+      organizationId: orgA,
+      workerId: workerA,
+      workerName: "a-worker",
+      mapZoneId: mapZone,
+      zoneName: "Yard",
+      latitude: 10,
+      longitude: 10,
+      timestamp: now - HOUR_MS,
+    });
+
+    const imageA = await ctx.storage.store(new Blob(["a"]));
+    const building = await ctx.db.insert("buildings", {
+      organizationId: orgA,
+      name: "Warehouse",
+      createdAt: now,
+    });
+    const calibrationPoints = [
+      { px: 0, py: 0, lat: 10.01, lng: 9.99 },
+      { px: 1000, py: 0, lat: 10.01, lng: 10.01 },
+      { px: 0, py: 1000, lat: 9.99, lng: 9.99 },
+    ];
+    const floorPlan = await ctx.db.insert("floorPlans", {
+      organizationId: orgA,
+      name: "Ground",
+      buildingId: building,
+      level: 0,
+      imageStorageId: imageA,
+      imageWidth: 1000,
+      imageHeight: 1000,
+      calibrationPoints,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const revision = await ctx.db.insert("floorPlanRevisions", {
+      floorPlanId: floorPlan,
+      organizationId: orgA,
+      reason: "image",
+      imageStorageId: imageA,
+      imageWidth: 1000,
+      imageHeight: 1000,
+      calibrationPoints,
+      geometry: { zones: [], markers: [] },
+      savedBy: adminA,
+      createdAt: now,
+    });
+    const floorZone = await ctx.db.insert("floorZones", {
+      floorPlanId: floorPlan,
+      organizationId: orgA,
+      name: "Office",
+      color: "#00ff00",
+      points: [
+        { x: 0.1, y: 0.1 },
+        { x: 0.9, y: 0.1 },
+        { x: 0.5, y: 0.9 },
+      ],
+      restricted: true,
+      autoSoundAlert: true,
+      createdAt: now,
+    });
+    const marker = await ctx.db.insert("floorMarkers", {
+      floorPlanId: floorPlan,
+      organizationId: orgA,
+      name: "Exit",
+      x: 0.5,
+      y: 0.5,
+      kind: "ble_beacon",
+      beaconId: BEACON_A,
+      txPower: -59,
+      createdAt: now,
+    });
+    const corridor = await ctx.db.insert("floorCorridors", {
+      floorPlanId: floorPlan,
+      organizationId: orgA,
+      nodes: [
+        { x: 0.1, y: 0.1 },
+        { x: 0.5, y: 0.5 },
+      ],
+      edges: [{ a: 0, b: 1 }],
+      updatedAt: now,
+    });
+
+    const group = await ctx.db.insert("workerGroups", {
+      organizationId: orgA,
+      name: "Crew",
+      workerIds: [workerA],
+      createdAt: now,
+      updatedAt: now,
+    });
+    const broadcast = await ctx.db.insert("broadcasts", {
+      organizationId: orgA,
+      fromAdminId: adminA,
+      target: { kind: "all" },
+      targetLabel: "Everyone",
+      type: "message",
+      message: "Muster",
+      soundType: "notification",
+      recipientCount: 1,
+      createdAt: now,
+    });
+    const command = await ctx.db.insert("workerCommands", {
+      workerId: workerA,
+      fromAdminId: adminA,
+      broadcastId: broadcast,
+      type: "message",
+      message: "Muster",
+      soundType: "notification",
+      status: "pending",
+      createdAt: now,
+    });
+    const reply = await ctx.db.insert("commandReplies", {
+      commandId: command,
+      organizationId: orgA,
+      authorId: workerA,
+      fromRecipient: true,
+      text: "On my way",
+      isUnread: true,
+      createdAt: now,
+    });
+    const escalationPolicy = await ctx.db.insert("escalationPolicies", {
+      organizationId: orgA,
+      name: "Urgent",
+      soundTypes: ["urgent"],
+      steps: [{ afterMinutes: 5, action: "resend" }],
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const commandTemplate = await ctx.db.insert("commandTemplates", {
+      organizationId: orgA,
+      name: "Return",
+      type: "message",
+      soundType: "notification",
+      message: "Return to base",
+      createdAt: now,
+      updatedAt: now,
+    });
+    const scheduledCommand = await ctx.db.insert("scheduledCommands", {
+      organizationId: orgA,
+      createdBy: adminA,
+      target: { kind: "worker", workerId: workerA },
+      type: "message",
+      soundType: "notification",
+      message: "Shift ends",
+      runAt: now + 24 * HOUR_MS,
+      nextRunAt: now + 24 * HOUR_MS,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const taskTemplate = await ctx.db.insert("taskTemplates", {
+      organizationId: orgA,
+      title: "Inspect",
+      createdAt: now,
+      updatedAt: now,
+    });
+    const assignment = await ctx.db.insert("taskAssignments", {
+      organizationId: orgA,
+      workerId: workerA,
+      assignedDate: "2026-06-01",
+      title: "Inspect",
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+    const recurringRule = await ctx.db.insert("recurringTaskRules", {
+      organizationId: orgA,
+      workerIds: [workerA],
+      title: "Daily report",
+      recurrenceType: "daily",
+      startDate: "2026-01-01",
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return {
+      orgB,
+      adminB,
+      workerB,
+      imageB,
+      floorPlanB,
+      a: {
+        orgA,
+        adminA,
+        workerA,
+        currentLocation,
+        historyPoint,
+        compaction,
+        mapZone,
+        zoneEvent,
+        intrusion,
+        building,
+        floorPlan,
+        revision,
+        floorZone,
+        marker,
+        corridor,
+        group,
+        broadcast,
+        command,
+        reply,
+        escalationPolicy,
+        commandTemplate,
+        scheduledCommand,
+        taskTemplate,
+        assignment,
+        recurringRule,
+      },
+    };
+  });
+}
+
+type Seed = Awaited<ReturnType<typeof seed>>;
+
+// ─── Calls made as organization B's admin, aimed at organization A ──────────
+
+const triangle = [
+  { lat: 20, lng: 20 },
+  { lat: 20.01, lng: 20 },
+  { lat: 20, lng: 20.01 },
+];
+const message = { type: "message", soundType: "notification", message: "Hello" } as const;
+
+const cases: Record<string, (s: Seed) => Record<string, unknown>> = {
+  "broadcasts:getRecentBroadcasts": () => ({}),
+  "broadcasts:getRollCall": ({ a }) => ({ broadcastId: a.broadcast }),
+  "broadcasts:sendBroadcast": ({ a }) => ({
+    target: { kind: "group", groupId: a.group },
+    ...message,
+  }),
+
+  "commandTemplates:getCommandTemplates": () => ({}),
+  "commandTemplates:createCommandTemplate": () => ({ name: "Mine", ...message }),
+  "commandTemplates:updateCommandTemplate": ({ a }) => ({
+    templateId: a.commandTemplate,
+    name: "Taken",
+    ...message,
+  }),
+  "commandTemplates:deleteCommandTemplate": ({ a }) => ({ templateId: a.commandTemplate }),
+
+  "commands:sendCommand": ({ a }) => ({ workerId: a.workerA, ...message }),
+  "commands:sendRouteCommand": ({ a, workerB }) => ({ workerId: workerB, markerId: a.marker }),
+  "commands:getPendingCommands": () => ({}),
+  "commands:markDelivered": ({ a }) => ({ commandId: a.command }),
+  "commands:markAcknowledged": ({ a }) => ({ commandId: a.command }),
+  "commands:getCommandHistory": ({ a }) => ({ workerId: a.workerA }),
+  "commands:getCommandThread": ({ a }) => ({ commandId: a.command }),
+  "commands:replyToCommand": ({ a }) => ({ commandId: a.command, text: "Hi" }),
+  "commands:getUnreadReplies": () => ({}),
+  "commands:markRepliesRead": ({ a }) => ({ workerId: a.workerA }),
+
+  "escalations:getEscalationPolicies": () => ({}),
+  "escalations:createEscalationPolicy": ({ a }) => ({
+    name: "Backup",
+    soundTypes: ["alarm"],
+    steps: [{ afterMinutes: 5, action: "notify_backup", backupWorkerId: a.workerA }],
+    isActive: true,
+  }),
+  "escalations:updateEscalationPolicy": ({ a }) => ({
+    policyId: a.escalationPolicy,
+    name: "Off",
+    soundTypes: ["urgent"],
+    steps: [{ afterMinutes: 5, action: "resend" }],
+    isActive: false,
+  }),
+  "escalations:deleteEscalationPolicy": ({ a }) => ({ policyId: a.escalationPolicy }),
+
+  "floorPlanRevisions:getFloorPlanRevisions": ({ a }) => ({ floorPlanId: a.floorPlan }),
+  "floorPlanRevisions:replaceFloorPlanImage": ({ a, imageB }) => ({
+    floorPlanId: a.floorPlan,
+    imageStorageId: imageB,
+    imageWidth: 500,
+    imageHeight: 500,
+    sameExtent: true,
+  }),
+  "floorPlanRevisions:rollbackFloorPlan": ({ a }) => ({ revisionId: a.revision }),
+
+  "floorPlans:getFloorPlans": () => ({}),
+  "floorPlans:getBuildings": () => ({}),
+  "floorPlans:getActiveFloorPlans": () => ({}),
+  "floorPlans:getActiveFloorPlan": () => ({}),
+  "floorPlans:getFloorZoneOccupancy": ({ a }) => ({ floorPlanId: a.floorPlan }),
+  "floorPlans:generateFloorPlanUploadUrl": () => ({}),
+  "floorPlans:createFloorPlan": ({ imageB }) => ({
+    name: "Mine",
+    imageStorageId: imageB,
+    imageWidth: 500,
+    imageHeight: 500,
+  }),
+  "floorPlans:updateFloorPlanCalibration": ({ a }) => ({
+    floorPlanId: a.floorPlan,
+    calibrationPoints: [
+      { px: 0, py: 0, lat: 1, lng: 1 },
+      { px: 1000, py: 0, lat: 1, lng: 2 },
+      { px: 0, py: 1000, lat: 2, lng: 1 },
+    ],
+  }),
+  "floorPlans:setActiveFloorPlan": ({ a }) => ({ floorPlanId: a.floorPlan }),
+  "floorPlans:deactivateFloorPlan": ({ a }) => ({ floorPlanId: a.floorPlan }),
+  "floorPlans:deleteFloorPlan": ({ a }) => ({ floorPlanId: a.floorPlan }),
+  "floorPlans:createBuilding": () => ({ name: "Mine" }),
+  "floorPlans:renameBuilding": ({ a }) => ({ buildingId: a.building, name: "Taken" }),
+  "floorPlans:deleteBuilding": ({ a }) => ({ buildingId: a.building }),
+  // Moving B's own plan into A's building
+  "floorPlans:updateFloorPlanLevel": ({ a, floorPlanB }) => ({
+    floorPlanId: floorPlanB,
+    buildingId: a.building,
+    level: 3,
+  }),
+  "floorPlans:createFloorZone": ({ a }) => ({
+    floorPlanId: a.floorPlan,
+    name: "Mine",
+    color: "#0000ff",
+    points: [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+    ],
+  }),
+  "floorPlans:updateFloorZone": ({ a }) => ({ zoneId: a.floorZone, name: "Taken" }),
+  "floorPlans:deleteFloorZone": ({ a }) => ({ zoneId: a.floorZone }),
+  "floorPlans:getFloorMarkers": ({ a }) => ({ floorPlanId: a.floorPlan }),
+  "floorPlans:createFloorMarker": ({ a }) => ({
+    floorPlanId: a.floorPlan,
+    name: "Mine",
+    x: 0.2,
+    y: 0.2,
+  }),
+  "floorPlans:updateFloorMarker": ({ a }) => ({ markerId: a.marker, name: "Taken" }),
+  "floorPlans:deleteFloorMarker": ({ a }) => ({ markerId: a.marker }),
+  "floorPlans:getCorridorGraph": ({ a }) => ({ floorPlanId: a.floorPlan }),
+  "floorPlans:saveCorridorGraph": ({ a }) => ({ floorPlanId: a.floorPlan, nodes: [], edges: [] }),
+
+  "intrusions:getOpenIntrusions": () => ({}),
+  "intrusions:getIntrusionLog": ({ a }) => ({ workerId: a.workerA }),
+  "intrusions:acknowledgeIntrusion": ({ a }) => ({ intrusionId: a.intrusion }),
+  "intrusions:acknowledgeAllIntrusions": () => ({}),
+
+  // Standing in A's restricted zones and hearing A's beacon
+  "locations:updateLocation": () => ({
+    latitude: 10,
+    longitude: 10,
+    beacons: [{ id: BEACON_A, rssi: -50 }],
+  }),
+  "locations:getCurrentLocations": () => ({}),
+  "locations:getWorkerHistory": ({ a }) => ({ workerId: a.workerA }),
+  "locations:getWorkerTrail": ({ a }) => ({
+    workerId: a.workerA,
+    startTime: 0,
+    endTime: Date.now() + HOUR_MS,
+  }),
+  "locations:getWorkerTrailPage": ({ a }) => ({
+    workerId: a.workerA,
+    startTime: 0,
+    endTime: Date.now() + HOUR_MS,
+    paginationOpts: { numItems: 10, cursor: null },
+  }),
+  "locations:logHistoricalLocation": ({ a }) => ({
+    workerId: a.workerA,
+    latitude: 1,
+    longitude: 1,
+  }),
+
+  "mapZones:getMapZones": () => ({}),
+  "mapZones:getWorkerZoneStatus": () => ({}),
+  "mapZones:getWorkerZoneEvents": ({ a }) => ({ workerId: a.workerA }),
+  "mapZones:createMapZone": () => ({ name: "Mine", color: "#0000ff", points: triangle }),
+  "mapZones:importMapZones": () => ({
+    zones: [{ name: "Mine", color: "#0000ff", points: triangle }],
+  }),
+  "mapZones:updateMapZone": ({ a }) => ({ zoneId: a.mapZone, name: "Taken" }),
+  "mapZones:deleteMapZone": ({ a }) => ({ zoneId: a.mapZone }),
+
+  "organizations:createOrganization": () => ({ name: "Another" }),
+  "organizations:getMyOrganization": () => ({}),
+  "organizations:getOrganizationMembers": ({ a }) => ({ organizationId: a.orgA }),
+  // The join code is the invitation itself, so only an unknown code is tried
+  "organizations:getOrganizationByJoinCode": () => ({ joinCode: "ZZZZZZ" }),
+  "organizations:joinOrganization": () => ({ joinCode: "ZZZZZZ" }),
+  "organizations:removeWorkerFromOrganization": ({ a }) => ({ workerId: a.workerA }),
+  "organizations:regenerateJoinCode": ({ a }) => ({ organizationId: a.orgA }),
+  "organizations:updateOrgSettings": ({ a }) => ({
+    organizationId: a.orgA,
+    locationIntervalMs: 60_000,
+    historyIntervalMs: 60_000,
+  }),
+  "organizations:getMyOrgSettings": () => ({}),
+  "organizations:updateOrganizationName": ({ a }) => ({ organizationId: a.orgA, name: "Taken" }),
+
+  "reports:getZoneDwellReport": () => ({
+    startTime: Date.now() - 24 * HOUR_MS,
+    endTime: Date.now() + HOUR_MS,
+  }),
+
+  "scheduledCommands:getScheduledCommands": () => ({}),
+  "scheduledCommands:createScheduledCommand": ({ a }) => ({
+    target: { kind: "worker", workerId: a.workerA },
+    ...message,
+    runAt: Date.now() + HOUR_MS,
+  }),
+  "scheduledCommands:updateScheduledCommand": ({ a }) => ({
+    scheduledCommandId: a.scheduledCommand,
+    target: { kind: "all" },
+    ...message,
+    runAt: Date.now() + HOUR_MS,
+  }),
+  "scheduledCommands:cancelScheduledCommand": ({ a }) => ({
+    scheduledCommandId: a.scheduledCommand,
+  }),
+
+  "tasks:getTaskTemplates": () => ({}),
+  "tasks:getTasksForDateRange": () => ({ startDate: "2026-01-01", endDate: "2026-12-31" }),
+  "tasks:getMyTasksForToday": () => ({}),
+  "tasks:getRecurringRules": () => ({}),
+  "tasks:createTaskTemplate": () => ({ title: "Mine" }),
+  "tasks:updateTaskTemplate": ({ a }) => ({ templateId: a.taskTemplate, title: "Taken" }),
+  "tasks:deleteTaskTemplate": ({ a }) => ({ templateId: a.taskTemplate }),
+  "tasks:createTaskAssignments": ({ a }) => ({
+    workerIds: [a.workerA],
+    assignedDate: "2026-06-02",
+    title: "Mine",
+  }),
+  "tasks:updateTaskAssignment": ({ a }) => ({ assignmentId: a.assignment, status: "completed" }),
+  "tasks:deleteTaskAssignment": ({ a }) => ({ assignmentId: a.assignment }),
+  "tasks:createRecurringRule": ({ a }) => ({
+    workerIds: [a.workerA],
+    title: "Mine",
+    recurrenceType: "daily",
+    startDate: "2026-01-01",
+  }),
+  "tasks:updateRecurringRule": ({ a }) => ({ ruleId: a.recurringRule, title: "Taken" }),
+  "tasks:deleteRecurringRule": ({ a }) => ({ ruleId: a.recurringRule }),
+  "tasks:ensureRecurringAssignments": () => ({ startDate: "2026-06-01", endDate: "2026-06-07" }),
+
+  "workerGroups:getWorkerGroups": () => ({}),
+  "workerGroups:createWorkerGroup": ({ a }) => ({ name: "Mine", workerIds: [a.workerA] }),
+  "workerGroups:updateWorkerGroup": ({ a, workerB }) => ({
+    groupId: a.group,
+    name: "Taken",
+    workerIds: [workerB],
+  }),
+  "workerGroups:deleteWorkerGroup": ({ a }) => ({ groupId: a.group }),
+
+  "workers:ensureWorker": () => ({}),
+  "workers:listWorkers": () => ({}),
+  "workers:getWorker": ({ a }) => ({ workerId: a.workerA }),
+  "workers:createWorker": () => ({ name: "New", email: "new@example.com", role: "worker" }),
+  "workers:updateWorkerName": ({ a }) => ({ workerId: a.workerA, name: "Taken" }),
+  "workers:setDutyStatus": ({ a }) => ({ workerId: a.workerA, isOnDuty: false }),
+  "workers:setWorkerFloorOverride": ({ a, workerB }) => ({
+    workerId: workerB,
+    floorPlanId: a.floorPlan,
+  }),
+  "workers:generateUploadUrl": () => ({}),
+  "workers:updateWorkerAvatar": ({ a, imageB }) => ({ workerId: a.workerA, storageId: imageB }),
+};
+
+// ─── Checks ──────────────────────────────────────────────────────────────────
+
+/**
+ * Every document that is A's or points at one of A's documents, so a call
+ * that changes, deletes or links to A's data shows up as a difference.
+ */
+async function snapshotOrgA(t: ReturnType<typeof convexTest>, aIds: string[]) {
+  return await t.run(async (ctx) => {
+    const docs: Record<string, unknown> = {};
+    for (const table of Object.keys(schema.tables) as (keyof typeof schema.tables)[]) {
+      for (const doc of await ctx.db.query(table).collect()) {
+        const json = JSON.stringify(doc);
+        if (aIds.some((id) => json.includes(id))) docs[doc._id] = doc;
+      }
+    }
+    return docs;
+  });
+}
+
+describe("tenant isolation", () => {
+  let t: ReturnType<typeof convexTest>;
+  let s: Seed;
+  let aIds: string[];
+
+  beforeEach(async () => {
+    t = convexTest(schema, modules);
+    s = await seed(t);
+    aIds = Object.values(s.a);
+  });
+
+  test("every public function has a cross-org case", () => {
+    expect(publicFunctions.map((f) => f.name).sort()).toEqual(Object.keys(cases).sort());
+  });
+
+  test("the caller is organization B's admin", async () => {
+    const caller = t.withIdentity({ subject: "b-admin" });
+    const org = await caller.query(anyApi.organizations.getMyOrganization, {});
+    expect(org?._id).toBe(s.orgB);
+  });
+
+  test.each(publicFunctions)("$name", async ({ name, isQuery, ref }) => {
+    const args = cases[name](s);
+    const before = await snapshotOrgA(t, aIds);
+
+    const caller = t.withIdentity({ subject: "b-admin" });
+    let result: unknown;
+    try {
+      result = isQuery
+        ? await caller.query(ref as FunctionReference<"query">, args)
+        : await caller.mutation(ref as FunctionReference<"mutation">, args);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConvexError);
+      expect(String((error as ConvexError<string>).data)).toMatch(REJECTED);
+      result = undefined;
+    }
+
+    const leaked = aIds.filter((id) => JSON.stringify(result ?? null).includes(id));
+    expect(leaked).toEqual([]);
+    expect(await snapshotOrgA(t, aIds)).toEqual(before);
+  });
+});
@@ -0,0 +1,77 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { getOrgMember, requireOrgAdmin, requireOrgDoc, requireWorkerInOrg } from "./lib/auth";
+
+/** Trims the name and checks every member belongs to the organization; drops duplicates. */
+async function validateGroup(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  name: string,
+  workerIds: Id<"workers">[]
+) {
+  const trimmed = name.trim();
+  if (!trimmed) throw new ConvexError("Group name is required");
+  const unique = [...new Set(workerIds)];
+  for (const workerId of unique) {
+    await requireWorkerInOrg(ctx, workerId, organizationId);
+  }
+  return { name: trimmed, workerIds: unique };
+}
+
+export const getWorkerGroups = query({
+  args: {},
+  handler: async (ctx) => {
+    const member = await getOrgMember(ctx);
+    if (!member) return [];
+    const groups = await ctx.db
+      .query("workerGroups")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", member.organizationId))
+      .collect();
+    return groups.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+export const createWorkerGroup = mutation({
+  args: { name: v.string(), workerIds: v.array(v.id("workers")) },
+  returns: v.id("workerGroups"),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    const group = await validateGroup(ctx, organizationId, args.name, args.workerIds);
+    const now = Date.now();
+    return await ctx.db.insert("workerGroups", {
+      organizationId,
+      ...group,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updateWorkerGroup = mutation({
+  args: {
+    groupId: v.id("workerGroups"),
+    name: v.string(),
+    workerIds: v.array(v.id("workers")),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.groupId, organizationId, "Group not found");
+    const group = await validateGroup(ctx, organizationId, args.name, args.workerIds);
+    await ctx.db.patch(args.groupId, { ...group, updatedAt: Date.now() });
+    return null;
+  },
+});
+
+export const deleteWorkerGroup = mutation({
+  args: { groupId: v.id("workerGroups") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireOrgDoc(ctx, args.groupId, organizationId, "Group not found");
+    await ctx.db.delete(args.groupId);
+    return null;
+  },
+});
@@ -1,15 +1,15 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { QueryCtx, MutationCtx } from "./_generated/server";
 import { ConvexError } from "convex/values";
-
-async function requireAuth(ctx: QueryCtx | MutationCtx) {
-  const identity = await ctx.auth.getUserIdentity();
-  if (!identity) {
-    throw new ConvexError("Authentication required");
-  }
-  return identity;
-}
+import {
+  getOrgMember,
+  requireAuth,
+  requireOrgAdmin,
+  requireOrgDoc,
+  requireOrgMember,
+  requireWorkerInOrg,
+} from "./lib/auth";
+import { indoorPositionValidator } from "./lib/indoorPositioning";
 
 export const ensureWorker = mutation({
   args: {
@@ -61,35 +61,34 @@ export const listWorkers = query({
       avatarUrl: v.optional(v.string()),
       isOnDuty: v.boolean(),
       lastSeen: v.optional(v.number()),
+      floorOverride: v.optional(v.id("floorPlans")),
       createdAt: v.number(),
       currentLocation: v.optional(
         v.object({
           latitude: v.number(),
           longitude: v.number(),
+          altitude: v.optional(v.number()),
           batteryLevel: v.optional(v.number()),
           isCharging: v.optional(v.boolean()),
+          indoor: v.optional(indoorPositionValidator),
           timestamp: v.number(),
         })
       ),
     })
   ),
   handler: async (ctx) => {
-    const identity = await requireAuth(ctx);
-
-    // Look up the caller's worker record
-    const caller = await ctx.db
-      .query("workers")
-      .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-      .unique();
+    await requireAuth(ctx);
 
-    let workers = await ctx.db.query("workers").collect();
+    // Callers outside an organization see nobody
+    const member = await getOrgMember(ctx);
+    if (!member) return [];
 
-    // Filter by caller's org if they have one
-    if (caller?.organizationId) {
-      workers = workers.filter(
-        (w) => w.organizationId === caller.organizationId
-      );
-    }
+    const workers = await ctx.db
+      .query("workers")
+      .withIndex("by_organizationId", (q) =>
+        q.eq("organizationId", member.organizationId)
+      )
+      .collect();
 
     const workersWithLocations = await Promise.all(
       workers.map(async (worker) => {
@@ -109,8 +108,10 @@ export const listWorkers = query({
             ? {
                 latitude: location.latitude,
                 longitude: location.longitude,
+                altitude: location.altitude,
                 batteryLevel: location.batteryLevel,
                 isCharging: location.isCharging,
+                indoor: location.indoor,
                 timestamp: location.timestamp,
               }
             : undefined,
@@ -137,14 +138,17 @@ export const getWorker = query({
       avatarUrl: v.optional(v.string()),
       isOnDuty: v.boolean(),
       lastSeen: v.optional(v.number()),
+      floorOverride: v.optional(v.id("floorPlans")),
       createdAt: v.number(),
       currentLocation: v.optional(
         v.object({
           latitude: v.number(),
           longitude: v.number(),
           accuracy: v.optional(v.number()),
+          altitude: v.optional(v.number()),
           batteryLevel: v.optional(v.number()),
           isCharging: v.optional(v.boolean()),
+          indoor: v.optional(indoorPositionValidator),
           timestamp: v.number(),
         })
       ),
@@ -153,8 +157,11 @@ export const getWorker = query({
   ),
   handler: async (ctx, args) => {
     await requireAuth(ctx);
+    const member = await getOrgMember(ctx);
+    if (!member) return null;
+
     const worker = await ctx.db.get(args.workerId);
-    if (!worker) return null;
+    if (!worker || worker.organizationId !== member.organizationId) return null;
 
     const location = await ctx.db
       .query("currentWorkerLocations")
@@ -173,8 +180,10 @@ export const getWorker = query({
             latitude: location.latitude,
             longitude: location.longitude,
             accuracy: location.accuracy,
+            altitude: location.altitude,
             batteryLevel: location.batteryLevel,
             isCharging: location.isCharging,
+            indoor: location.indoor,
             timestamp: location.timestamp,
           }
         : undefined,
@@ -190,15 +199,8 @@ export const createWorker = mutation({
   },
   returns: v.id("workers"),
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-
-    // Verify caller is admin
-    const caller = await ctx.db
-      .query("workers")
-      .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-
-    if (!caller || caller.role !== "admin") {
+    const { worker: caller, organizationId } = await requireOrgMember(ctx);
+    if (caller.role !== "admin") {
       throw new ConvexError("Only admins can create workers");
     }
 
@@ -207,6 +209,7 @@ export const createWorker = mutation({
       email: args.email,
       name: args.name,
       role: args.role,
+      organizationId,
       isOnDuty: false,
       createdAt: Date.now(),
     });
@@ -220,16 +223,8 @@ export const updateWorkerName = mutation({
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-
-    const caller = await ctx.db
-      .query("workers")
-      .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-
-    if (!caller) {
-      throw new ConvexError("Caller not found");
-    }
+    const { worker: caller, organizationId } = await requireOrgMember(ctx);
+    await requireWorkerInOrg(ctx, args.workerId, organizationId);
 
     // Allow if caller is admin or is updating own name
     if (caller.role !== "admin" && caller._id !== args.workerId) {
@@ -248,22 +243,46 @@ export const setDutyStatus = mutation({
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await requireAuth(ctx);
+    const { worker: caller, organizationId } = await requireOrgMember(ctx);
+    await requireWorkerInOrg(ctx, args.workerId, organizationId);
+
+    // Allow if caller is admin or is changing own status
+    if (caller.role !== "admin" && caller._id !== args.workerId) {
+      throw new ConvexError("Not authorized to change this worker's duty status");
+    }
+
     await ctx.db.patch(args.workerId, { isOnDuty: args.isOnDuty });
     return null;
   },
 });
 
+/**
+ * Pins a worker to a building level, overriding altitude-based placement.
+ * Pass no floor plan to return the worker to automatic placement. Admins only.
+ */
+export const setWorkerFloorOverride = mutation({
+  args: {
+    workerId: v.id("workers"),
+    floorPlanId: v.optional(v.id("floorPlans")),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { organizationId } = await requireOrgAdmin(ctx);
+    await requireWorkerInOrg(ctx, args.workerId, organizationId);
+    if (args.floorPlanId) {
+      await requireOrgDoc(ctx, args.floorPlanId, organizationId, "Floor plan not found");
+    }
+    await ctx.db.patch(args.workerId, { floorOverride: args.floorPlanId });
+    return null;
+  },
+});
+
 export const generateUploadUrl = mutation({
   args: {},
   returns: v.string(),
   handler: async (ctx) => {
-    const identity = await requireAuth(ctx);
-    const caller = await ctx.db
-      .query("workers")
-      .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-    if (!caller || caller.role !== "admin") {
+    const { worker: caller } = await requireOrgMember(ctx);
+    if (caller.role !== "admin") {
       throw new ConvexError("Only admins can upload files");
     }
     return await ctx.storage.generateUploadUrl();
@@ -277,17 +296,12 @@ export const updateWorkerAvatar = mutation({
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-    const caller = await ctx.db
-      .query("workers")
-      .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-    if (!caller || caller.role !== "admin") {
+    const { worker: caller, organizationId } = await requireOrgMember(ctx);
+    if (caller.role !== "admin") {
       throw new ConvexError("Only admins can update avatars");
     }
 
-    const worker = await ctx.db.get(args.workerId);
-    if (!worker) throw new ConvexError("Worker not found");
+    const worker = await requireWorkerInOrg(ctx, args.workerId, organizationId);
 
     // Delete old avatar from storage if exists
     if (worker.avatarStorageId) {
@@ -0,0 +1,80 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { formatDistanceToNow } from "date-fns";
+import { ShieldAlert, X } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+interface IntrusionAlertsProps {
+  onSelectWorker: (workerId: Id<"workers">) => void;
+}
+
+/**
+ * Banner of unacknowledged restricted-zone intrusions for admins. Each new
+ * intrusion that arrives while the dashboard is open also raises a toast.
+ */
+export function IntrusionAlerts({ onSelectWorker }: IntrusionAlertsProps) {
+  const intrusions = useQuery(api.intrusions.getOpenIntrusions);
+  const acknowledge = useMutation(api.intrusions.acknowledgeIntrusion);
+  const acknowledgeAll = useMutation(api.intrusions.acknowledgeAllIntrusions);
+
+  // Ids already seen; null until the first result so existing alerts don't toast on load
+  const seenRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (!intrusions) return;
+    const seen = seenRef.current;
+    if (seen) {
+      for (const i of intrusions) {
+        if (!seen.has(i._id)) {
+          toast.error(`${i.workerName} entered restricted zone "${i.zoneName}"`, {
+            icon: <ShieldAlert className="h-4 w-4" />,
+          });
+        }
+      }
+    }
+    seenRef.current = new Set([...(seen ?? []), ...intrusions.map((i) => i._id)]);
+  }, [intrusions]);
+
+  if (!intrusions || intrusions.length === 0) return null;
+
+  const latest = intrusions[0];
+  const others = intrusions.length - 1;
+
+  return (
+    <div className="absolute left-1/2 top-3 z-[1100] w-[min(90%,32rem)] -translate-x-1/2 animate-fade">
+      <div className="flex items-center gap-3 rounded-xl border border-red-500/30 bg-red-500/15 px-4 py-2.5 shadow-lg shadow-red-500/10 backdrop-blur-md">
+        <ShieldAlert className="h-5 w-5 shrink-0 text-red-400 animate-pulse" />
+        <button
+          onClick={() => onSelectWorker(latest.workerId)}
+          className="min-w-0 flex-1 text-left font-body"
+        >
+          <p className="truncate text-sm font-medium text-red-200">
+            {latest.workerName} entered <span className="font-semibold">{latest.zoneName}</span>
+          </p>
+          <p className="text-xs text-red-200/50">
+            {formatDistanceToNow(new Date(latest.timestamp), { addSuffix: true })}
+            {latest.soundAlertCommandId && " · alarm sent"}
+            {others > 0 && ` · ${others} more`}
+          </p>
+        </button>
+        {others > 0 && (
+          <button
+            onClick={() => acknowledgeAll()}
+            className="shrink-0 rounded-lg px-2 py-1 text-xs text-red-200/70 hover:bg-red-500/20 hover:text-red-100 transition-colors"
+          >
+            Dismiss all
+          </button>
+        )}
+        <button
+          onClick={() => acknowledge({ intrusionId: latest._id })}
+          className="shrink-0 rounded-lg p-1 text-red-200/60 hover:bg-red-500/20 hover:text-red-100 transition-colors"
+          title="Acknowledge"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import type { Doc, Id } from "../../../convex/_generated/dataModel";
+import type { BroadcastTarget } from "../../../convex/lib/broadcastTarget";
+import { X, Users, UserCheck, Hexagon, UsersRound, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { CommandFields, type CommandType, type SoundType } from "./CommandFields";
+import { CommandTemplatePicker } from "./CommandTemplatePicker";
+
+interface BroadcastCommandProps {
+  workers: { _id: Id<"workers">; name: string; role: "worker" | "admin" }[];
+  onClose: () => void;
+  onSent: (broadcastId: Id<"broadcasts">) => void;
+}
+
+type TargetKind = BroadcastTarget["kind"];
+
+interface GroupDraft {
+  groupId: Id<"workerGroups"> | null;
+  name: string;
+  workerIds: Set<Id<"workers">>;
+}
+
+export function BroadcastCommand({ workers, onClose, onSent }: BroadcastCommandProps) {
+  const zones = useQuery(api.mapZones.getMapZones);
+  const groups = useQuery(api.workerGroups.getWorkerGroups);
+  const sendBroadcast = useMutation(api.broadcasts.sendBroadcast);
+  const createGroup = useMutation(api.workerGroups.createWorkerGroup);
+  const updateGroup = useMutation(api.workerGroups.updateWorkerGroup);
+  const deleteGroup = useMutation(api.workerGroups.deleteWorkerGroup);
+
+  const [kind, setKind] = useState<TargetKind>("all");
+  const [zoneId, setZoneId] = useState<Id<"mapZones"> | "">("");
+  const [groupId, setGroupId] = useState<Id<"workerGroups"> | "">("");
+  const [draft, setDraft] = useState<GroupDraft | null>(null);
+  const [commandType, setCommandType] = useState<CommandType>("sound_and_message");
+  const [soundType, setSoundType] = useState<SoundType>("alarm");
+  const [message, setMessage] = useState("");
+  const [sending, setSending] = useState(false);
+
+  const target: BroadcastTarget | null =
+    kind === "zone"
+      ? zoneId ? { kind, zoneId } : null
+      : kind === "group"
+        ? groupId ? { kind, groupId } : null
+        : { kind };
+
+  const applyTemplate = (template: Doc<"commandTemplates">) => {
+    setCommandType(template.type);
+    setSoundType(template.soundType);
+    setMessage(template.message ?? "");
+  };
+
+  const handleSend = async () => {
+    if (!target) return;
+    setSending(true);
+    try {
+      const { broadcastId, recipientCount } = await sendBroadcast({
+        target,
+        type: commandType,
+        soundType,
+        message: message.trim() || undefined,
+      });
+      toast.success(`Broadcast sent to ${recipientCount} worker${recipientCount !== 1 ? "s" : ""}`);
+      onSent(broadcastId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send broadcast");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSaveGroup = async () => {
+    if (!draft) return;
+    try {
+      const workerIds = [...draft.workerIds];
+      if (draft.groupId) {
+        await updateGroup({ groupId: draft.groupId, name: draft.name, workerIds });
+      } else {
+        setGroupId(await createGroup({ name: draft.name, workerIds }));
+      }
+      setDraft(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save group");
+    }
+  };
+
+  const handleDeleteGroup = async (id: Id<"workerGroups">) => {
+    try {
+      await deleteGroup({ groupId: id });
+      setGroupId("");
+      setDraft(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete group");
+    }
+  };
+
+  const editGroup = (id: Id<"workerGroups">) => {
+    const group = groups?.find((g) => g._id === id);
+    if (!group) return;
+    // Members who have since left the organization drop out on save
+    const current = group.workerIds.filter((w) => workers.some((x) => x._id === w));
+    setDraft({ groupId: id, name: group.name, workerIds: new Set(current) });
+  };
+
+  const toggleDraftWorker = (id: Id<"workers">) => {
+    if (!draft) return;
+    const workerIds = new Set(draft.workerIds);
+    if (workerIds.has(id)) workerIds.delete(id);
+    else workerIds.add(id);
+    setDraft({ ...draft, workerIds });
+  };
+
+  const selectClass =
+    "w-full rounded-xl border border-white/[0.08] bg-surface-3 px-3 py-2 text-sm text-white font-body focus:border-accent/40 focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade">
+      <div className="animate-modal mx-4 flex max-h-[90vh] w-full max-w-md flex-col rounded-2xl border border-white/[0.08] bg-surface-2 shadow-2xl shadow-black/40">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-white/[0.06] px-5 py-4">
+          <div>
+            <h2 className="font-display text-lg font-bold text-white">Broadcast</h2>
+            <p className="text-sm text-white/40 font-body">Send one command to many workers</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-white/30 hover:bg-white/5 hover:text-white/70 transition-all duration-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="space-y-4 overflow-y-auto p-5">
+          {/* Target */}
+          <div>
+            <label className="mb-2 block text-sm font-medium text-white/50 font-body">
+              Recipients
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {(
+                [
+                  { value: "all", label: "Everyone", icon: Users },
+                  { value: "on_duty", label: "On duty", icon: UserCheck },
+                  { value: "zone", label: "Zone", icon: Hexagon },
+                  { value: "group", label: "Group", icon: UsersRound },
+                ] as const
+              ).map(({ value, label, icon: Icon }) => (
+                <button
+                  key={value}
+                  onClick={() => setKind(value)}
+                  className={`flex flex-col items-center gap-1.5 rounded-xl border p-2.5 text-xs font-medium font-body transition-all duration-200 ${
+                    kind === value
+                      ? "border-accent/30 bg-accent/10 text-accent glow-accent-sm"
+                      : "border-white/[0.06] text-white/40 hover:border-white/10 hover:text-white/60"
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {kind === "zone" && (
+              <div className="mt-2 space-y-1">
+                <select
+                  value={zoneId}
+                  onChange={(e) => setZoneId(e.target.value as Id<"mapZones">)}
+                  className={selectClass}
+                >
+                  <option value="">Select a zone…</option>
+                  {zones?.map((z) => (
+                    <option key={z._id} value={z._id}>{z.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-white/30 font-body">
+                  Workers whose last known position is inside the zone
+                </p>
+              </div>
+            )}
+
+            {kind === "group" && !draft && (
+              <div className="mt-2 flex items-center gap-1.5">
+                <select
+                  value={groupId}
+                  onChange={(e) => setGroupId(e.target.value as Id<"workerGroups">)}
+                  className={selectClass}
+                >
+                  <option value="">Select a group…</option>
+                  {groups?.map((g) => (
+                    <option key={g._id} value={g._id}>
+                      {g.name} ({g.workerIds.length})
+                    </option>
+                  ))}
+                </select>
+                {groupId && (
+                  <button
+                    onClick={() => editGroup(groupId)}
+                    title="Edit group"
+                    className="rounded-lg p-2 text-white/40 hover:bg-white/5 hover:text-white/70 transition-colors"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => setDraft({ groupId: null, name: "", workerIds: new Set() })}
+                  title="New group"
+                  className="rounded-lg p-2 text-white/40 hover:bg-white/5 hover:text-white/70 transition-colors"
+                >
+                  <Plus className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+
+            {kind === "group" && draft && (
+              <div className="mt-2 space-y-2 rounded-xl border border-white/[0.06] p-3">
+                <input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Group name"
+                  className={selectClass}
+                />
+                <div className="max-h-40 space-y-0.5 overflow-y-auto">
+                  {workers.map((w) => (
+                    <label
+                      key={w._id}
+                      className="flex cursor-pointer items-center gap-2 rounded-lg px-1.5 py-1 text-sm text-white/70 font-body hover:bg-white/5"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={draft.workerIds.has(w._id)}
+                        onChange={() => toggleDraftWorker(w._id)}
+                      />
+                      <span className="truncate">{w.name}</span>
+                      {w.role === "admin" && <span className="text-xs text-white/30">admin</span>}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  {draft.groupId && (
+                    <button
+                      onClick={() => handleDeleteGroup(draft.groupId!)}
+                      className="flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-rose-400 hover:bg-rose-500/10 transition-colors"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                      Delete
+                    </button>
+                  )}
+                  <div className="flex-1" />
+                  <button
+                    onClick={() => setDraft(null)}
+                    className="rounded-lg px-2.5 py-1 text-xs text-white/40 hover:text-white/70 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveGroup}
+                    disabled={!draft.name.trim() || draft.workerIds.size === 0}
+                    className="rounded-lg bg-accent/15 px-2.5 py-1 text-xs font-medium text-accent hover:bg-accent/25 disabled:opacity-40 transition-colors"
+                  >
+                    Save group
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <CommandTemplatePicker onSelect={applyTemplate} />
+
+          <CommandFields
+            commandType={commandType}
+            onCommandType={setCommandType}
+            soundType={soundType}
+            onSoundType={setSoundType}
+            message={message}
+            onMessage={setMessage}
+          />
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 border-t border-white/[0.06] px-5 py-4">
+          <button
+            onClick={onClose}
+            className="rounded-lg px-4 py-2 text-sm text-white/40 hover:text-white/70 font-body transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={sending || !target || !!draft}
+            className="flex items-center gap-2 rounded-lg bg-accent px-5 py-2 text-sm font-semibold text-surface-0 hover:bg-accent/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200 glow-accent-sm"
+          >
+            {sending ? "Sending..." : "Send Broadcast"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { Volume2, MessageSquare, Bell, AlertTriangle } from "lucide-react";
+import {
+  MESSAGE_PLACEHOLDERS,
+  fillPlaceholders,
+  type MessagePlaceholder,
+} from "../../../convex/lib/placeholders";
+
+export type CommandType = "sound_alert" | "message" | "sound_and_message";
+export type SoundType = "alarm" | "notification" | "urgent";
+
+interface CommandFieldsProps {
+  commandType: CommandType;
+  onCommandType: (type: CommandType) => void;
+  soundType: SoundType;
+  onSoundType: (sound: SoundType) => void;
+  message: string;
+  onMessage: (message: string) => void;
+  /** Known placeholder values for a preview; the rest are filled in when sent. */
+  previewValues?: Partial<Record<MessagePlaceholder, string>>;
+}
+
+/** Command type, sound and message inputs shared by the command dialogs. */
+export function CommandFields({
+  commandType,
+  onCommandType,
+  soundType,
+  onSoundType,
+  message,
+  onMessage,
+  previewValues,
+}: CommandFieldsProps) {
+  const preview = previewValues && message.includes("{") ? fillPlaceholders(message, previewValues) : null;
+
+  return (
+    <>
+      {/* Command Type */}
+      <div>
+        <label className="mb-2 block text-sm font-medium text-white/50 font-body">
+          Command Type
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {(
+            [
+              {
+                value: "sound_alert",
+                label: "Sound",
+                icon: Volume2,
+              },
+              {
+                value: "message",
+                label: "Message",
+                icon: MessageSquare,
+              },
+              {
+                value: "sound_and_message",
+                label: "Both",
+                icon: Bell,
+              },
+            ] as const
+          ).map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => onCommandType(value)}
+              className={`flex flex-col items-center gap-1.5 rounded-xl border p-3.5 text-xs font-medium font-body transition-all duration-200 ${
+                commandType === value
+                  ? "border-accent/30 bg-accent/10 text-accent glow-accent-sm"
+                  : "border-white/[0.06] text-white/40 hover:border-white/10 hover:text-white/60"
+              }`}
+            >
+              <Icon className="h-5 w-5" />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Sound Type */}
+      {commandType !== "message" && (
+        <div>
+          <label className="mb-2 block text-sm font-medium text-white/50 font-body">
+            Sound Type
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            {(
+              [
+                { value: "notification", label: "Normal" },
+                { value: "alarm", label: "Alarm" },
+                { value: "urgent", label: "Urgent" },
+              ] as const
+            ).map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => onSoundType(value)}
+                className={`rounded-xl border p-2.5 text-xs font-medium font-body transition-all duration-200 ${
+                  soundType === value
+                    ? value === "urgent"
+                      ? "border-rose-500/30 bg-rose-500/10 text-rose-400"
+                      : value === "alarm"
+                        ? "border-amber-500/30 bg-amber-500/10 text-amber-400"
+                        : "border-accent/30 bg-accent/10 text-accent"
+                    : "border-white/[0.06] text-white/40 hover:border-white/10 hover:text-white/60"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Message */}
+      {commandType !== "sound_alert" && (
+        <div>
+          <label className="mb-2 block text-sm font-medium text-white/50 font-body">
+            Message
+          </label>
+          <textarea
+            value={message}
+            onChange={(e) => onMessage(e.target.value)}
+            placeholder="Type your message..."
+            rows={3}
+            className="w-full rounded-xl border border-white/[0.08] bg-surface-3 px-3.5 py-2.5 text-sm text-white placeholder:text-white/20 font-body focus:border-accent/40 focus:outline-none input-glow transition-all duration-200 resize-none"
+          />
+          <div className="mt-1.5 flex flex-wrap items-center gap-1">
+            {(Object.keys(MESSAGE_PLACEHOLDERS) as MessagePlaceholder[]).map((name) => (
+              <button
+                key={name}
+                onClick={() => onMessage(`${message}{${name}}`)}
+                title={MESSAGE_PLACEHOLDERS[name]}
+                className="rounded-md bg-white/5 px-1.5 py-0.5 font-mono text-[10px] text-white/40 hover:bg-white/10 hover:text-white/70 transition-colors"
+              >
+                {`{${name}}`}
+              </button>
+            ))}
+          </div>
+          {preview && (
+            <p className="mt-1.5 text-xs text-white/30 font-body">
+              Sends as: <span className="text-white/60">{preview}</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Urgent warning */}
+      {soundType === "urgent" && (
+        <div className="flex items-center gap-2.5 rounded-xl bg-rose-500/10 border border-rose-500/15 p-3.5 text-xs text-rose-400 font-body">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          Urgent alerts play a loud continuous sound on the worker's device
+        </div>
+      )}
+    </>
+  );
+}
@@ -6,23 +6,47 @@ import {
   Volume2,
   MessageSquare,
   Bell,
+  Route,
+  TrendingUp,
 } from "lucide-react";
 import type { Id } from "../../../convex/_generated/dataModel";
+import { CommandThread, type CommandReply } from "./CommandThread";
 
-interface Command {
+export interface CommandHistoryItem {
   _id: Id<"workerCommands">;
   type: "sound_alert" | "message" | "sound_and_message";
   message?: string;
   soundType: "alarm" | "notification" | "urgent";
+  route?: { markerName: string; points: unknown[]; distanceM?: number };
   status: "pending" | "delivered" | "acknowledged";
   createdAt: number;
   deliveredAt?: number;
   acknowledgedAt?: number;
   fromAdminName: string;
+  replies: CommandReply[];
+  nextEscalationAt?: number;
+  escalationAction?: EscalationAction;
+  escalationChain?: {
+    _id: Id<"workerCommands">;
+    action: EscalationAction;
+    workerName: string;
+    soundType: "alarm" | "notification" | "urgent";
+    status: "pending" | "delivered" | "acknowledged";
+    createdAt: number;
+  }[];
 }
 
+type EscalationAction = "resend" | "upgrade_sound" | "notify_backup" | "notify_admins";
+
+const ESCALATION_LABELS: Record<EscalationAction, string> = {
+  resend: "Resent",
+  upgrade_sound: "Sound raised",
+  notify_backup: "Backup notified",
+  notify_admins: "Admin notified",
+};
+
 interface CommandHistoryProps {
-  commands: Command[];
+  commands: CommandHistoryItem[];
 }
 
 function getStatusIcon(status: string) {
@@ -96,6 +120,14 @@ export function CommandHistory({ commands }: CommandHistoryProps) {
               </p>
             )}
 
+            {cmd.route && (
+              <p className="mt-1 flex items-center gap-1.5 text-xs text-accent/70 font-body">
+                <Route className="h-3.5 w-3.5" />
+                Route to {cmd.route.markerName}
+                {cmd.route.distanceM !== undefined && ` · ${cmd.route.distanceM} m`}
+              </p>
+            )}
+
             <div className="mt-2 flex items-center gap-3 text-xs text-white/25 font-body">
               <span>
                 {formatDistanceToNow(new Date(cmd.createdAt), {
@@ -104,7 +136,43 @@ export function CommandHistory({ commands }: CommandHistoryProps) {
               </span>
               <span className="text-white/10">&middot;</span>
               <span>by {cmd.fromAdminName}</span>
+              {cmd.escalationAction && (
+                <>
+                  <span className="text-white/10">&middot;</span>
+                  <span className="text-amber-400/70">
+                    Escalation: {ESCALATION_LABELS[cmd.escalationAction].toLowerCase()}
+                  </span>
+                </>
+              )}
             </div>
+
+            {cmd.escalationChain && cmd.escalationChain.length > 0 && (
+              <ol className="mt-2.5 space-y-1 border-l border-amber-400/20 pl-3">
+                {cmd.escalationChain.map((step) => (
+                  <li key={step._id} className="flex items-center gap-1.5 text-xs text-white/40 font-body">
+                    <TrendingUp className="h-3 w-3 shrink-0 text-amber-400/60" />
+                    <span className="min-w-0 flex-1 truncate">
+                      {ESCALATION_LABELS[step.action]}
+                      {step.action === "notify_backup" || step.action === "notify_admins"
+                        ? ` · ${step.workerName}`
+                        : ` · ${step.soundType}`}
+                    </span>
+                    <span className="shrink-0 text-white/25">
+                      {formatDistanceToNow(new Date(step.createdAt), { addSuffix: true })}
+                    </span>
+                    {getStatusIcon(step.status)}
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            {cmd.nextEscalationAt !== undefined && (
+              <p className="mt-1.5 text-xs text-amber-400/60 font-body">
+                Escalates {formatDistanceToNow(new Date(cmd.nextEscalationAt), { addSuffix: true })} unless acknowledged
+              </p>
+            )}
+
+            <CommandThread commandId={cmd._id} replies={cmd.replies} />
           </div>
 
           <div className="flex shrink-0 items-center gap-1.5">
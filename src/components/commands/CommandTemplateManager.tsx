@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import type { Doc, Id } from "../../../convex/_generated/dataModel";
+import { Plus, Pencil, Trash2, Check, X, MessageSquareText } from "lucide-react";
+import { toast } from "sonner";
+import { CommandFields, type CommandType, type SoundType } from "./CommandFields";
+
+interface TemplateFormState {
+  name: string;
+  type: CommandType;
+  soundType: SoundType;
+  message: string;
+}
+
+const emptyForm: TemplateFormState = {
+  name: "",
+  type: "sound_and_message",
+  soundType: "notification",
+  message: "",
+};
+
+/** Settings section for the organization's library of canned commands. */
+export function CommandTemplateManager() {
+  const templates = useQuery(api.commandTemplates.getCommandTemplates);
+  const createTemplate = useMutation(api.commandTemplates.createCommandTemplate);
+  const updateTemplate = useMutation(api.commandTemplates.updateCommandTemplate);
+  const deleteTemplate = useMutation(api.commandTemplates.deleteCommandTemplate);
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<Id<"commandTemplates"> | null>(null);
+  const [form, setForm] = useState<TemplateFormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  function openCreate() {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  }
+
+  function openEdit(t: Doc<"commandTemplates">) {
+    setEditingId(t._id);
+    setForm({ name: t.name, type: t.type, soundType: t.soundType, message: t.message ?? "" });
+    setShowForm(true);
+  }
+
+  function closeForm() {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(emptyForm);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const fields = { ...form, message: form.message.trim() || undefined };
+      if (editingId) {
+        await updateTemplate({ templateId: editingId, ...fields });
+        toast.success("Template updated");
+      } else {
+        await createTemplate(fields);
+        toast.success("Template created");
+      }
+      closeForm();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(id: Id<"commandTemplates">, name: string) {
+    if (!confirm(`Delete template "${name}"?`)) return;
+    try {
+      await deleteTemplate({ templateId: id });
+      toast.success("Template deleted");
+    } catch {
+      toast.error("Failed to delete template");
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-white/40">
+          <MessageSquareText className="h-4 w-4 text-accent/50" />
+          <span className="text-sm font-medium font-display tracking-wide">Command Templates</span>
+        </div>
+        {!showForm && (
+          <button
+            onClick={openCreate}
+            className="flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-accent hover:bg-accent/10 transition-colors"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            New template
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="space-y-4 rounded-xl border border-white/[0.06] p-4">
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. Return to base"
+            className="w-full rounded-lg border border-white/[0.08] bg-surface-3 px-3 py-2 text-sm text-white placeholder-white/20 font-body focus:border-accent/50 focus:outline-none transition-colors"
+          />
+          <CommandFields
+            commandType={form.type}
+            onCommandType={(type) => setForm({ ...form, type })}
+            soundType={form.soundType}
+            onSoundType={(soundType) => setForm({ ...form, soundType })}
+            message={form.message}
+            onMessage={(message) => setForm({ ...form, message })}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={closeForm}
+              className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm text-white/50 hover:bg-white/5 hover:text-white/80 transition-all duration-200"
+            >
+              <X className="h-3.5 w-3.5" />
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!form.name.trim() || saving}
+              className="flex items-center gap-1.5 rounded-lg bg-accent px-4 py-1.5 text-sm font-semibold text-surface-0 hover:bg-accent/90 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              <Check className="h-3.5 w-3.5" />
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {templates?.length === 0 && !showForm && (
+        <p className="text-xs text-white/25 font-body leading-relaxed">
+          Save messages you send often, like "Return to base", and pick them
+          with one click when sending a command.
+        </p>
+      )}
+
+      <div className="space-y-1.5">
+        {templates?.map((t) => (
+          <div
+            key={t._id}
+            className="group flex items-start gap-3 rounded-xl border border-white/[0.06] px-3 py-2.5 font-body"
+          >
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="truncate text-sm font-medium text-white">{t.name}</span>
+                <span className="text-xs text-white/25 font-mono">({t.soundType})</span>
+              </div>
+              {t.message && <p className="mt-0.5 line-clamp-2 text-xs text-white/40">{t.message}</p>}
+            </div>
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => openEdit(t)}
+                className="rounded-lg p-1.5 text-white/30 hover:bg-white/5 hover:text-white/70 transition-all duration-200"
+                title="Edit"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={() => handleDelete(t._id, t.name)}
+                className="rounded-lg p-1.5 text-white/30 hover:bg-red-500/10 hover:text-red-400 transition-all duration-200"
+                title="Delete"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
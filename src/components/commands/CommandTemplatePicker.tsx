@@ -0,0 +1,40 @@
+import { useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import type { Doc } from "../../../convex/_generated/dataModel";
+
+interface CommandTemplatePickerProps {
+  onSelect: (template: Doc<"commandTemplates">) => void;
+}
+
+const SOUND_DOT = {
+  notification: "bg-accent",
+  alarm: "bg-amber-400",
+  urgent: "bg-rose-400",
+} as const;
+
+/** One-click chips for the organization's command templates. */
+export function CommandTemplatePicker({ onSelect }: CommandTemplatePickerProps) {
+  const templates = useQuery(api.commandTemplates.getCommandTemplates);
+  if (!templates?.length) return null;
+
+  return (
+    <div>
+      <label className="mb-2 block text-sm font-medium text-white/50 font-body">
+        Templates
+      </label>
+      <div className="flex flex-wrap gap-1.5">
+        {templates.map((t) => (
+          <button
+            key={t._id}
+            onClick={() => onSelect(t)}
+            title={t.message}
+            className="flex items-center gap-1.5 rounded-lg border border-white/[0.06] px-2.5 py-1 text-xs text-white/60 font-body hover:border-accent/30 hover:bg-accent/10 hover:text-accent transition-all duration-200"
+          >
+            <span className={`h-1.5 w-1.5 rounded-full ${SOUND_DOT[t.soundType]}`} />
+            {t.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
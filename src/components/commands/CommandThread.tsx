@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { format } from "date-fns";
+import { CornerDownRight, SendHorizontal } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+export interface CommandReply {
+  _id: Id<"commandReplies">;
+  authorName: string;
+  fromRecipient: boolean;
+  text: string;
+  quickResponse?: "on_my_way" | "need_help" | "cant_respond";
+  isUnread: boolean;
+  createdAt: number;
+}
+
+interface CommandThreadProps {
+  commandId: Id<"workerCommands">;
+  replies: CommandReply[];
+}
+
+const QUICK_RESPONSE_STYLES = {
+  on_my_way: "border-neon/20 bg-neon/10 text-neon",
+  need_help: "border-rose-500/20 bg-rose-500/10 text-rose-400",
+  cant_respond: "border-amber-500/20 bg-amber-500/10 text-amber-400",
+} as const;
+
+/** Replies under a command, worker on the left and admins on the right, with an answer box. */
+export function CommandThread({ commandId, replies }: CommandThreadProps) {
+  const reply = useMutation(api.commands.replyToCommand);
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    if (!text.trim()) return;
+    setSending(true);
+    try {
+      await reply({ commandId, text });
+      setText("");
+      setOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send reply");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mt-2.5 space-y-1.5">
+      {replies.map((r) => (
+        <div key={r._id} className={`flex ${r.fromRecipient ? "justify-start" : "justify-end"}`}>
+          <div
+            className={`max-w-[85%] rounded-xl border px-3 py-1.5 font-body ${
+              r.quickResponse
+                ? QUICK_RESPONSE_STYLES[r.quickResponse]
+                : r.fromRecipient
+                  ? "border-white/[0.06] bg-white/[0.04] text-white/80"
+                  : "border-accent/15 bg-accent/10 text-white/80"
+            } ${r.isUnread ? "ring-1 ring-accent/40" : ""}`}
+          >
+            <p className="whitespace-pre-wrap break-words text-sm">{r.text}</p>
+            <p className="mt-0.5 text-[10px] opacity-50">
+              {r.authorName} · {format(new Date(r.createdAt), "HH:mm")}
+            </p>
+          </div>
+        </div>
+      ))}
+
+      {open ? (
+        <div className="flex items-end gap-1.5">
+          <textarea
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              } else if (e.key === "Escape") {
+                setOpen(false);
+              }
+            }}
+            placeholder="Reply..."
+            rows={1}
+            className="min-w-0 flex-1 resize-none rounded-lg border border-white/[0.08] bg-surface-3 px-3 py-1.5 text-sm text-white placeholder:text-white/20 font-body focus:border-accent/40 focus:outline-none"
+          />
+          <button
+            onClick={handleSend}
+            disabled={sending || !text.trim()}
+            className="rounded-lg bg-accent/15 p-2 text-accent hover:bg-accent/25 disabled:opacity-40 transition-colors"
+          >
+            <SendHorizontal className="h-4 w-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setOpen(true)}
+          className="flex items-center gap-1 text-xs text-white/30 hover:text-accent font-body transition-colors"
+        >
+          <CornerDownRight className="h-3 w-3" />
+          Reply
+        </button>
+      )}
+    </div>
+  );
+}
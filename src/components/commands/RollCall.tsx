@@ -0,0 +1,106 @@
+import { useQuery } from "convex/react";
+import { formatDistanceToNow } from "date-fns";
+import { CheckCircle2, Clock, Radio, X } from "lucide-react";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+interface RollCallProps {
+  broadcastId: Id<"broadcasts">;
+  onSelectBroadcast: (id: Id<"broadcasts">) => void;
+  onSelectWorker: (id: Id<"workers">) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES = {
+  pending: { label: "Not delivered", className: "text-white/30" },
+  delivered: { label: "Delivered", className: "text-amber-400" },
+  acknowledged: { label: "Acknowledged", className: "text-neon" },
+} as const;
+
+/** Live acknowledgement roll call for a broadcast, updating as workers respond. */
+export function RollCall({ broadcastId, onSelectBroadcast, onSelectWorker, onClose }: RollCallProps) {
+  const rollCall = useQuery(api.broadcasts.getRollCall, { broadcastId });
+  const recent = useQuery(api.broadcasts.getRecentBroadcasts);
+
+  if (rollCall === null) return null;
+
+  const total = rollCall?.recipients.length ?? 0;
+  const acknowledged = rollCall?.recipients.filter((r) => r.status === "acknowledged").length ?? 0;
+  const delivered = rollCall?.recipients.filter((r) => r.status !== "pending").length ?? 0;
+
+  return (
+    <div className="glass-strong absolute right-3 top-16 z-[1100] flex max-h-[70%] w-72 flex-col rounded-xl shadow-lg font-body animate-fade">
+      <div className="flex items-center gap-2 border-b border-white/5 px-3 py-2.5">
+        <Radio className="h-4 w-4 shrink-0 text-accent" />
+        <select
+          value={broadcastId}
+          onChange={(e) => onSelectBroadcast(e.target.value as Id<"broadcasts">)}
+          className="min-w-0 flex-1 truncate bg-transparent text-sm font-medium text-white outline-none"
+        >
+          {recent?.map((b) => (
+            <option key={b._id} value={b._id} className="bg-surface-2">
+              {b.targetLabel} · {formatDistanceToNow(new Date(b.createdAt), { addSuffix: true })}
+            </option>
+          ))}
+        </select>
+        <button onClick={onClose} className="text-white/30 hover:text-white/70">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {rollCall && (
+        <>
+          <div className="space-y-1.5 border-b border-white/5 px-3 py-2.5">
+            {rollCall.message && <p className="line-clamp-2 text-xs text-white/60">“{rollCall.message}”</p>}
+            <div className="flex items-baseline justify-between text-xs">
+              <span className="text-white/40">
+                {rollCall.fromAdminName} ·{" "}
+                {formatDistanceToNow(new Date(rollCall.createdAt), { addSuffix: true })}
+              </span>
+              <span className="font-mono text-white/70">
+                {acknowledged}/{total}
+              </span>
+            </div>
+            <div className="relative h-1.5 overflow-hidden rounded-full bg-white/5">
+              <div
+                className="absolute inset-y-0 left-0 bg-amber-400/40"
+                style={{ width: `${total ? (delivered / total) * 100 : 0}%` }}
+              />
+              <div
+                className="absolute inset-y-0 left-0 bg-neon"
+                style={{ width: `${total ? (acknowledged / total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto py-1">
+            {rollCall.recipients.map((r) => {
+              const style = STATUS_STYLES[r.status];
+              const at = r.acknowledgedAt ?? r.deliveredAt;
+              return (
+                <button
+                  key={r.commandId}
+                  onClick={() => onSelectWorker(r.workerId)}
+                  className="flex w-full items-center gap-2 px-3 py-1.5 text-left hover:bg-white/5 transition-colors"
+                >
+                  {r.status === "acknowledged" ? (
+                    <CheckCircle2 className="h-3.5 w-3.5 shrink-0 text-neon" />
+                  ) : (
+                    <Clock className={`h-3.5 w-3.5 shrink-0 ${style.className}`} />
+                  )}
+                  <span className="min-w-0 flex-1 truncate text-sm text-white/80">
+                    {r.name}
+                    {!r.isOnDuty && <span className="ml-1.5 text-xs text-white/25">off duty</span>}
+                  </span>
+                  <span className={`shrink-0 text-xs ${style.className}`}>
+                    {at ? formatDistanceToNow(new Date(at)) : style.label}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
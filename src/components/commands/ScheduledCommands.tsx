@@ -0,0 +1,495 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { format } from "date-fns";
+import { api } from "../../../convex/_generated/api";
+import type { Doc, Id } from "../../../convex/_generated/dataModel";
+import type { CommandTarget } from "../../../convex/lib/broadcastTarget";
+import type { RecurrenceType } from "../../../convex/lib/recurrence";
+import { X, Plus, Pencil, Trash2, Clock, Repeat, ArrowLeft } from "lucide-react";
+import { toast } from "sonner";
+import { CommandFields, type CommandType, type SoundType } from "./CommandFields";
+import { CommandTemplatePicker } from "./CommandTemplatePicker";
+
+interface ScheduledCommandsProps {
+  workers: { _id: Id<"workers">; name: string }[];
+  onClose: () => void;
+}
+
+type ScheduledCommand = Doc<"scheduledCommands"> & { targetLabel: string };
+
+interface ScheduleDraft {
+  scheduledCommandId: Id<"scheduledCommands"> | null;
+  target: string;  // encoded for the <select>, see encodeTarget
+  commandType: CommandType;
+  soundType: SoundType;
+  message: string;
+  repeating: boolean;
+  runAt: string;  // datetime-local value
+  recurrenceType: RecurrenceType;
+  weekdays: number[];
+  startDate: string;
+  endDate: string;
+  timeOfDay: string;
+  timeZone: string;
+}
+
+const DOW_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function encodeTarget(target: CommandTarget): string {
+  switch (target.kind) {
+    case "worker":
+      return `worker:${target.workerId}`;
+    case "zone":
+      return `zone:${target.zoneId}`;
+    case "group":
+      return `group:${target.groupId}`;
+    default:
+      return target.kind;
+  }
+}
+
+function decodeTarget(value: string): CommandTarget | null {
+  const [kind, id] = value.split(":");
+  switch (kind) {
+    case "all":
+    case "on_duty":
+      return { kind };
+    case "worker":
+      return { kind, workerId: id as Id<"workers"> };
+    case "zone":
+      return { kind, zoneId: id as Id<"mapZones"> };
+    case "group":
+      return { kind, groupId: id as Id<"workerGroups"> };
+    default:
+      return null;
+  }
+}
+
+function emptyDraft(): ScheduleDraft {
+  return {
+    scheduledCommandId: null,
+    target: "",
+    commandType: "sound_and_message",
+    soundType: "notification",
+    message: "",
+    repeating: false,
+    runAt: "",
+    recurrenceType: "weekdays",
+    weekdays: [],
+    startDate: format(new Date(), "yyyy-MM-dd"),
+    endDate: "",
+    timeOfDay: "",
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+}
+
+function draftFrom(s: ScheduledCommand): ScheduleDraft {
+  return {
+    ...emptyDraft(),
+    scheduledCommandId: s._id,
+    target: encodeTarget(s.target),
+    commandType: s.type,
+    soundType: s.soundType,
+    message: s.message ?? "",
+    repeating: !!s.recurrence,
+    runAt: s.runAt !== undefined ? format(new Date(s.runAt), "yyyy-MM-dd'T'HH:mm") : "",
+    ...(s.recurrence && {
+      recurrenceType: s.recurrence.recurrenceType,
+      weekdays: s.recurrence.weekdays ?? [],
+      startDate: s.recurrence.startDate,
+      endDate: s.recurrence.endDate ?? "",
+      timeOfDay: s.recurrence.timeOfDay,
+      timeZone: s.recurrence.timeZone,
+    }),
+  };
+}
+
+function describeRecurrence(recurrence: NonNullable<Doc<"scheduledCommands">["recurrence"]>) {
+  const days =
+    recurrence.recurrenceType === "daily"
+      ? "Every day"
+      : recurrence.recurrenceType === "weekdays"
+        ? "Weekdays"
+        : (recurrence.weekdays ?? []).map((d) => DOW_LABELS[d]).join(", ");
+  return `${days} at ${recurrence.timeOfDay}${recurrence.endDate ? ` until ${recurrence.endDate}` : ""}`;
+}
+
+/** Upcoming one-off and recurring commands, with an editor to queue new ones. */
+export function ScheduledCommands({ workers, onClose }: ScheduledCommandsProps) {
+  const schedules = useQuery(api.scheduledCommands.getScheduledCommands);
+  const zones = useQuery(api.mapZones.getMapZones);
+  const groups = useQuery(api.workerGroups.getWorkerGroups);
+  const createSchedule = useMutation(api.scheduledCommands.createScheduledCommand);
+  const updateSchedule = useMutation(api.scheduledCommands.updateScheduledCommand);
+  const cancelSchedule = useMutation(api.scheduledCommands.cancelScheduledCommand);
+
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const update = (fields: Partial<ScheduleDraft>) => {
+    if (draft) setDraft({ ...draft, ...fields });
+  };
+
+  const applyTemplate = (template: Doc<"commandTemplates">) =>
+    update({
+      commandType: template.type,
+      soundType: template.soundType,
+      message: template.message ?? "",
+    });
+
+  const toggleWeekday = (dow: number) => {
+    if (!draft) return;
+    if (draft.recurrenceType === "weekly") {
+      update({ weekdays: [dow] });
+    } else {
+      update({
+        weekdays: draft.weekdays.includes(dow)
+          ? draft.weekdays.filter((d) => d !== dow)
+          : [...draft.weekdays, dow],
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const target = decodeTarget(draft.target);
+    if (!target) return;
+    setSaving(true);
+    try {
+      const fields = {
+        target,
+        type: draft.commandType,
+        soundType: draft.soundType,
+        message: draft.message.trim() || undefined,
+        ...(draft.repeating
+          ? {
+              recurrence: {
+                recurrenceType: draft.recurrenceType,
+                weekdays:
+                  draft.recurrenceType === "weekly" || draft.recurrenceType === "custom"
+                    ? draft.weekdays
+                    : undefined,
+                startDate: draft.startDate,
+                endDate: draft.endDate || undefined,
+                timeOfDay: draft.timeOfDay,
+                timeZone: draft.timeZone,
+              },
+            }
+          : { runAt: new Date(draft.runAt).getTime() }),
+      };
+      if (draft.scheduledCommandId) {
+        await updateSchedule({ scheduledCommandId: draft.scheduledCommandId, ...fields });
+        toast.success("Scheduled command updated");
+      } else {
+        await createSchedule(fields);
+        toast.success("Command scheduled");
+      }
+      setDraft(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to schedule command");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (s: ScheduledCommand) => {
+    if (!confirm(`Cancel the scheduled command to ${s.targetLabel}?`)) return;
+    try {
+      await cancelSchedule({ scheduledCommandId: s._id });
+      toast.success("Scheduled command cancelled");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel");
+    }
+  };
+
+  const canSave =
+    !!draft &&
+    !!decodeTarget(draft.target) &&
+    (draft.repeating
+      ? !!draft.timeOfDay &&
+        !!draft.startDate &&
+        (draft.recurrenceType === "daily" ||
+          draft.recurrenceType === "weekdays" ||
+          draft.weekdays.length > 0)
+      : !!draft.runAt);
+
+  const inputClass =
+    "w-full rounded-xl border border-white/[0.08] bg-surface-3 px-3 py-2 text-sm text-white font-body focus:border-accent/40 focus:outline-none";
+  const labelClass = "mb-2 block text-sm font-medium text-white/50 font-body";
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade">
+      <div className="animate-modal mx-4 flex max-h-[90vh] w-full max-w-md flex-col rounded-2xl border border-white/[0.08] bg-surface-2 shadow-2xl shadow-black/40">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-white/[0.06] px-5 py-4">
+          <div className="flex items-center gap-2">
+            {draft && (
+              <button
+                onClick={() => setDraft(null)}
+                className="rounded-lg p-1.5 text-white/30 hover:bg-white/5 hover:text-white/70 transition-all duration-200"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </button>
+            )}
+            <div>
+              <h2 className="font-display text-lg font-bold text-white">
+                {draft
+                  ? draft.scheduledCommandId
+                    ? "Edit Scheduled Command"
+                    : "Schedule Command"
+                  : "Scheduled Commands"}
+              </h2>
+              <p className="text-sm text-white/40 font-body">
+                Send a command later, once or on a schedule
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-white/30 hover:bg-white/5 hover:text-white/70 transition-all duration-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        {!draft ? (
+          <div className="space-y-1.5 overflow-y-auto p-5">
+            {schedules?.length === 0 && (
+              <p className="py-6 text-center text-sm text-white/30 font-body">
+                Nothing scheduled. Queue a shift-end reminder or a daily lunch break call.
+              </p>
+            )}
+            {schedules?.map((s) => (
+              <div
+                key={s._id}
+                className="group flex items-start gap-3 rounded-xl border border-white/[0.06] px-3 py-2.5 font-body"
+              >
+                {s.recurrence ? (
+                  <Repeat className="mt-0.5 h-4 w-4 shrink-0 text-accent/60" />
+                ) : (
+                  <Clock className="mt-0.5 h-4 w-4 shrink-0 text-accent/60" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate text-sm font-medium text-white">{s.targetLabel}</span>
+                    <span className="text-xs text-white/25 font-mono">({s.soundType})</span>
+                  </div>
+                  {s.message && <p className="mt-0.5 line-clamp-2 text-xs text-white/40">{s.message}</p>}
+                  <p className="mt-0.5 text-xs text-white/30">
+                    {s.recurrence && `${describeRecurrence(s.recurrence)} · `}
+                    Next {format(new Date(s.nextRunAt), "EEE d MMM, HH:mm")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => setDraft(draftFrom(s))}
+                    className="rounded-lg p-1.5 text-white/30 hover:bg-white/5 hover:text-white/70 transition-all duration-200"
+                    title="Edit"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleCancel(s)}
+                    className="rounded-lg p-1.5 text-white/30 hover:bg-red-500/10 hover:text-red-400 transition-all duration-200"
+                    title="Cancel"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4 overflow-y-auto p-5">
+            {/* Target */}
+            <div>
+              <label className={labelClass}>Recipients</label>
+              <select
+                value={draft.target}
+                onChange={(e) => update({ target: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Select recipients…</option>
+                <optgroup label="Many workers">
+                  <option value="all">Everyone</option>
+                  <option value="on_duty">On duty</option>
+                </optgroup>
+                {!!groups?.length && (
+                  <optgroup label="Groups">
+                    {groups.map((g) => (
+                      <option key={g._id} value={`group:${g._id}`}>
+                        {g.name} ({g.workerIds.length})
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+                {!!zones?.length && (
+                  <optgroup label="Zones">
+                    {zones.map((z) => (
+                      <option key={z._id} value={`zone:${z._id}`}>{z.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="Workers">
+                  {workers.map((w) => (
+                    <option key={w._id} value={`worker:${w._id}`}>{w.name}</option>
+                  ))}
+                </optgroup>
+              </select>
+              <p className="mt-1 text-xs text-white/30 font-body">
+                Zones, groups and on-duty status are checked when the command is sent
+              </p>
+            </div>
+
+            <CommandTemplatePicker onSelect={applyTemplate} />
+
+            <CommandFields
+              commandType={draft.commandType}
+              onCommandType={(commandType) => update({ commandType })}
+              soundType={draft.soundType}
+              onSoundType={(soundType) => update({ soundType })}
+              message={draft.message}
+              onMessage={(message) => update({ message })}
+            />
+
+            {/* When */}
+            <div>
+              <label className={labelClass}>When</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(
+                  [
+                    { repeating: false, label: "One time", icon: Clock },
+                    { repeating: true, label: "Repeating", icon: Repeat },
+                  ] as const
+                ).map(({ repeating, label, icon: Icon }) => (
+                  <button
+                    key={label}
+                    onClick={() => update({ repeating })}
+                    className={`flex items-center justify-center gap-1.5 rounded-xl border p-2.5 text-xs font-medium font-body transition-all duration-200 ${
+                      draft.repeating === repeating
+                        ? "border-accent/30 bg-accent/10 text-accent"
+                        : "border-white/[0.06] text-white/40 hover:border-white/10 hover:text-white/60"
+                    }`}
+                  >
+                    <Icon className="h-3.5 w-3.5" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {!draft.repeating ? (
+                <input
+                  type="datetime-local"
+                  value={draft.runAt}
+                  onChange={(e) => update({ runAt: e.target.value })}
+                  className={`mt-2 ${inputClass}`}
+                />
+              ) : (
+                <div className="mt-3 space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {(["daily", "weekdays", "weekly", "custom"] as RecurrenceType[]).map((rt) => (
+                      <button
+                        key={rt}
+                        onClick={() => update({ recurrenceType: rt, weekdays: [] })}
+                        className={`rounded-lg px-3 py-1.5 text-xs font-medium capitalize transition-all duration-200 ${
+                          draft.recurrenceType === rt
+                            ? "bg-accent text-surface-0"
+                            : "text-white/50 bg-white/[0.03] hover:bg-white/[0.06] hover:text-white/80"
+                        }`}
+                      >
+                        {rt}
+                      </button>
+                    ))}
+                  </div>
+
+                  {(draft.recurrenceType === "weekly" || draft.recurrenceType === "custom") && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {DOW_LABELS.map((label, i) => (
+                        <button
+                          key={i}
+                          onClick={() => toggleWeekday(i)}
+                          className={`h-8 w-8 rounded-lg text-xs font-medium transition-all duration-200 ${
+                            draft.weekdays.includes(i)
+                              ? "bg-accent text-surface-0"
+                              : "bg-white/[0.04] text-white/40 hover:bg-white/[0.08] hover:text-white/70"
+                          }`}
+                        >
+                          {label.charAt(0)}
+                        </button>
+                      ))}
+                      <span className="self-center text-xs text-white/30">
+                        {draft.recurrenceType === "weekly" ? "(pick one)" : "(pick multiple)"}
+                      </span>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className="mb-1.5 block text-xs font-medium text-white/50">Time</label>
+                      <input
+                        type="time"
+                        value={draft.timeOfDay}
+                        onChange={(e) => update({ timeOfDay: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="mb-1.5 block text-xs font-medium text-white/50">From</label>
+                      <input
+                        type="date"
+                        value={draft.startDate}
+                        onChange={(e) => update({ startDate: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="mb-1.5 block text-xs font-medium text-white/50">Until</label>
+                      <input
+                        type="date"
+                        value={draft.endDate}
+                        min={draft.startDate}
+                        onChange={(e) => update({ endDate: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-white/30 font-body">Times are in {draft.timeZone}</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 border-t border-white/[0.06] px-5 py-4">
+          {draft ? (
+            <>
+              <button
+                onClick={() => setDraft(null)}
+                className="rounded-lg px-4 py-2 text-sm text-white/40 hover:text-white/70 font-body transition-colors"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || !canSave}
+                className="flex items-center gap-2 rounded-lg bg-accent px-5 py-2 text-sm font-semibold text-surface-0 hover:bg-accent/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200 glow-accent-sm"
+              >
+                {saving ? "Saving..." : draft.scheduledCommandId ? "Save" : "Schedule"}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setDraft(emptyDraft())}
+              className="flex items-center gap-1.5 rounded-lg bg-accent px-5 py-2 text-sm font-semibold text-surface-0 hover:bg-accent/90 transition-all duration-200 glow-accent-sm"
+            >
+              <Plus className="h-4 w-4" />
+              Schedule command
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,21 @@ import { useState } from "react";
 import { useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import {
+  MIN_CALIBRATION_POINTS,
+  calibrationQuality,
+  type CalibrationMode,
+} from "../../../convex/lib/geoTransform";
 
 interface CalibPoint { px: number; py: number; lat: number; lng: number }
 
 interface CalibrationToolProps {
   floorPlanId: Id<"floorPlans">;
   existingPoints: CalibPoint[];
+  existingMode: CalibrationMode;
+  /** The plan's image was replaced; offer to move zones and markers over from the old one. */
+  canReproject: boolean;
   displayW: number;
   displayH: number;
   imageWidth: number;
@@ -15,9 +24,22 @@ interface CalibrationToolProps {
   onClose: () => void;
 }
 
+function formatMetres(m: number): string {
+  if (!Number.isFinite(m)) return "—";
+  return m < 10 ? `${m.toFixed(2)} m` : `${m.toFixed(1)} m`;
+}
+
+function rmsColor(m: number): string {
+  if (m <= 1) return "text-neon";
+  if (m <= 3) return "text-amber-400";
+  return "text-red-400";
+}
+
 export function CalibrationTool({
   floorPlanId,
   existingPoints,
+  existingMode,
+  canReproject,
   displayW,
   displayH,
   imageWidth,
@@ -29,6 +51,12 @@ export function CalibrationTool({
   const [latInput, setLatInput] = useState("");
   const [lngInput, setLngInput] = useState("");
   const [saving, setSaving] = useState(false);
+  const [mode, setMode] = useState<CalibrationMode>(existingMode);
+  const [reproject, setReproject] = useState(true);
+
+  const minPoints = MIN_CALIBRATION_POINTS[mode];
+  const quality = calibrationQuality(draftPoints, mode);
+  const outlierCount = quality?.outliers.filter(Boolean).length ?? 0;
 
   const updateCalibration = useMutation(api.floorPlans.updateFloorPlanCalibration);
 
@@ -62,8 +90,15 @@ export function CalibrationTool({
   const handleSave = async () => {
     setSaving(true);
     try {
-      await updateCalibration({ floorPlanId, calibrationPoints: draftPoints });
+      await updateCalibration({
+        floorPlanId,
+        calibrationPoints: draftPoints,
+        calibrationMode: mode,
+        reproject: canReproject && reproject,
+      });
       onClose();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not save calibration");
     } finally {
       setSaving(false);
     }
@@ -78,16 +113,17 @@ export function CalibrationTool({
       {draftPoints.map((p, i) => {
         const cx = (p.px / imageWidth) * displayW;
         const cy = (p.py / imageHeight) * displayH;
+        const stroke = quality?.outliers[i] ? "#f87171" : "#f59e0b";
         return (
           <g key={i}>
-            <line x1={cx - 8} y1={cy} x2={cx + 8} y2={cy} stroke="#f59e0b" strokeWidth={2} />
-            <line x1={cx} y1={cy - 8} x2={cx} y2={cy + 8} stroke="#f59e0b" strokeWidth={2} />
-            <circle cx={cx} cy={cy} r={5} fill="none" stroke="#f59e0b" strokeWidth={1.5} />
+            <line x1={cx - 8} y1={cy} x2={cx + 8} y2={cy} stroke={stroke} strokeWidth={2} />
+            <line x1={cx} y1={cy - 8} x2={cx} y2={cy + 8} stroke={stroke} strokeWidth={2} />
+            <circle cx={cx} cy={cy} r={5} fill="none" stroke={stroke} strokeWidth={1.5} />
             <text
               x={cx + 10}
               y={cy - 8}
               fontSize={10}
-              fill="#f59e0b"
+              fill={stroke}
               stroke="rgba(0,0,0,0.5)"
               strokeWidth={3}
               paintOrder="stroke"
@@ -139,9 +175,30 @@ export function CalibrationTool({
           </div>
           <p className="text-white/40 text-xs leading-relaxed">
             Click a recognizable point on the floor plan, then enter its real-world GPS coordinates.
-            You need at least 2 points.
+            You need at least {minPoints} points.
           </p>
 
+          {/* Transform model */}
+          <div className="grid grid-cols-2 gap-1 rounded-lg p-1" style={{ background: "rgba(255,255,255,0.04)" }}>
+            {(
+              [
+                { value: "affine", label: "Affine", hint: "Scanned or exported plans" },
+                { value: "homography", label: "Perspective", hint: "Photos taken at an angle · 4+ points" },
+              ] as const
+            ).map((m) => (
+              <button
+                key={m.value}
+                onClick={() => setMode(m.value)}
+                title={m.hint}
+                className={`rounded-md py-1 text-xs font-medium transition-colors ${
+                  mode === m.value ? "bg-amber-500/20 text-amber-400" : "text-white/40 hover:text-white/70"
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+
           {/* GPS input for pending point */}
           {pendingPixel && (
             <div className="rounded-xl p-3 space-y-2" style={{ background: "rgba(255,255,255,0.04)", border: "1px solid rgba(255,255,255,0.08)" }}>
@@ -188,9 +245,17 @@ export function CalibrationTool({
               <p className="text-white/40 text-xs">Calibration points ({draftPoints.length})</p>
               {draftPoints.map((p, i) => (
                 <div key={i} className="flex items-center justify-between rounded-lg px-2 py-1.5" style={{ background: "rgba(255,255,255,0.04)" }}>
-                  <span className="text-xs text-amber-400 font-mono">
+                  <span className={`text-xs font-mono ${quality?.outliers[i] ? "text-red-400" : "text-amber-400"}`}>
                     #{i + 1} {p.lat.toFixed(4)}, {p.lng.toFixed(4)}
                   </span>
+                  {quality && quality.redundancy > 0 && (
+                    <span
+                      className={`ml-auto text-[10px] font-mono ${quality.outliers[i] ? "text-red-400" : "text-white/40"}`}
+                      title="Distance between this point's GPS position and where the fitted calibration puts it"
+                    >
+                      {formatMetres(quality.residualsM[i])}
+                    </span>
+                  )}
                   <button
                     onClick={() => handleRemove(i)}
                     className="text-white/30 hover:text-red-400 text-xs ml-2"
@@ -202,16 +267,54 @@ export function CalibrationTool({
             </div>
           )}
 
-          {draftPoints.length < 2 && !pendingPixel && (
+          {/* Fit quality */}
+          {quality && (
+            <div className="rounded-lg px-3 py-2 text-xs space-y-1" style={{ background: "rgba(255,255,255,0.04)" }}>
+              {quality.redundancy === 0 ? (
+                <p className="text-white/40">
+                  Exact fit — add another point to measure accuracy.
+                </p>
+              ) : (
+                <>
+                  <p className="flex justify-between text-white/60">
+                    <span>RMS error</span>
+                    <span className={`font-mono ${rmsColor(quality.rmsM)}`}>{formatMetres(quality.rmsM)}</span>
+                  </p>
+                  {outlierCount > 0 && (
+                    <p className="text-red-400">
+                      {outlierCount} point{outlierCount !== 1 ? "s" : ""} disagree with the rest — check or remove {outlierCount !== 1 ? "them" : "it"}.
+                    </p>
+                  )}
+                </>
+              )}
+              {mode === "homography" && quality.mode !== "homography" && (
+                <p className="text-amber-400/80">Using affine until there are 4 points.</p>
+              )}
+            </div>
+          )}
+
+          {draftPoints.length < minPoints && !pendingPixel && (
             <p className="text-white/30 text-xs">
               Click on the floor plan image to place a calibration point.
             </p>
           )}
 
+          {canReproject && (
+            <label className="flex items-start gap-2 rounded-lg px-3 py-2 text-xs text-white/60 cursor-pointer" style={{ background: "rgba(255,255,255,0.04)" }}>
+              <input
+                type="checkbox"
+                checked={reproject}
+                onChange={(e) => setReproject(e.target.checked)}
+                className="mt-0.5"
+              />
+              Move zones, markers and corridors from the previous image to their real-world positions on this one
+            </label>
+          )}
+
           <div className="mt-auto pt-2 flex gap-2">
             <button
               onClick={handleSave}
-              disabled={draftPoints.length < 2 || saving}
+              disabled={draftPoints.length < minPoints || !quality || saving}
               className="flex-1 rounded-xl bg-accent/20 hover:bg-accent/30 text-accent py-2 text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
             >
               {saving ? "Saving…" : "Save Calibration"}
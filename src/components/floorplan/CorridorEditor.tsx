@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { toast } from "sonner";
+import type { Id } from "../../../convex/_generated/dataModel";
+import type { CorridorGraph } from "../../../convex/lib/wayfinding";
+
+interface CorridorEditorProps {
+  floorPlanId: Id<"floorPlans">;
+  displayW: number;
+  displayH: number;
+  onClose: () => void;
+}
+
+const NODE_HIT_RADIUS = 9; // px
+
+/**
+ * Draws the walkable corridor graph. Clicking empty floor adds a node joined
+ * to the selected one; clicking another node joins (or unjoins) the two.
+ */
+export function CorridorEditor({ floorPlanId, displayW, displayH, onClose }: CorridorEditorProps) {
+  const saved = useQuery(api.floorPlans.getCorridorGraph, { floorPlanId });
+  const saveGraph = useMutation(api.floorPlans.saveCorridorGraph);
+  const [graph, setGraph] = useState<CorridorGraph | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved graph once it has loaded
+  useEffect(() => {
+    if (saved && !graph) setGraph(saved);
+  }, [saved, graph]);
+
+  if (!graph) return null;
+
+  const nodeAt = (x: number, y: number) =>
+    graph.nodes.findIndex(
+      (n) => Math.hypot((n.x - x) * displayW, (n.y - y) * displayH) < NODE_HIT_RADIUS
+    );
+
+  const toggleEdge = (a: number, b: number) => {
+    const exists = graph.edges.some((e) => (e.a === a && e.b === b) || (e.a === b && e.b === a));
+    setGraph({
+      ...graph,
+      edges: exists
+        ? graph.edges.filter((e) => !((e.a === a && e.b === b) || (e.a === b && e.b === a)))
+        : [...graph.edges, { a, b }],
+    });
+  };
+
+  const handleClick = (e: React.MouseEvent<SVGGElement>) => {
+    const rect = e.currentTarget.closest("svg")!.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / displayW;
+    const y = (e.clientY - rect.top) / displayH;
+
+    const hit = nodeAt(x, y);
+    if (hit !== -1) {
+      if (selected !== null && selected !== hit) toggleEdge(selected, hit);
+      setSelected(hit === selected ? null : hit);
+      return;
+    }
+
+    const index = graph.nodes.length;
+    setGraph({
+      nodes: [...graph.nodes, { x, y }],
+      edges: selected !== null ? [...graph.edges, { a: selected, b: index }] : graph.edges,
+    });
+    setSelected(index);
+  };
+
+  const handleDeleteNode = () => {
+    if (selected === null) return;
+    const shift = (i: number) => (i > selected ? i - 1 : i);
+    setGraph({
+      nodes: graph.nodes.filter((_, i) => i !== selected),
+      edges: graph.edges
+        .filter((e) => e.a !== selected && e.b !== selected)
+        .map((e) => ({ a: shift(e.a), b: shift(e.b) })),
+    });
+    setSelected(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveGraph({ floorPlanId, ...graph });
+      toast.success("Corridors saved");
+      onClose();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not save corridors");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <g>
+      <g onClick={handleClick} style={{ cursor: "crosshair" }}>
+        {/* Transparent click capture */}
+        <rect x={0} y={0} width={displayW} height={displayH} fill="transparent" />
+
+        {graph.edges.map((e, i) => {
+          const a = graph.nodes[e.a];
+          const b = graph.nodes[e.b];
+          return (
+            <line
+              key={i}
+              x1={a.x * displayW}
+              y1={a.y * displayH}
+              x2={b.x * displayW}
+              y2={b.y * displayH}
+              stroke="#22c55e"
+              strokeWidth={3}
+              strokeLinecap="round"
+              opacity={0.7}
+            />
+          );
+        })}
+
+        {graph.nodes.map((n, i) => (
+          <circle
+            key={i}
+            cx={n.x * displayW}
+            cy={n.y * displayH}
+            r={i === selected ? 7 : 5}
+            fill={i === selected ? "white" : "#22c55e"}
+            stroke="rgba(0,0,0,0.5)"
+            strokeWidth={1}
+            style={{ cursor: "pointer" }}
+          />
+        ))}
+      </g>
+
+      {/* Instruction banner and actions */}
+      <foreignObject x={displayW / 2 - 200} y={10} width={400} height={80} style={{ overflow: "visible" }}>
+        <div
+          className="rounded-lg px-4 py-2 text-xs text-center text-white/70 font-body"
+          style={{ background: "rgba(15,20,30,0.85)", border: "1px solid rgba(255,255,255,0.1)" }}
+        >
+          <p>
+            {selected === null
+              ? "Click to add corridor points — click a point to continue from it"
+              : "Click to extend the corridor, or click another point to join/unjoin them"}
+          </p>
+          <div className="mt-2 flex justify-center gap-2">
+            {selected !== null && (
+              <button
+                onClick={handleDeleteNode}
+                className="rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-400 px-3 py-1 font-medium transition-colors"
+              >
+                Delete point
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="rounded-lg bg-accent/20 hover:bg-accent/30 text-accent px-3 py-1 font-medium transition-colors disabled:opacity-40"
+            >
+              Save Corridors
+            </button>
+            <button
+              onClick={onClose}
+              className="rounded-lg bg-white/5 hover:bg-white/10 text-white/50 px-3 py-1 font-medium transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </foreignObject>
+    </g>
+  );
+}
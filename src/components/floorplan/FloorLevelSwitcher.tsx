@@ -0,0 +1,119 @@
+import { useMutation } from "convex/react";
+import { Layers, Pin, PinOff } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { levelOf, type FloorSource } from "../../../convex/lib/floorLevels";
+
+interface Level {
+  _id: Id<"floorPlans">;
+  name: string;
+  level?: number;
+}
+
+interface FloorLevelSwitcherProps {
+  levels: Level[];
+  currentLevelId: Id<"floorPlans">;
+  workerCounts: Partial<Record<Id<"floorPlans">, number>>;
+  onSelectLevel: (id: Id<"floorPlans">) => void;
+  /** The selected worker and how their level was resolved, if any. */
+  selectedWorker: {
+    _id: Id<"workers">;
+    name: string;
+    levelId: Id<"floorPlans">;
+    source: FloorSource;
+  } | null;
+}
+
+const SOURCE_LABELS: Record<FloorSource, string> = {
+  manual: "pinned",
+  beacon: "from beacons",
+  altitude: "from altitude",
+  default: "no altitude",
+};
+
+/** Short badge for a level index: G for ground, L1 above, B1 below. */
+export function levelBadge(level: { level?: number }): string {
+  const n = levelOf(level);
+  if (n === 0) return "G";
+  return n > 0 ? `L${n}` : `B${-n}`;
+}
+
+/** Stacked list of a building's levels, top floor first, with live worker counts. */
+export function FloorLevelSwitcher({
+  levels,
+  currentLevelId,
+  workerCounts,
+  onSelectLevel,
+  selectedWorker,
+}: FloorLevelSwitcherProps) {
+  const setFloorOverride = useMutation(api.workers.setWorkerFloorOverride);
+
+  const pin = async (floorPlanId: Id<"floorPlans"> | undefined) => {
+    if (!selectedWorker) return;
+    try {
+      await setFloorOverride({ workerId: selectedWorker._id, floorPlanId });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not update floor");
+    }
+  };
+
+  return (
+    <div className="glass-strong w-52 rounded-xl p-1.5 shadow-lg font-body">
+      <p className="flex items-center gap-1.5 px-2 pb-1 pt-0.5 text-[10px] uppercase tracking-wider text-white/30">
+        <Layers className="h-3 w-3" />
+        Levels
+      </p>
+      {levels.map((level) => {
+        const count = workerCounts[level._id] ?? 0;
+        const isCurrent = level._id === currentLevelId;
+        const hasSelected = selectedWorker?.levelId === level._id;
+        return (
+          <button
+            key={level._id}
+            onClick={() => onSelectLevel(level._id)}
+            className={`flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-left text-sm transition-colors ${
+              isCurrent ? "bg-accent/10 text-accent" : "text-white/60 hover:bg-white/5 hover:text-white"
+            }`}
+          >
+            <span className="w-6 shrink-0 font-mono text-xs font-medium">{levelBadge(level)}</span>
+            <span className="min-w-0 flex-1 truncate">{level.name}</span>
+            {hasSelected && <span className="h-1.5 w-1.5 shrink-0 rounded-full bg-accent" />}
+            <span className={`font-mono text-xs ${count > 0 ? "text-white/70" : "text-white/20"}`}>
+              {count}
+            </span>
+          </button>
+        );
+      })}
+
+      {selectedWorker && (
+        <div className="mt-1 border-t border-white/[0.06] px-2 pt-2 pb-1">
+          <p className="truncate text-xs text-white/50">
+            {selectedWorker.name}
+            <span className="text-white/30"> · {SOURCE_LABELS[selectedWorker.source]}</span>
+          </p>
+          <div className="mt-1.5 flex gap-1.5">
+            {selectedWorker.levelId !== currentLevelId || selectedWorker.source !== "manual" ? (
+              <button
+                onClick={() => pin(currentLevelId)}
+                className="flex items-center gap-1 rounded-lg bg-accent/15 px-2 py-1 text-xs text-accent hover:bg-accent/25 transition-colors"
+              >
+                <Pin className="h-3 w-3" />
+                Pin to this level
+              </button>
+            ) : null}
+            {selectedWorker.source === "manual" && (
+              <button
+                onClick={() => pin(undefined)}
+                className="flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-white/40 hover:bg-white/5 hover:text-white/70 transition-colors"
+              >
+                <PinOff className="h-3 w-3" />
+                Auto
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,16 @@ import { useState, useRef } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
-import { Upload, Trash2, Check, X } from "lucide-react";
+import { Upload, Trash2, Check, X, Building2, Plus, History } from "lucide-react";
+import { toast } from "sonner";
+import { levelBadge } from "./FloorLevelSwitcher";
+import { FloorPlanRevisions } from "./FloorPlanRevisions";
+import {
+  getImageDimensions,
+  isVectorFloorPlan,
+  renderVectorFloorPlan,
+  type RenderedFloorPlan,
+} from "../../lib/vectorFloorPlan";
 
 interface FloorPlanManagerProps {
   onClose: () => void;
@@ -15,30 +24,76 @@ export function FloorPlanManager({ onClose }: FloorPlanManagerProps) {
   const setActive = useMutation(api.floorPlans.setActiveFloorPlan);
   const deactivate = useMutation(api.floorPlans.deactivateFloorPlan);
   const deletePlan = useMutation(api.floorPlans.deleteFloorPlan);
+  const buildings = useQuery(api.floorPlans.getBuildings) ?? [];
+  const createBuilding = useMutation(api.floorPlans.createBuilding);
+  const renameBuilding = useMutation(api.floorPlans.renameBuilding);
+  const deleteBuilding = useMutation(api.floorPlans.deleteBuilding);
+  const updateLevel = useMutation(api.floorPlans.updateFloorPlanLevel);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [nameInput, setNameInput] = useState("");
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // SVG/PDF drawings are rendered as soon as they are picked, so named shapes can be previewed
+  const [rendering, setRendering] = useState(false);
+  const [rendered, setRendered] = useState<RenderedFloorPlan | null>(null);
+  const [importZones, setImportZones] = useState(true);
   const [confirmDelete, setConfirmDelete] = useState<Id<"floorPlans"> | null>(null);
+  const [historyPlan, setHistoryPlan] = useState<Id<"floorPlans"> | null>(null);
+  const [buildingName, setBuildingName] = useState("");
+
+  const handleCreateBuilding = async () => {
+    if (!buildingName.trim()) return;
+    await createBuilding({ name: buildingName.trim() });
+    setBuildingName("");
+  };
+
+  // Level edits save immediately; validation errors come back from the server
+  const saveLevel = async (args: Omit<Parameters<typeof updateLevel>[0], "floorPlanId">, floorPlanId: Id<"floorPlans">) => {
+    try {
+      await updateLevel({ floorPlanId, ...args });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not update level");
+    }
+  };
+
+  const handleFileChange = async () => {
+    setError(null);
+    setRendered(null);
+    const file = fileInputRef.current?.files?.[0];
+    if (!file || !isVectorFloorPlan(file)) return;
+
+    setRendering(true);
+    try {
+      setRendered(await renderVectorFloorPlan(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read the drawing");
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    } finally {
+      setRendering(false);
+    }
+  };
 
   const handleUpload = async () => {
     const file = fileInputRef.current?.files?.[0];
     if (!file) { setError("Select an image file first."); return; }
     if (!nameInput.trim()) { setError("Enter a name for the floor plan."); return; }
+    if (isVectorFloorPlan(file) && !rendered) { setError("The drawing is still rendering."); return; }
     setError(null);
     setUploading(true);
 
     try {
-      // Get natural image dimensions
-      const dims = await getImageDimensions(file);
+      // Vector drawings upload their rendered PNG; raster images upload as-is
+      const image = rendered
+        ? { body: rendered.blob, type: "image/png", width: rendered.width, height: rendered.height }
+        : { body: file, type: file.type, ...(await getImageDimensions(file)) };
 
       // Upload to Convex storage
       const uploadUrl = await generateUploadUrl();
       const resp = await fetch(uploadUrl, {
         method: "POST",
-        headers: { "Content-Type": file.type },
-        body: file,
+        headers: { "Content-Type": image.type },
+        body: image.body,
       });
       if (!resp.ok) throw new Error("Upload failed");
       const { storageId } = await resp.json();
@@ -46,11 +101,13 @@ export function FloorPlanManager({ onClose }: FloorPlanManagerProps) {
       await createPlan({
         name: nameInput.trim(),
         imageStorageId: storageId as Id<"_storage">,
-        imageWidth: dims.width,
-        imageHeight: dims.height,
+        imageWidth: image.width,
+        imageHeight: image.height,
+        zones: rendered && importZones && rendered.zones.length > 0 ? rendered.zones : undefined,
       });
 
       setNameInput("");
+      setRendered(null);
       if (fileInputRef.current) fileInputRef.current.value = "";
     } catch (err) {
       setError(err instanceof Error ? err.message : "Upload failed");
@@ -95,42 +152,115 @@ export function FloorPlanManager({ onClose }: FloorPlanManagerProps) {
               <p className="text-sm text-white/40">
                 {fileInputRef.current?.files?.[0]
                   ? fileInputRef.current.files[0].name
-                  : "Click to select an image (PNG, JPG, SVG)"}
+                  : "Click to select an image (PNG, JPG) or drawing (SVG, PDF)"}
               </p>
             </div>
             <input
               ref={fileInputRef}
               type="file"
-              accept="image/*"
+              accept="image/*,.svg,.pdf,application/pdf"
               className="hidden"
-              onChange={() => setError(null)}
+              onChange={handleFileChange}
             />
+            {rendering && <p className="text-xs text-white/40">Rendering drawing…</p>}
+            {rendered && (
+              <div className="space-y-1.5 text-xs text-white/40">
+                <p>Rendered at {rendered.width}×{rendered.height}px</p>
+                {rendered.zones.length > 0 && (
+                  <label className="flex items-center gap-2 text-white/60 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={importZones}
+                      onChange={(e) => setImportZones(e.target.checked)}
+                    />
+                    Create {rendered.zones.length} zone{rendered.zones.length !== 1 ? "s" : ""} from named shapes
+                    <span className="truncate text-white/30">
+                      ({rendered.zones.slice(0, 3).map((z) => z.name).join(", ")}
+                      {rendered.zones.length > 3 ? ", …" : ""})
+                    </span>
+                  </label>
+                )}
+              </div>
+            )}
             {error && <p className="text-xs text-red-400">{error}</p>}
             <button
               onClick={handleUpload}
-              disabled={uploading}
+              disabled={uploading || rendering}
               className="w-full rounded-xl bg-accent/20 hover:bg-accent/30 text-accent py-2.5 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {uploading ? "Uploading…" : "Upload Floor Plan"}
             </button>
           </div>
 
+          {/* Buildings */}
+          <div className="space-y-2">
+            <p className="text-xs text-white/40 uppercase tracking-wider font-medium">Buildings</p>
+            <p className="text-xs text-white/30">
+              Group floor plans into a building to stack them as levels. A building's levels are activated together.
+            </p>
+            {buildings.map((b) => (
+              <div key={b._id} className="flex items-center gap-2 rounded-xl px-3 py-2" style={{ background: "rgba(255,255,255,0.04)" }}>
+                <Building2 className="h-4 w-4 shrink-0 text-white/30" />
+                <input
+                  defaultValue={b.name}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (name && name !== b.name) renameBuilding({ buildingId: b._id, name });
+                  }}
+                  className="flex-1 min-w-0 bg-transparent text-sm text-white/80 outline-none"
+                />
+                <span className="text-xs text-white/30">
+                  {plans.filter((p) => p.buildingId === b._id).length} levels
+                </span>
+                <button
+                  onClick={() => deleteBuilding({ buildingId: b._id })}
+                  title="Delete building (keeps its floor plans)"
+                  className="rounded-lg p-1.5 text-white/30 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="New building (e.g. Warehouse)"
+                value={buildingName}
+                onChange={(e) => setBuildingName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === "Enter") handleCreateBuilding(); }}
+                className="flex-1 rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-sm text-white outline-none focus:border-accent/50 transition-colors"
+              />
+              <button
+                onClick={handleCreateBuilding}
+                disabled={!buildingName.trim()}
+                className="rounded-xl bg-accent/20 hover:bg-accent/30 text-accent px-3 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
           {/* Plans list */}
           {plans.length > 0 && (
             <div className="space-y-2">
               <p className="text-xs text-white/40 uppercase tracking-wider font-medium">Your Floor Plans</p>
+              <p className="text-xs text-white/30">
+                Every active plan or building is a site tab. Calibrated sites open automatically for the worker you select.
+              </p>
               {plans.map((plan) => (
                 <div
                   key={plan._id}
-                  className="flex items-center gap-3 rounded-xl px-4 py-3"
+                  className="rounded-xl px-4 py-3"
                   style={{ background: "rgba(255,255,255,0.04)", border: plan.isActive ? "1px solid rgba(0,212,255,0.3)" : "1px solid transparent" }}
                 >
+                  <div className="flex items-center gap-3">
                   <div className="flex-1 min-w-0">
                     <p className="text-sm text-white/80 font-medium truncate">{plan.name}</p>
                     <p className="text-xs text-white/30">
                       {plan.imageWidth}×{plan.imageHeight}px
                       {" · "}
                       {plan.calibrationPoints.length} calibration point{plan.calibrationPoints.length !== 1 ? "s" : ""}
+                      {plan.pendingReprojection && <span className="text-amber-400"> · needs calibration</span>}
                     </p>
                   </div>
 
@@ -152,6 +282,19 @@ export function FloorPlanManager({ onClose }: FloorPlanManagerProps) {
                       <Check className="h-3.5 w-3.5" />
                     </button>
 
+                    {/* Image and revision history */}
+                    <button
+                      onClick={() => setHistoryPlan((id) => (id === plan._id ? null : plan._id))}
+                      title="Replace image and history"
+                      className={`rounded-lg p-1.5 transition-colors ${
+                        historyPlan === plan._id
+                          ? "text-accent bg-accent/15"
+                          : "text-white/30 hover:text-accent hover:bg-accent/10"
+                      }`}
+                    >
+                      <History className="h-3.5 w-3.5" />
+                    </button>
+
                     {/* Delete */}
                     {confirmDelete === plan._id ? (
                       <div className="flex items-center gap-1">
@@ -181,6 +324,61 @@ export function FloorPlanManager({ onClose }: FloorPlanManagerProps) {
                       </button>
                     )}
                   </div>
+                  </div>
+
+                  {/* Building and level */}
+                  <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-white/40">
+                    <select
+                      value={plan.buildingId ?? ""}
+                      onChange={(e) =>
+                        saveLevel({ buildingId: (e.target.value || null) as Id<"buildings"> | null }, plan._id)
+                      }
+                      className="rounded-lg bg-white/5 border border-white/10 px-2 py-1 text-white/70 outline-none"
+                    >
+                      <option value="">No building</option>
+                      {buildings.map((b) => (
+                        <option key={b._id} value={b._id}>{b.name}</option>
+                      ))}
+                    </select>
+                    {plan.buildingId && (
+                      <>
+                        <label className="flex items-center gap-1">
+                          Level
+                          <input
+                            type="number"
+                            step={1}
+                            defaultValue={plan.level ?? 0}
+                            key={`level-${plan.level}`}
+                            onBlur={(e) => {
+                              const level = Number(e.target.value);
+                              if (level !== (plan.level ?? 0)) saveLevel({ level }, plan._id);
+                            }}
+                            className="w-12 rounded-lg bg-white/5 border border-white/10 px-1.5 py-1 text-white/70 outline-none"
+                          />
+                          <span className="font-mono text-white/30">{levelBadge(plan)}</span>
+                        </label>
+                        <label className="flex items-center gap-1" title="GPS altitude band for this level, in metres">
+                          Alt
+                          <AltitudeInput
+                            value={plan.minAltitudeM}
+                            placeholder="min"
+                            onSave={(minAltitudeM) => saveLevel({ minAltitudeM }, plan._id)}
+                          />
+                          –
+                          <AltitudeInput
+                            value={plan.maxAltitudeM}
+                            placeholder="max"
+                            onSave={(maxAltitudeM) => saveLevel({ maxAltitudeM }, plan._id)}
+                          />
+                          m
+                        </label>
+                      </>
+                    )}
+                  </div>
+
+                  {historyPlan === plan._id && (
+                    <FloorPlanRevisions floorPlanId={plan._id} pendingReprojection={plan.pendingReprojection} />
+                  )}
                 </div>
               ))}
             </div>
@@ -195,18 +393,27 @@ export function FloorPlanManager({ onClose }: FloorPlanManagerProps) {
   );
 }
 
-function getImageDimensions(file: File): Promise<{ width: number; height: number }> {
-  return new Promise((resolve, reject) => {
-    const url = URL.createObjectURL(file);
-    const img = new Image();
-    img.onload = () => {
-      resolve({ width: img.naturalWidth, height: img.naturalHeight });
-      URL.revokeObjectURL(url);
-    };
-    img.onerror = () => {
-      URL.revokeObjectURL(url);
-      reject(new Error("Could not read image dimensions"));
-    };
-    img.src = url;
-  });
+/** Number input that saves on blur; clearing it saves null. */
+function AltitudeInput({
+  value,
+  placeholder,
+  onSave,
+}: {
+  value: number | undefined;
+  placeholder: string;
+  onSave: (value: number | null) => void;
+}) {
+  return (
+    <input
+      type="number"
+      key={String(value)}
+      defaultValue={value ?? ""}
+      placeholder={placeholder}
+      onBlur={(e) => {
+        const next = e.target.value === "" ? null : Number(e.target.value);
+        if (next !== (value ?? null)) onSave(next);
+      }}
+      className="w-14 rounded-lg bg-white/5 border border-white/10 px-1.5 py-1 text-white/70 outline-none"
+    />
+  );
 }
@@ -0,0 +1,163 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { formatDistanceToNow } from "date-fns";
+import { ImageUp, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { getImageDimensions, isVectorFloorPlan, renderVectorFloorPlan } from "../../lib/vectorFloorPlan";
+
+const REASON_LABELS = {
+  image: "Before image replacement",
+  calibration: "Before recalibration",
+  rollback: "Before rollback",
+} as const;
+
+interface FloorPlanRevisionsProps {
+  floorPlanId: Id<"floorPlans">;
+  pendingReprojection: boolean;
+}
+
+/** Replace a plan's image, and browse or restore its earlier revisions. */
+export function FloorPlanRevisions({ floorPlanId, pendingReprojection }: FloorPlanRevisionsProps) {
+  const revisions = useQuery(api.floorPlanRevisions.getFloorPlanRevisions, { floorPlanId });
+  const generateUploadUrl = useMutation(api.floorPlans.generateFloorPlanUploadUrl);
+  const replaceImage = useMutation(api.floorPlanRevisions.replaceFloorPlanImage);
+  const rollback = useMutation(api.floorPlanRevisions.rollbackFloorPlan);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sameExtent, setSameExtent] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [confirmRollback, setConfirmRollback] = useState<Id<"floorPlanRevisions"> | null>(null);
+
+  const handleReplace = async () => {
+    const file = fileInputRef.current?.files?.[0];
+    if (!file) return;
+    setUploading(true);
+    try {
+      // Named shapes in a replacement drawing are ignored; existing zones are kept
+      const image = isVectorFloorPlan(file)
+        ? await renderVectorFloorPlan(file).then((r) => ({ body: r.blob, type: "image/png", width: r.width, height: r.height }))
+        : { body: file, type: file.type, ...(await getImageDimensions(file)) };
+
+      const uploadUrl = await generateUploadUrl();
+      const resp = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": image.type },
+        body: image.body,
+      });
+      if (!resp.ok) throw new Error("Upload failed");
+      const { storageId } = await resp.json();
+
+      await replaceImage({
+        floorPlanId,
+        imageStorageId: storageId as Id<"_storage">,
+        imageWidth: image.width,
+        imageHeight: image.height,
+        sameExtent,
+      });
+      toast.success(sameExtent ? "Image replaced" : "Image replaced — calibrate it to re-project zones and markers");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not replace the image");
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleRollback = async (revisionId: Id<"floorPlanRevisions">) => {
+    try {
+      await rollback({ revisionId });
+      toast.success("Floor plan restored");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not restore revision");
+    } finally {
+      setConfirmRollback(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-3 border-t border-white/5 pt-3 text-xs">
+      {pendingReprojection && (
+        <p className="rounded-lg bg-amber-500/10 px-2.5 py-1.5 text-amber-400">
+          Zones and markers are still placed for the previous image. Calibrate this plan to move them.
+        </p>
+      )}
+
+      {/* Replace image */}
+      <div className="space-y-1.5">
+        <label className="flex items-start gap-2 text-white/50 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={sameExtent}
+            onChange={(e) => setSameExtent(e.target.checked)}
+            className="mt-0.5"
+          />
+          The new image shows exactly the same area (keep zones, markers and calibration in place)
+        </label>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="flex items-center gap-1.5 rounded-lg bg-white/5 hover:bg-white/10 px-2.5 py-1.5 text-white/60 transition-colors disabled:opacity-50"
+        >
+          <ImageUp className="h-3.5 w-3.5" />
+          {uploading ? "Uploading…" : "Replace image…"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,.svg,.pdf,application/pdf"
+          className="hidden"
+          onChange={handleReplace}
+        />
+      </div>
+
+      {/* History */}
+      <div className="space-y-1.5">
+        <p className="text-white/40">History</p>
+        {revisions?.length === 0 && (
+          <p className="text-white/25">No earlier revisions. Replacing the image or recalibrating saves one.</p>
+        )}
+        {revisions?.map((r) => (
+          <div key={r._id} className="flex items-center gap-2.5 rounded-lg px-2 py-1.5" style={{ background: "rgba(255,255,255,0.03)" }}>
+            {r.imageUrl && (
+              <img src={r.imageUrl} alt="" className="h-9 w-12 shrink-0 rounded object-cover opacity-70" />
+            )}
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-white/70">{REASON_LABELS[r.reason]}</p>
+              <p className="truncate text-white/30">
+                {formatDistanceToNow(new Date(r.createdAt), { addSuffix: true })} · {r.savedByName} ·{" "}
+                {r.calibrationPointCount} pt{r.calibrationPointCount !== 1 ? "s" : ""}
+                {r.isCurrentImage ? " · same image" : ""}
+              </p>
+            </div>
+            {confirmRollback === r._id ? (
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => handleRollback(r._id)}
+                  className="rounded-lg px-2 py-1 text-amber-400 bg-amber-500/20 hover:bg-amber-500/30 transition-colors"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => setConfirmRollback(null)}
+                  className="rounded-lg px-2 py-1 text-white/40 hover:bg-white/5 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmRollback(r._id)}
+                title="Roll back to this revision"
+                className="rounded-lg p-1.5 text-white/30 hover:text-amber-400 hover:bg-amber-500/10 transition-colors"
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,33 @@
 import { useRef, useState, useCallback, useEffect } from "react";
-import { useMutation } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
-import { Maximize2, Map, PenLine, Sliders, Settings, MapPin } from "lucide-react";
-import { buildTransform } from "../../lib/geoTransform";
+import { Maximize2, Map, PenLine, Sliders, Settings, MapPin, Waypoints, ListFilter } from "lucide-react";
+import {
+  buildTransform,
+  planSizeMeters,
+  type CalibrationMode,
+} from "../../../convex/lib/geoTransform";
+import { shortestRoute } from "../../../convex/lib/wayfinding";
 import { FloorPlanWorkerDot } from "./FloorPlanWorkerDot";
-import { ZoneOverlay } from "./ZoneOverlay";
+import { ZoneOverlay, type Zone } from "./ZoneOverlay";
 import { ZoneDrawer } from "./ZoneDrawer";
 import { CalibrationTool } from "./CalibrationTool";
-import { FloorPlanPicker } from "./FloorPlanPicker";
+import { SiteTabs } from "./SiteTabs";
 import { MarkerOverlay } from "./MarkerOverlay";
+import { FloorLevelSwitcher } from "./FloorLevelSwitcher";
+import { MarkerRadioFields, EMPTY_MARKER_RADIO, type MarkerRadio } from "./MarkerRadioFields";
+import { MarkerCategoryFields } from "./MarkerCategoryFields";
+import { MarkerLegend, type LegendGroup } from "./MarkerLegend";
+import { CorridorEditor } from "./CorridorEditor";
+import { RoutePanel } from "./RoutePanel";
+import { toast } from "sonner";
+import { resolveWorkerFloor } from "../../../convex/lib/floorLevels";
+import { pointInPolygon } from "../../../convex/lib/geo";
+import {
+  EVACUATION_CATEGORIES,
+  MARKER_CATEGORIES,
+  type MarkerCategory,
+} from "../../../convex/lib/markerCategories";
 import type { Id } from "../../../convex/_generated/dataModel";
 
 interface WorkerWithLocation {
@@ -17,27 +36,50 @@ interface WorkerWithLocation {
   avatarUrl?: string;
   isOnDuty: boolean;
   lastSeen?: number;
+  floorOverride?: Id<"floorPlans">;
   currentLocation?: {
     latitude: number;
     longitude: number;
+    altitude?: number;
     batteryLevel?: number;
     isCharging?: boolean;
+    indoor?: {
+      floorPlanId: Id<"floorPlans">;
+      x: number;
+      y: number;
+      accuracyM?: number;
+      beaconCount: number;
+    };
     timestamp: number;
   };
 }
 
-interface FloorPlan {
+interface FloorPlanLevel {
   _id: Id<"floorPlans">;
   name: string;
   imageUrl: string;
   imageWidth: number;
   imageHeight: number;
   calibrationPoints: { px: number; py: number; lat: number; lng: number }[];
-  zones: { _id: Id<"floorZones">; name: string; color: string; points: { x: number; y: number }[] }[];
+  calibrationMode?: CalibrationMode;
+  /** The image was replaced and zones still sit where they were on the old one. */
+  pendingReprojection: boolean;
+  level?: number;
+  minAltitudeM?: number;
+  maxAltitudeM?: number;
+  zones: Zone[];
+}
+
+/** An active building, or a standalone plan; the top-level fields are its ground floor. */
+interface Site extends FloorPlanLevel {
+  building: { _id: Id<"buildings">; name: string } | null;
+  /** Every level of the building, top floor first; just this plan when it has no building. */
+  levels: FloorPlanLevel[];
+  footprint: { lat: number; lng: number }[] | null;
 }
 
 interface FloorPlanViewerProps {
-  floorPlan: FloorPlan;
+  sites: Site[];
   workers: WorkerWithLocation[];
   selectedWorkerId: Id<"workers"> | null;
   onSelectWorker: (id: Id<"workers">) => void;
@@ -46,10 +88,10 @@ interface FloorPlanViewerProps {
   onOpenManager: () => void;
 }
 
-const ICON_PRESETS = ["📍", "🚨", "⚡", "🚪", "📦", "🔧", "💻", "🏭", "⛽", "🅿️"];
+const siteKey = (site: Site) => site.building?._id ?? site._id;
 
 export function FloorPlanViewer({
-  floorPlan,
+  sites,
   workers,
   selectedWorkerId,
   onSelectWorker,
@@ -60,6 +102,13 @@ export function FloorPlanViewer({
   const containerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
 
+  // Site and level being viewed; everything below renders this level
+  const [currentSiteKey, setCurrentSiteKey] = useState<string | null>(null);
+  const [levelId, setLevelId] = useState<Id<"floorPlans"> | null>(null);
+  const site = sites.find((s) => siteKey(s) === currentSiteKey) ?? sites[0];
+  const floorPlan = site.levels.find((l) => l._id === levelId) ?? site;
+  const isMultiLevel = site.levels.length > 1;
+
   // Zoom/pan state
   const [scale, setScale] = useState(1);
   const [translate, setTranslate] = useState({ x: 0, y: 0 });
@@ -70,19 +119,151 @@ export function FloorPlanViewer({
   const [displaySize, setDisplaySize] = useState({ w: 0, h: 0 });
 
   // Active modes (mutually exclusive)
-  const [mode, setMode] = useState<"none" | "zone" | "calibrate" | "marker">("none");
+  const [mode, setMode] = useState<"none" | "zone" | "calibrate" | "marker" | "corridor">("none");
 
   // Pending new marker (placed, waiting for name/icon form)
   const [pendingMarker, setPendingMarker] = useState<{ x: number; y: number } | null>(null);
   const [markerName, setMarkerName] = useState("");
   const [markerIcon, setMarkerIcon] = useState("");
+  const [markerCategory, setMarkerCategory] = useState<MarkerCategory | null>(null);
+  const [markerRadio, setMarkerRadio] = useState<MarkerRadio>(EMPTY_MARKER_RADIO);
   const createMarker = useMutation(api.floorPlans.createFloorMarker);
+  const occupancy = useQuery(api.floorPlans.getFloorZoneOccupancy, { floorPlanId: floorPlan._id });
+
+  // Marker legend: hidden categories and name search apply to every level
+  const [showLegend, setShowLegend] = useState(false);
+  const [hiddenGroups, setHiddenGroups] = useState<ReadonlySet<LegendGroup>>(new Set());
+  const [markerSearch, setMarkerSearch] = useState("");
+  const [printing, setPrinting] = useState(false);
+
+  // Wayfinding: destination for the selected worker's route
+  const [routeMarkerId, setRouteMarkerId] = useState<Id<"floorMarkers"> | null>(null);
+  const [sendingRoute, setSendingRoute] = useState(false);
+  const markers = useQuery(api.floorPlans.getFloorMarkers, { floorPlanId: floorPlan._id });
+  const corridors = useQuery(api.floorPlans.getCorridorGraph, { floorPlanId: floorPlan._id });
+  const sendRoute = useMutation(api.commands.sendRouteCommand);
 
   const transform = buildTransform(
     floorPlan.calibrationPoints,
     floorPlan.imageWidth,
-    floorPlan.imageHeight
+    floorPlan.imageHeight,
+    floorPlan.calibrationMode
+  );
+
+  // A beacon fix on this plan beats projected GPS
+  const positionOf = (worker: WorkerWithLocation) => {
+    const loc = worker.currentLocation;
+    if (!loc) return null;
+    if (loc.indoor?.floorPlanId === floorPlan._id) return loc.indoor;
+    return transform ? transform(loc.latitude, loc.longitude) : null;
+  };
+
+  // The site holding the worker's beacon fix, else the one whose footprint contains them
+  const siteOf = (worker: WorkerWithLocation) => {
+    const loc = worker.currentLocation;
+    if (!loc) return undefined;
+    const indoorPlanId = loc.indoor?.floorPlanId;
+    const indoorSite = indoorPlanId && sites.find((s) => s.levels.some((l) => l._id === indoorPlanId));
+    if (indoorSite) return indoorSite;
+    return sites.find(
+      (s) => s.footprint && pointInPolygon(loc.latitude, loc.longitude, s.footprint)
+    );
+  };
+  const siteCounts: Record<string, number> = {};
+  for (const worker of workers) {
+    const s = siteOf(worker);
+    if (s) siteCounts[siteKey(s)] = (siteCounts[siteKey(s)] ?? 0) + 1;
+  }
+
+  // Workers at another active site are hidden; the rest are drawn as before
+  const siteWorkers = workers.filter((w) => {
+    const s = siteOf(w);
+    return !s || siteKey(s) === siteKey(site);
+  });
+
+  const floorOf = (worker: WorkerWithLocation) =>
+    resolveWorkerFloor(
+      site.levels,
+      worker.floorOverride,
+      worker.currentLocation?.altitude,
+      worker.currentLocation?.indoor?.floorPlanId
+    );
+  const workersOnLevel = isMultiLevel
+    ? siteWorkers.filter((w) => floorOf(w)?.plan._id === floorPlan._id)
+    : siteWorkers;
+
+  const workerCounts: Partial<Record<Id<"floorPlans">, number>> = {};
+  for (const worker of siteWorkers) {
+    if (!worker.currentLocation) continue;
+    const id = floorOf(worker)?.plan._id;
+    if (id) workerCounts[id] = (workerCounts[id] ?? 0) + 1;
+  }
+
+  const selectedWorker = workers.find((w) => w._id === selectedWorkerId);
+  const selectedSite = selectedWorker && siteOf(selectedWorker);
+  const selectedFloor = selectedWorker && isMultiLevel ? floorOf(selectedWorker) : null;
+
+  // Follow the selected worker to their site, then to their level
+  const selectedSiteKey = selectedSite ? siteKey(selectedSite) : undefined;
+  useEffect(() => {
+    if (selectedSiteKey) setCurrentSiteKey(selectedSiteKey);
+  }, [selectedWorkerId, selectedSiteKey]);
+
+  const selectedFloorId = selectedFloor?.plan._id;
+  useEffect(() => {
+    if (selectedFloorId) setLevelId(selectedFloorId);
+  }, [selectedWorkerId, selectedFloorId]);
+
+  useEffect(() => {
+    setRouteMarkerId(null);
+  }, [selectedWorkerId, floorPlan._id]);
+
+  const routeFrom = selectedWorker && workersOnLevel.includes(selectedWorker)
+    ? positionOf(selectedWorker)
+    : null;
+  const routeMarker = markers?.find((m) => m._id === routeMarkerId);
+  const planSizeM = planSizeMeters(
+    floorPlan.calibrationPoints,
+    floorPlan.imageWidth,
+    floorPlan.imageHeight,
+    floorPlan.calibrationMode
   );
+  const route =
+    routeFrom && routeMarker && corridors
+      ? shortestRoute(
+          corridors,
+          routeFrom,
+          routeMarker,
+          planSizeM ?? { width: floorPlan.imageWidth, height: floorPlan.imageHeight }
+        )
+      : null;
+
+  const handleSendRoute = async () => {
+    if (!selectedWorker || !routeMarkerId) return;
+    setSendingRoute(true);
+    try {
+      await sendRoute({ workerId: selectedWorker._id, markerId: routeMarkerId });
+      toast.success(`Route sent to ${selectedWorker.name}`);
+      setRouteMarkerId(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not send route");
+    } finally {
+      setSendingRoute(false);
+    }
+  };
+
+  const handleSelectSite = (key: string) => {
+    setCurrentSiteKey(key);
+    setLevelId(null);
+    setMode("none");
+    setPendingMarker(null);
+  };
+
+  const handleSelectLevel = (id: Id<"floorPlans">) => {
+    setLevelId(id);
+    setMode("none");
+    setPendingMarker(null);
+  };
 
   const handleImageLoad = useCallback(() => {
     const img = imgRef.current;
@@ -157,25 +338,72 @@ export function FloorPlanViewer({
 
   const handleSaveMarker = async () => {
     if (!pendingMarker || !markerName.trim()) return;
-    await createMarker({
-      floorPlanId: floorPlan._id,
-      name: markerName.trim(),
-      icon: markerIcon.trim() || undefined,
-      x: pendingMarker.x,
-      y: pendingMarker.y,
-    });
+    const isRadio = markerRadio.kind !== "poi";
+    try {
+      await createMarker({
+        floorPlanId: floorPlan._id,
+        name: markerName.trim(),
+        icon: markerIcon.trim() || undefined,
+        category: markerCategory ?? undefined,
+        x: pendingMarker.x,
+        y: pendingMarker.y,
+        kind: markerRadio.kind,
+        beaconId: isRadio ? markerRadio.beaconId : undefined,
+        txPower: isRadio && markerRadio.txPower.trim() !== "" ? Number(markerRadio.txPower) : undefined,
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not place marker");
+      return;
+    }
     setPendingMarker(null);
     setMarkerName("");
     setMarkerIcon("");
+    setMarkerCategory(null);
+    setMarkerRadio(EMPTY_MARKER_RADIO);
+  };
+
+  const toggleLegendGroup = (group: LegendGroup) =>
+    setHiddenGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(group)) next.delete(group);
+      else next.add(group);
+      return next;
+    });
+
+  // Only exits and safety equipment, no live workers, fitted to the page
+  const handlePrintEvacuation = () => {
+    const evacuation: LegendGroup[] = EVACUATION_CATEGORIES;
+    setHiddenGroups(
+      new Set<LegendGroup>([
+        ...MARKER_CATEGORIES.filter((c) => !evacuation.includes(c)),
+        "general",
+        "radio",
+      ])
+    );
+    setMarkerSearch("");
+    setMode("none");
+    setPendingMarker(null);
+    handleFit();
+    setPrinting(true);
   };
 
+  // Print once the evacuation view has rendered
+  useEffect(() => {
+    if (!printing) return;
+    const id = setTimeout(() => {
+      window.print();
+      setPrinting(false);
+    });
+    return () => clearTimeout(id);
+  }, [printing]);
+
   const setModeExclusive = (m: typeof mode) =>
     setMode((prev) => (prev === m ? "none" : m));
 
-  const workersOnMap = workers.filter((w) => w.currentLocation);
+  const workersOnMap = workersOnLevel.filter((w) => w.currentLocation);
 
   const cursor =
-    mode === "zone" || mode === "calibrate" || mode === "marker"
+    mode === "zone" || mode === "calibrate" || mode === "marker" || mode === "corridor"
       ? "crosshair"
       : isPanning
         ? "grabbing"
@@ -184,7 +412,7 @@ export function FloorPlanViewer({
   return (
     <div
       ref={containerRef}
-      className="relative h-full w-full overflow-hidden bg-surface-0"
+      className="floorplan-print relative h-full w-full overflow-hidden bg-surface-0"
       onWheel={handleWheel}
       onPointerDown={handlePointerDown}
       onPointerMove={handlePointerMove}
@@ -240,6 +468,7 @@ export function FloorPlanViewer({
 
             <ZoneOverlay
               zones={floorPlan.zones}
+              occupancy={occupancy}
               displayW={displaySize.w}
               displayH={displaySize.h}
             />
@@ -248,35 +477,54 @@ export function FloorPlanViewer({
               floorPlanId={floorPlan._id}
               displayW={displaySize.w}
               displayH={displaySize.h}
+              hidden={hiddenGroups}
+              search={markerSearch}
             />
 
+            {/* Route preview for the selected worker */}
+            {route && mode === "none" && !printing && (
+              <polyline
+                points={route.points.map((p) => `${p.x * displaySize.w},${p.y * displaySize.h}`).join(" ")}
+                fill="none"
+                stroke="#00d4ff"
+                strokeWidth={3}
+                strokeDasharray="8,5"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                pointerEvents="none"
+              />
+            )}
+
             {/* Workers */}
-            {workers.map((worker) => {
-              const loc = worker.currentLocation;
-              let pos: { x: number; y: number } | null = null;
-              if (loc && transform) pos = transform(loc.latitude, loc.longitude);
-              const hasValid =
-                pos !== null && pos.x >= -0.1 && pos.x <= 1.1 && pos.y >= -0.1 && pos.y <= 1.1;
-              const cx = hasValid && pos ? pos.x * displaySize.w : displaySize.w / 2;
-              const cy = hasValid && pos ? pos.y * displaySize.h : displaySize.h / 2;
-              return (
-                <FloorPlanWorkerDot
-                  key={worker._id}
-                  workerId={worker._id}
-                  name={worker.name}
-                  cx={cx}
-                  cy={cy}
-                  isSelected={worker._id === selectedWorkerId}
-                  isOnDuty={worker.isOnDuty}
-                  batteryLevel={loc?.batteryLevel}
-                  isCharging={loc?.isCharging}
-                  lastSeen={worker.lastSeen}
-                  hasValidPosition={hasValid}
-                  onSelect={() => onSelectWorker(worker._id)}
-                  onSendCommand={() => onSendCommand(worker._id)}
-                />
-              );
-            })}
+            <g className="print:hidden">
+              {workersOnLevel.map((worker) => {
+                const loc = worker.currentLocation;
+                const indoor = loc?.indoor?.floorPlanId === floorPlan._id ? loc.indoor : undefined;
+                const pos = positionOf(worker);
+                const hasValid =
+                  pos !== null && pos.x >= -0.1 && pos.x <= 1.1 && pos.y >= -0.1 && pos.y <= 1.1;
+                const cx = hasValid && pos ? pos.x * displaySize.w : displaySize.w / 2;
+                const cy = hasValid && pos ? pos.y * displaySize.h : displaySize.h / 2;
+                return (
+                  <FloorPlanWorkerDot
+                    key={worker._id}
+                    workerId={worker._id}
+                    name={worker.name}
+                    cx={cx}
+                    cy={cy}
+                    isSelected={worker._id === selectedWorkerId}
+                    isOnDuty={worker.isOnDuty}
+                    batteryLevel={loc?.batteryLevel}
+                    isCharging={loc?.isCharging}
+                    lastSeen={worker.lastSeen}
+                    hasValidPosition={hasValid}
+                    indoorFix={indoor}
+                    onSelect={() => onSelectWorker(worker._id)}
+                    onSendCommand={() => onSendCommand(worker._id)}
+                  />
+                );
+              })}
+            </g>
 
             {mode === "zone" && (
               <ZoneDrawer
@@ -287,10 +535,21 @@ export function FloorPlanViewer({
               />
             )}
 
+            {mode === "corridor" && (
+              <CorridorEditor
+                floorPlanId={floorPlan._id}
+                displayW={displaySize.w}
+                displayH={displaySize.h}
+                onClose={() => setMode("none")}
+              />
+            )}
+
             {mode === "calibrate" && (
               <CalibrationTool
                 floorPlanId={floorPlan._id}
                 existingPoints={floorPlan.calibrationPoints}
+                existingMode={floorPlan.calibrationMode ?? "affine"}
+                canReproject={floorPlan.pendingReprojection}
                 displayW={displaySize.w}
                 displayH={displaySize.h}
                 imageWidth={floorPlan.imageWidth}
@@ -304,43 +563,93 @@ export function FloorPlanViewer({
 
       {/* ── Toolbar overlays ── */}
 
-      <div className="absolute left-3 top-3 z-[1000]">
-        <FloorPlanPicker currentPlanId={floorPlan._id} currentPlanName={floorPlan.name} />
+      <div className="absolute left-3 top-3 z-[1000] flex flex-col items-start gap-2 print:hidden">
+        <SiteTabs
+          sites={sites.map((s) => ({ key: siteKey(s), name: s.building?.name ?? s.name }))}
+          currentKey={siteKey(site)}
+          workerCounts={siteCounts}
+          onSelect={handleSelectSite}
+        />
+        {isMultiLevel && (
+          <FloorLevelSwitcher
+            levels={site.levels}
+            currentLevelId={floorPlan._id}
+            workerCounts={workerCounts}
+            onSelectLevel={handleSelectLevel}
+            selectedWorker={
+              selectedWorker && selectedFloor
+                ? {
+                    _id: selectedWorker._id,
+                    name: selectedWorker.name,
+                    levelId: selectedFloor.plan._id,
+                    source: selectedFloor.source,
+                  }
+                : null
+            }
+          />
+        )}
       </div>
 
-      <div className="absolute right-3 top-3 z-[1000] flex flex-col gap-2">
+      <div className="absolute right-3 top-3 z-[1000] flex flex-col items-end gap-2">
         <button
           onClick={handleFit}
           title="Fit to screen"
-          className="glass-strong rounded-xl p-2.5 text-white/50 shadow-lg hover:bg-white/5 hover:text-accent transition-all duration-200"
+          className="glass-strong rounded-xl p-2.5 print:hidden text-white/50 shadow-lg hover:bg-white/5 hover:text-accent transition-all duration-200"
         >
           <Maximize2 className="h-4 w-4" />
         </button>
         <button
           onClick={() => setModeExclusive("calibrate")}
           title="Calibrate GPS"
-          className={`glass-strong rounded-xl p-2.5 shadow-lg transition-all duration-200 ${mode === "calibrate" ? "text-accent bg-accent/10" : "text-white/50 hover:bg-white/5 hover:text-accent"}`}
+          className={`glass-strong rounded-xl p-2.5 shadow-lg transition-all duration-200 print:hidden ${mode === "calibrate" ? "text-accent bg-accent/10" : "text-white/50 hover:bg-white/5 hover:text-accent"}`}
         >
           <Sliders className="h-4 w-4" />
         </button>
         <button
           onClick={onOpenManager}
           title="Manage floor plans"
-          className="glass-strong rounded-xl p-2.5 text-white/50 shadow-lg hover:bg-white/5 hover:text-accent transition-all duration-200"
+          className="glass-strong rounded-xl p-2.5 print:hidden text-white/50 shadow-lg hover:bg-white/5 hover:text-accent transition-all duration-200"
         >
           <Settings className="h-4 w-4" />
         </button>
         <button
           onClick={onSwitchToMap}
           title="Switch to street map"
-          className="glass-strong rounded-xl p-2.5 text-white/50 shadow-lg hover:bg-white/5 hover:text-accent transition-all duration-200"
+          className="glass-strong rounded-xl p-2.5 print:hidden text-white/50 shadow-lg hover:bg-white/5 hover:text-accent transition-all duration-200"
         >
           <Map className="h-4 w-4" />
         </button>
+        <button
+          onClick={() => setShowLegend((v) => !v)}
+          title="Marker legend"
+          className={`glass-strong rounded-xl p-2.5 shadow-lg transition-all duration-200 print:hidden ${showLegend ? "text-accent bg-accent/10" : "text-white/50 hover:bg-white/5 hover:text-accent"}`}
+        >
+          <ListFilter className="h-4 w-4" />
+        </button>
+        {(showLegend || printing) && (
+          <MarkerLegend
+            markers={markers ?? []}
+            hidden={hiddenGroups}
+            onToggle={toggleLegendGroup}
+            search={markerSearch}
+            onSearch={setMarkerSearch}
+            onPrintEvacuation={handlePrintEvacuation}
+            onClose={() => setShowLegend(false)}
+          />
+        )}
       </div>
 
-      {/* Bottom-right: Draw zone + Add marker */}
-      <div className="absolute right-3 bottom-4 z-[1000] flex flex-col items-end gap-2">
+      {/* Bottom-right: Corridors + Draw zone + Add marker */}
+      <div className="absolute right-3 bottom-4 z-[1000] flex flex-col items-end gap-2 print:hidden">
+        <button
+          onClick={() => setModeExclusive("corridor")}
+          className={`glass-strong rounded-xl px-3.5 py-2 shadow-lg transition-all duration-200 flex items-center gap-2 text-sm font-body ${
+            mode === "corridor" ? "text-green-400 bg-green-400/10" : "text-white/50 hover:bg-white/5 hover:text-green-400"
+          }`}
+        >
+          <Waypoints className="h-4 w-4" />
+          {mode === "corridor" ? "Editing Corridors" : "Corridors"}
+        </button>
         <button
           onClick={() => setModeExclusive("marker")}
           className={`glass-strong rounded-xl px-3.5 py-2 shadow-lg transition-all duration-200 flex items-center gap-2 text-sm font-body ${
@@ -361,12 +670,29 @@ export function FloorPlanViewer({
         </button>
       </div>
 
-      {/* Bottom-left: worker count */}
-      <div className="absolute bottom-4 left-4 z-[1000] glass-strong rounded-xl px-3.5 py-2 shadow-lg">
-        <span className="text-sm text-white/50 font-body">
-          <span className="font-mono font-medium text-accent">{workersOnMap.length}</span>{" "}
-          worker{workersOnMap.length !== 1 ? "s" : ""} on map
-        </span>
+      {/* Bottom-left: route panel + worker count */}
+      <div className="absolute bottom-4 left-4 z-[1000] flex flex-col items-start gap-2 print:hidden">
+        {selectedWorker && routeFrom && corridors && corridors.edges.length > 0 && mode === "none" && (
+          <RoutePanel
+            workerName={selectedWorker.name}
+            markers={markers ?? []}
+            markerId={routeMarkerId}
+            onSelectMarker={setRouteMarkerId}
+            route={
+              routeMarker
+                ? { found: route !== null, distanceM: route && planSizeM ? route.length : undefined }
+                : null
+            }
+            sending={sendingRoute}
+            onSend={handleSendRoute}
+          />
+        )}
+        <div className="glass-strong rounded-xl px-3.5 py-2 shadow-lg">
+          <span className="text-sm text-white/50 font-body">
+            <span className="font-mono font-medium text-accent">{workersOnMap.length}</span>{" "}
+            worker{workersOnMap.length !== 1 ? "s" : ""} {isMultiLevel ? "on this level" : "on map"}
+          </span>
+        </div>
       </div>
 
       {/* ── New marker form ── */}
@@ -395,29 +721,16 @@ export function FloorPlanViewer({
               className="w-full rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-sm text-white mb-3 outline-none focus:border-amber-400/50 transition-colors"
             />
 
-            <div className="flex items-center gap-2 mb-2">
-              <input
-                placeholder="Icon (emoji)"
-                value={markerIcon}
-                onChange={(e) => setMarkerIcon(e.target.value)}
-                className="flex-1 rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-sm text-white outline-none focus:border-amber-400/50 transition-colors"
-              />
-            </div>
+            <MarkerRadioFields value={markerRadio} onChange={setMarkerRadio} />
 
-            {/* Quick-pick icons */}
-            <div className="flex flex-wrap gap-1.5 mb-4">
-              {ICON_PRESETS.map((ic) => (
-                <button
-                  key={ic}
-                  onClick={() => setMarkerIcon((prev) => (prev === ic ? "" : ic))}
-                  className={`rounded-lg px-1.5 py-1 text-base transition-colors ${
-                    markerIcon === ic ? "bg-amber-400/20 ring-1 ring-amber-400/40" : "hover:bg-white/10"
-                  }`}
-                >
-                  {ic}
-                </button>
-              ))}
-            </div>
+            <MarkerCategoryFields
+              category={markerCategory}
+              icon={markerIcon}
+              onChange={({ category, icon }) => {
+                setMarkerCategory(category);
+                setMarkerIcon(icon);
+              }}
+            />
 
             <div className="flex gap-2">
               <button
@@ -12,6 +12,8 @@ interface WorkerDotProps {
   isCharging?: boolean;
   lastSeen?: number;
   hasValidPosition: boolean;
+  /** Set when the dot is placed by beacons rather than projected GPS. */
+  indoorFix?: { beaconCount: number; accuracyM?: number };
   onSelect: () => void;
   onSendCommand: () => void;
 }
@@ -26,6 +28,7 @@ export function FloorPlanWorkerDot({
   isCharging,
   lastSeen,
   hasValidPosition,
+  indoorFix,
   onSelect,
   onSendCommand,
 }: WorkerDotProps) {
@@ -115,7 +118,7 @@ export function FloorPlanWorkerDot({
           x={cx + 14}
           y={cy - 60}
           width={180}
-          height={130}
+          height={146}
           style={{ overflow: "visible" }}
         >
           <div
@@ -134,9 +137,19 @@ export function FloorPlanWorkerDot({
                 Battery: <span className="text-white/80">{Math.round(batteryLevel * 100)}%{isCharging ? " ⚡" : ""}</span>
               </p>
             )}
-            <p className="text-white/50 mb-2">
+            <p className="text-white/50 mb-0.5">
               Last seen: <span className="text-white/80">{lastSeenText}</span>
             </p>
+            <p className="text-white/50 mb-2">
+              Position:{" "}
+              <span className="text-white/80">
+                {indoorFix
+                  ? `${indoorFix.beaconCount} beacon${indoorFix.beaconCount !== 1 ? "s" : ""}${
+                      indoorFix.accuracyM !== undefined ? ` ±${indoorFix.accuracyM.toFixed(1)} m` : ""
+                    }`
+                  : "GPS"}
+              </span>
+            </p>
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -0,0 +1,106 @@
+import { MARKER_CATEGORIES, type MarkerCategory } from "../../../convex/lib/markerCategories";
+import { MARKER_KIND_COLORS, MARKER_KIND_GLYPHS, type MarkerKind } from "./MarkerRadioFields";
+
+export const MARKER_CATEGORY_STYLES: Record<MarkerCategory, { label: string; icon: string; color: string }> = {
+  exit: { label: "Exits", icon: "🚪", color: "#22c55e" },
+  fire_extinguisher: { label: "Fire extinguishers", icon: "🧯", color: "#ef4444" },
+  aed: { label: "AEDs", icon: "❤️", color: "#ec4899" },
+  asset: { label: "Assets", icon: "📦", color: "#0ea5e9" },
+  equipment: { label: "Equipment", icon: "🔧", color: "#14b8a6" },
+};
+
+/** Icon choices offered for each category; the first is the category's default. */
+const ICON_LIBRARY: { category: MarkerCategory | null; icons: string[] }[] = [
+  { category: "exit", icons: ["🚪", "🏃", "⬅️", "➡️", "⬆️", "🪜"] },
+  { category: "fire_extinguisher", icons: ["🧯", "🔥", "🚒", "🚿", "🧑‍🚒"] },
+  { category: "aed", icons: ["❤️", "⛑️", "🩺", "🩹", "⚕️"] },
+  { category: "asset", icons: ["📦", "💻", "🖨️", "📱", "🗄️", "🔑"] },
+  { category: "equipment", icons: ["🔧", "🏭", "⚙️", "🚜", "⛽", "🔌"] },
+  { category: null, icons: ["📍", "🚨", "⚡", "🅿️", "🚻", "☕"] },
+];
+
+export interface MarkerStyleSource {
+  name: string;
+  icon?: string;
+  category?: MarkerCategory;
+  kind?: MarkerKind;
+}
+
+/**
+ * Pin color and label. Radio markers keep their kind's color so beacons stand
+ * out; otherwise the category decides, and an explicit icon beats the
+ * category's default.
+ */
+export function markerAppearance(marker: MarkerStyleSource): { color: string; label: string } {
+  const kind = marker.kind ?? "poi";
+  const category = marker.category ? MARKER_CATEGORY_STYLES[marker.category] : undefined;
+  return {
+    color: kind === "poi" && category ? category.color : MARKER_KIND_COLORS[kind],
+    label:
+      marker.icon?.trim() ||
+      category?.icon ||
+      MARKER_KIND_GLYPHS[kind] ||
+      marker.name[0]?.toUpperCase() ||
+      "?",
+  };
+}
+
+interface MarkerCategoryFieldsProps {
+  category: MarkerCategory | null;
+  icon: string;
+  onChange: (value: { category: MarkerCategory | null; icon: string }) => void;
+}
+
+/** Category picker plus the icon library, with the chosen category's icons first. */
+export function MarkerCategoryFields({ category, icon, onChange }: MarkerCategoryFieldsProps) {
+  const groups = [...ICON_LIBRARY].sort(
+    (a, b) => Number(b.category === category) - Number(a.category === category)
+  );
+
+  return (
+    <div className="mb-3 space-y-2">
+      <select
+        value={category ?? ""}
+        onChange={(e) => {
+          const next = (e.target.value || null) as MarkerCategory | null;
+          // Swap a library icon for the new category's default; keep custom ones
+          const isLibraryIcon = ICON_LIBRARY.some((g) => g.icons.includes(icon));
+          onChange({ category: next, icon: isLibraryIcon || !icon ? "" : icon });
+        }}
+        className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-sm text-white outline-none focus:border-amber-400/50 transition-colors"
+      >
+        <option value="">General point of interest</option>
+        {MARKER_CATEGORIES.map((c) => (
+          <option key={c} value={c}>
+            {MARKER_CATEGORY_STYLES[c].icon} {MARKER_CATEGORY_STYLES[c].label}
+          </option>
+        ))}
+      </select>
+
+      <input
+        value={icon}
+        onChange={(e) => onChange({ category, icon: e.target.value })}
+        placeholder={category ? `Icon (default ${MARKER_CATEGORY_STYLES[category].icon})` : "Icon (emoji)"}
+        className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-sm text-white outline-none focus:border-amber-400/50 transition-colors"
+      />
+
+      <div className="max-h-24 space-y-1 overflow-y-auto">
+        {groups.map((group) => (
+          <div key={group.category ?? "general"} className="flex flex-wrap gap-1">
+            {group.icons.map((ic) => (
+              <button
+                key={ic}
+                onClick={() => onChange({ category, icon: icon === ic ? "" : ic })}
+                className={`rounded-lg px-1.5 py-1 text-base transition-colors ${
+                  icon === ic ? "bg-amber-400/25 ring-1 ring-amber-400/50" : "hover:bg-white/10"
+                }`}
+              >
+                {ic}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { Eye, EyeOff, Printer, Search, X } from "lucide-react";
+import { MARKER_CATEGORIES, type MarkerCategory } from "../../../convex/lib/markerCategories";
+import { MARKER_CATEGORY_STYLES, markerAppearance, type MarkerStyleSource } from "./MarkerCategoryFields";
+import { MARKER_KIND_COLORS } from "./MarkerRadioFields";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+/** Legend rows: the categories, uncategorized points, and positioning beacons. */
+export type LegendGroup = MarkerCategory | "general" | "radio";
+
+const GROUPS: { group: LegendGroup; label: string; icon: string; color: string }[] = [
+  ...MARKER_CATEGORIES.map((c) => ({ group: c, ...MARKER_CATEGORY_STYLES[c] })),
+  { group: "general", label: "Other points", icon: "📍", color: MARKER_KIND_COLORS.poi },
+  { group: "radio", label: "Beacons & access points", icon: "ᛒ", color: MARKER_KIND_COLORS.ble_beacon },
+];
+
+export function legendGroupOf(marker: MarkerStyleSource): LegendGroup {
+  if (marker.kind && marker.kind !== "poi") return "radio";
+  return marker.category ?? "general";
+}
+
+export function markerMatches(marker: { name: string }, search: string): boolean {
+  const q = search.trim().toLowerCase();
+  return !q || marker.name.toLowerCase().includes(q);
+}
+
+interface MarkerLegendProps {
+  markers: (MarkerStyleSource & { _id: Id<"floorMarkers"> })[];
+  hidden: ReadonlySet<LegendGroup>;
+  onToggle: (group: LegendGroup) => void;
+  search: string;
+  onSearch: (search: string) => void;
+  onPrintEvacuation: () => void;
+  onClose: () => void;
+}
+
+/** Marker counts per category with visibility toggles, and a name search. */
+export function MarkerLegend({
+  markers,
+  hidden,
+  onToggle,
+  search,
+  onSearch,
+  onPrintEvacuation,
+  onClose,
+}: MarkerLegendProps) {
+  const counts: Partial<Record<LegendGroup, number>> = {};
+  for (const m of markers) {
+    const g = legendGroupOf(m);
+    counts[g] = (counts[g] ?? 0) + 1;
+  }
+  const matches = search.trim() ? markers.filter((m) => markerMatches(m, search)) : [];
+
+  return (
+    <div className="glass-strong w-64 rounded-xl p-3 shadow-lg font-body">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-xs font-semibold uppercase tracking-wider text-white/50">Legend</span>
+        <button onClick={onClose} className="text-white/30 hover:text-white/70 print:hidden">
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      <div className="relative mb-2 print:hidden">
+        <Search className="pointer-events-none absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-white/30" />
+        <input
+          value={search}
+          onChange={(e) => onSearch(e.target.value)}
+          placeholder="Find a marker…"
+          className="w-full rounded-lg bg-white/5 border border-white/10 py-1.5 pl-7 pr-2 text-sm text-white outline-none focus:border-accent/50"
+        />
+      </div>
+
+      {search.trim() && (
+        <div className="mb-2 max-h-32 overflow-y-auto border-b border-white/5 pb-2 print:hidden">
+          {matches.length === 0 ? (
+            <p className="text-xs text-white/30">No markers match</p>
+          ) : (
+            matches.map((m) => {
+              const { color, label } = markerAppearance(m);
+              return (
+                <div key={m._id} className="flex items-center gap-2 py-0.5 text-xs text-white/70">
+                  <span
+                    className="flex h-4 w-4 shrink-0 items-center justify-center rounded-full text-[9px]"
+                    style={{ background: color }}
+                  >
+                    {label}
+                  </span>
+                  <span className="truncate">{m.name}</span>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+
+      <div className="space-y-0.5">
+        {GROUPS.filter(({ group }) => counts[group] || (group !== "general" && group !== "radio")).map(
+          ({ group, label, icon, color }) => {
+            const isHidden = hidden.has(group);
+            return (
+              <button
+                key={group}
+                onClick={() => onToggle(group)}
+                className={`flex w-full items-center gap-2 rounded-lg px-1.5 py-1 text-left text-xs transition-colors hover:bg-white/5 ${
+                  isHidden ? "text-white/25 print:hidden" : "text-white/70"
+                }`}
+              >
+                <span
+                  className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-[10px]"
+                  style={{ background: color, opacity: isHidden ? 0.3 : 1 }}
+                >
+                  {icon}
+                </span>
+                <span className="flex-1 truncate">{label}</span>
+                <span className="font-mono text-white/30">{counts[group] ?? 0}</span>
+                {isHidden ? (
+                  <EyeOff className="h-3.5 w-3.5 print:hidden" />
+                ) : (
+                  <Eye className="h-3.5 w-3.5 text-white/30 print:hidden" />
+                )}
+              </button>
+            );
+          }
+        )}
+      </div>
+
+      <button
+        onClick={onPrintEvacuation}
+        className="mt-2 flex w-full items-center justify-center gap-1.5 rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-400 py-1.5 text-xs font-medium transition-colors print:hidden"
+      >
+        <Printer className="h-3.5 w-3.5" />
+        Print evacuation view
+      </button>
+    </div>
+  );
+}
@@ -2,19 +2,31 @@ import { useState } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import {
+  MarkerRadioFields,
+  radioFromMarker,
+  EMPTY_MARKER_RADIO,
+  type MarkerRadio,
+} from "./MarkerRadioFields";
+import { MarkerCategoryFields, markerAppearance } from "./MarkerCategoryFields";
+import { legendGroupOf, markerMatches, type LegendGroup } from "./MarkerLegend";
+import type { MarkerCategory } from "../../../convex/lib/markerCategories";
 
 interface MarkerOverlayProps {
   floorPlanId: Id<"floorPlans">;
   displayW: number;
   displayH: number;
+  /** Legend groups toggled off. */
+  hidden: ReadonlySet<LegendGroup>;
+  /** Legend search; markers that don't match are dimmed. */
+  search: string;
 }
 
 const HEAD_R = 10;
 const HEAD_OFFSET = HEAD_R + 6; // distance from tip to circle center
 
-const ICON_PRESETS = ["📍", "🚨", "⚡", "🚪", "📦", "🔧", "💻", "🏭", "⛽", "🅿️"];
-
-export function MarkerOverlay({ floorPlanId, displayW, displayH }: MarkerOverlayProps) {
+export function MarkerOverlay({ floorPlanId, displayW, displayH, hidden, search }: MarkerOverlayProps) {
   const markers = useQuery(api.floorPlans.getFloorMarkers, { floorPlanId }) ?? [];
   const updateMarker = useMutation(api.floorPlans.updateFloorMarker);
   const deleteMarker = useMutation(api.floorPlans.deleteFloorMarker);
@@ -22,6 +34,8 @@ export function MarkerOverlay({ floorPlanId, displayW, displayH }: MarkerOverlay
   const [editingId, setEditingId] = useState<Id<"floorMarkers"> | null>(null);
   const [editName, setEditName] = useState("");
   const [editIcon, setEditIcon] = useState("");
+  const [editCategory, setEditCategory] = useState<MarkerCategory | null>(null);
+  const [editRadio, setEditRadio] = useState<MarkerRadio>(EMPTY_MARKER_RADIO);
 
   const editing = markers.find((m) => m._id === editingId) ?? null;
 
@@ -29,16 +43,26 @@ export function MarkerOverlay({ floorPlanId, displayW, displayH }: MarkerOverlay
     setEditingId(m._id);
     setEditName(m.name);
     setEditIcon(m.icon ?? "");
+    setEditCategory(m.category ?? null);
+    setEditRadio(radioFromMarker(m));
   };
 
   const handleSave = async () => {
     if (!editingId) return;
-    await updateMarker({
-      markerId: editingId,
-      name: editName.trim() || "Marker",
-      icon: editIcon.trim() || undefined,
-    });
-    setEditingId(null);
+    try {
+      await updateMarker({
+        markerId: editingId,
+        name: editName.trim() || "Marker",
+        icon: editIcon.trim(),
+        category: editCategory,
+        kind: editRadio.kind,
+        beaconId: editRadio.kind === "poi" ? undefined : editRadio.beaconId,
+        txPower: editRadio.txPower.trim() === "" ? null : Number(editRadio.txPower),
+      });
+      setEditingId(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not save marker");
+    }
   };
 
   const handleDelete = async () => {
@@ -49,16 +73,17 @@ export function MarkerOverlay({ floorPlanId, displayW, displayH }: MarkerOverlay
 
   return (
     <>
-      {markers.map((marker) => {
+      {markers.filter((m) => !hidden.has(legendGroupOf(m))).map((marker) => {
         const cx = marker.x * displayW;
         const cy = marker.y * displayH;
         const headCy = cy - HEAD_OFFSET;
-        const label = marker.icon?.trim() || marker.name[0]?.toUpperCase() || "?";
+        const { color, label } = markerAppearance(marker);
 
         return (
           <g
             key={marker._id}
             className="cursor-pointer"
+            opacity={markerMatches(marker, search) ? 1 : 0.25}
             onClick={(e) => {
               e.stopPropagation();
               openEdit(marker);
@@ -69,14 +94,14 @@ export function MarkerOverlay({ floorPlanId, displayW, displayH }: MarkerOverlay
               cx={cx}
               cy={headCy}
               r={HEAD_R}
-              fill="#f59e0b"
+              fill={color}
               stroke="rgba(0,0,0,0.4)"
               strokeWidth={1.5}
             />
             {/* Pin triangle pointer */}
             <polygon
               points={`${cx - 5},${headCy + HEAD_R - 1} ${cx + 5},${headCy + HEAD_R - 1} ${cx},${cy}`}
-              fill="#f59e0b"
+              fill={color}
             />
             {/* Icon / first letter */}
             <text
@@ -115,7 +140,7 @@ export function MarkerOverlay({ floorPlanId, displayW, displayH }: MarkerOverlay
           x={Math.min(editing.x * displayW + 16, displayW - 240)}
           y={Math.max(editing.y * displayH - HEAD_OFFSET - 120, 8)}
           width={230}
-          height={220}
+          height={420}
           style={{ overflow: "visible" }}
         >
           <div
@@ -143,28 +168,16 @@ export function MarkerOverlay({ floorPlanId, displayW, displayH }: MarkerOverlay
               className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-sm text-white mb-2 outline-none focus:border-amber-400/50 transition-colors"
             />
 
-            {/* Icon custom input */}
-            <input
-              value={editIcon}
-              onChange={(e) => setEditIcon(e.target.value)}
-              placeholder="Icon (emoji or leave blank)"
-              className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-sm text-white mb-2 outline-none focus:border-amber-400/50 transition-colors"
-            />
+            <MarkerRadioFields value={editRadio} onChange={setEditRadio} />
 
-            {/* Quick-pick icons */}
-            <div className="flex flex-wrap gap-1 mb-3">
-              {ICON_PRESETS.map((ic) => (
-                <button
-                  key={ic}
-                  onClick={() => setEditIcon(ic)}
-                  className={`rounded-lg px-1.5 py-1 text-base transition-colors ${
-                    editIcon === ic ? "bg-amber-400/25 ring-1 ring-amber-400/50" : "hover:bg-white/10"
-                  }`}
-                >
-                  {ic}
-                </button>
-              ))}
-            </div>
+            <MarkerCategoryFields
+              category={editCategory}
+              icon={editIcon}
+              onChange={({ category, icon }) => {
+                setEditCategory(category);
+                setEditIcon(icon);
+              }}
+            />
 
             <div className="flex gap-2">
               <button
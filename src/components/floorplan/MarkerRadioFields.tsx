@@ -0,0 +1,85 @@
+import { DEFAULT_TX_POWER } from "../../../convex/lib/indoorPositioning";
+
+export type MarkerKind = "poi" | "ble_beacon" | "wifi_ap";
+
+export interface MarkerRadio {
+  kind: MarkerKind;
+  beaconId: string;
+  txPower: string; // input text; blank = default for the kind
+}
+
+export const EMPTY_MARKER_RADIO: MarkerRadio = { kind: "poi", beaconId: "", txPower: "" };
+
+export const MARKER_KIND_COLORS: Record<MarkerKind, string> = {
+  poi: "#f59e0b",
+  ble_beacon: "#8b5cf6",
+  wifi_ap: "#3b82f6",
+};
+
+/** Pin label for radio markers without their own icon. */
+export const MARKER_KIND_GLYPHS: Partial<Record<MarkerKind, string>> = {
+  ble_beacon: "ᛒ",
+  wifi_ap: "📶",
+};
+
+const KINDS: { kind: MarkerKind; label: string }[] = [
+  { kind: "poi", label: "Point" },
+  { kind: "ble_beacon", label: "BLE beacon" },
+  { kind: "wifi_ap", label: "Wi-Fi AP" },
+];
+
+export function radioFromMarker(marker: {
+  kind?: MarkerKind;
+  beaconId?: string;
+  txPower?: number;
+}): MarkerRadio {
+  return {
+    kind: marker.kind ?? "poi",
+    beaconId: marker.beaconId ?? "",
+    txPower: marker.txPower !== undefined ? String(marker.txPower) : "",
+  };
+}
+
+interface MarkerRadioFieldsProps {
+  value: MarkerRadio;
+  onChange: (value: MarkerRadio) => void;
+}
+
+/** Marker kind picker plus the identifier and 1 m signal strength beacons need. */
+export function MarkerRadioFields({ value, onChange }: MarkerRadioFieldsProps) {
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex gap-1">
+        {KINDS.map(({ kind, label }) => (
+          <button
+            key={kind}
+            onClick={() => onChange({ ...value, kind })}
+            className={`flex-1 rounded-lg px-1.5 py-1 text-[11px] transition-colors ${
+              value.kind === kind ? "bg-white/10 text-white" : "text-white/40 hover:bg-white/5 hover:text-white/70"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {value.kind !== "poi" && (
+        <div className="flex gap-2">
+          <input
+            value={value.beaconId}
+            onChange={(e) => onChange({ ...value, beaconId: e.target.value })}
+            placeholder={value.kind === "wifi_ap" ? "BSSID (aa:bb:cc:dd:ee:ff)" : "uuid:major:minor"}
+            className="min-w-0 flex-1 rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-xs text-white font-mono outline-none focus:border-amber-400/50 transition-colors"
+          />
+          <input
+            type="number"
+            value={value.txPower}
+            onChange={(e) => onChange({ ...value, txPower: e.target.value })}
+            placeholder={String(DEFAULT_TX_POWER[value.kind])}
+            title="Measured RSSI at 1 m (dBm)"
+            className="w-16 rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400/50 transition-colors"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
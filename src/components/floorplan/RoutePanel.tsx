@@ -0,0 +1,66 @@
+import { Route, Send } from "lucide-react";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+interface RoutePanelProps {
+  workerName: string;
+  markers: { _id: Id<"floorMarkers">; name: string; icon?: string }[];
+  markerId: Id<"floorMarkers"> | null;
+  onSelectMarker: (id: Id<"floorMarkers"> | null) => void;
+  /** Null while no destination is picked; `found: false` when the corridors don't connect. */
+  route: { found: boolean; distanceM?: number } | null;
+  sending: boolean;
+  onSend: () => void;
+}
+
+/** Picks a destination marker for the selected worker and sends them the route. */
+export function RoutePanel({
+  workerName,
+  markers,
+  markerId,
+  onSelectMarker,
+  route,
+  sending,
+  onSend,
+}: RoutePanelProps) {
+  return (
+    <div className="glass-strong w-64 rounded-xl p-3 shadow-lg font-body">
+      <p className="mb-2 flex items-center gap-1.5 text-xs text-white/50">
+        <Route className="h-3.5 w-3.5 text-accent" />
+        Route <span className="truncate font-medium text-white/80">{workerName}</span> to
+      </p>
+      <select
+        value={markerId ?? ""}
+        onChange={(e) => onSelectMarker(e.target.value ? (e.target.value as Id<"floorMarkers">) : null)}
+        className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-sm text-white outline-none focus:border-accent/50"
+      >
+        <option value="">Choose a marker…</option>
+        {markers.map((m) => (
+          <option key={m._id} value={m._id}>
+            {m.icon ? `${m.icon} ` : ""}
+            {m.name}
+          </option>
+        ))}
+      </select>
+
+      {route && (
+        <div className="mt-2 flex items-center justify-between gap-2">
+          <span className={`text-xs ${route.found ? "text-white/50" : "text-red-400"}`}>
+            {!route.found
+              ? "No corridor connects them"
+              : route.distanceM !== undefined
+                ? `${Math.round(route.distanceM)} m walk`
+                : "Calibrate the plan for distances"}
+          </span>
+          <button
+            onClick={onSend}
+            disabled={!route.found || sending}
+            className="flex items-center gap-1.5 rounded-lg bg-accent/20 hover:bg-accent/30 text-accent px-2.5 py-1 text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Send className="h-3 w-3" />
+            Send route
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+interface SiteTabsProps {
+  sites: { key: string; name: string }[];
+  currentKey: string;
+  /** Workers currently inside each site's footprint. */
+  workerCounts: Record<string, number>;
+  onSelect: (key: string) => void;
+}
+
+/** One tab per active site; a single site is shown as a plain label. */
+export function SiteTabs({ sites, currentKey, workerCounts, onSelect }: SiteTabsProps) {
+  if (sites.length <= 1) {
+    return (
+      <div className="glass-strong rounded-xl px-3.5 py-2 shadow-lg">
+        <span className="text-sm text-white/70 font-body font-medium">{sites[0]?.name}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-strong flex max-w-[min(36rem,calc(100vw-8rem))] gap-1 overflow-x-auto rounded-xl p-1 shadow-lg font-body">
+      {sites.map((site) => {
+        const count = workerCounts[site.key] ?? 0;
+        const isCurrent = site.key === currentKey;
+        return (
+          <button
+            key={site.key}
+            onClick={() => onSelect(site.key)}
+            className={`flex shrink-0 items-center gap-2 rounded-lg px-3 py-1.5 text-sm transition-colors ${
+              isCurrent ? "bg-accent/10 text-accent" : "text-white/60 hover:bg-white/5 hover:text-white"
+            }`}
+          >
+            <span className="font-medium">{site.name}</span>
+            <span className={`font-mono text-xs ${count > 0 ? "text-white/70" : "text-white/20"}`}>
+              {count}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -2,23 +2,46 @@ import { useState } from "react";
 import { useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
+import {
+  ZoneRestrictionFields,
+  restrictionFromZone,
+  type ZoneRestriction,
+} from "../map/ZoneRestrictionFields";
 
-interface Zone {
+export interface Zone {
   _id: Id<"floorZones">;
   name: string;
   color: string;
   points: { x: number; y: number }[];
+  restricted?: boolean;
+  allowedWorkerIds?: Id<"workers">[];
+  allowedRoles?: ("worker" | "admin")[];
+  autoSoundAlert?: boolean;
+  capacity?: number;
+}
+
+interface ZoneOccupancy {
+  _id: Id<"floorZones">;
+  workerCount: number;
+  workers: { _id: Id<"workers">; name: string }[];
 }
 
 interface ZoneOverlayProps {
   zones: Zone[];
+  /** Live counts from `getFloorZoneOccupancy`; badges are hidden until it loads. */
+  occupancy?: ZoneOccupancy[];
   displayW: number;
   displayH: number;
 }
 
-export function ZoneOverlay({ zones, displayW, displayH }: ZoneOverlayProps) {
+const OVER_CAPACITY_COLOR = "#ef4444";
+const AT_CAPACITY_COLOR = "#fbbf24";
+
+export function ZoneOverlay({ zones, occupancy, displayW, displayH }: ZoneOverlayProps) {
   const [activeZone, setActiveZone] = useState<Zone | null>(null);
   const [editName, setEditName] = useState("");
+  const [editCapacity, setEditCapacity] = useState("");
+  const [editRestriction, setEditRestriction] = useState<ZoneRestriction>(restrictionFromZone({}));
   const deleteZone = useMutation(api.floorPlans.deleteFloorZone);
   const updateZone = useMutation(api.floorPlans.updateFloorZone);
 
@@ -29,37 +52,49 @@ export function ZoneOverlay({ zones, displayW, displayH }: ZoneOverlayProps) {
           .map((p) => `${p.x * displayW},${p.y * displayH}`)
           .join(" ");
 
+        const live = occupancy?.find((o) => o._id === zone._id);
+        const count = live?.workerCount ?? 0;
+        const isOver = zone.capacity !== undefined && count > zone.capacity;
+        const isFull = zone.capacity !== undefined && count === zone.capacity;
+        const color = isOver ? OVER_CAPACITY_COLOR : zone.color;
+
+        const cx = zone.points.length > 0
+          ? (zone.points.reduce((s, p) => s + p.x, 0) / zone.points.length) * displayW
+          : 0;
+        const cy = zone.points.length > 0
+          ? (zone.points.reduce((s, p) => s + p.y, 0) / zone.points.length) * displayH
+          : 0;
+        const badge = zone.capacity !== undefined ? `${count}/${zone.capacity}` : String(count);
+        const badgeW = 10 + badge.length * 7;
+
         return (
           <g key={zone._id}>
             <polygon
               points={pointsStr}
-              fill={zone.color}
-              fillOpacity={0.2}
-              stroke={zone.color}
+              fill={color}
+              fillOpacity={isOver ? 0.35 : 0.2}
+              stroke={color}
               strokeWidth={1.5}
               strokeOpacity={0.8}
+              strokeDasharray={zone.restricted ? "6 4" : undefined}
               className="cursor-pointer hover:fill-opacity-30 transition-all"
               onClick={(e) => {
                 e.stopPropagation();
                 setActiveZone(zone);
                 setEditName(zone.name);
+                setEditRestriction(restrictionFromZone(zone));
+                setEditCapacity(zone.capacity !== undefined ? String(zone.capacity) : "");
               }}
             />
             {/* Zone label at centroid */}
             {zone.points.length > 0 && (
               <text
-                x={
-                  (zone.points.reduce((s, p) => s + p.x, 0) / zone.points.length) *
-                  displayW
-                }
-                y={
-                  (zone.points.reduce((s, p) => s + p.y, 0) / zone.points.length) *
-                  displayH
-                }
+                x={cx}
+                y={cy}
                 textAnchor="middle"
                 dominantBaseline="middle"
                 fontSize={12}
-                fill={zone.color}
+                fill={color}
                 stroke="rgba(0,0,0,0.5)"
                 strokeWidth={3}
                 paintOrder="stroke"
@@ -68,13 +103,40 @@ export function ZoneOverlay({ zones, displayW, displayH }: ZoneOverlayProps) {
                 {zone.name}
               </text>
             )}
+            {/* Occupancy badge under the label; hover lists who is inside */}
+            {live && zone.points.length > 0 && (
+              <g transform={`translate(${cx}, ${cy + 16})`}>
+                <title>
+                  {live.workers.length > 0 ? live.workers.map((w) => w.name).join(", ") : "Empty"}
+                </title>
+                <rect
+                  x={-badgeW / 2}
+                  y={-8}
+                  width={badgeW}
+                  height={16}
+                  rx={8}
+                  fill={isOver ? OVER_CAPACITY_COLOR : "rgba(0,0,0,0.6)"}
+                  stroke={isOver ? "none" : isFull ? AT_CAPACITY_COLOR : zone.color}
+                  strokeWidth={1}
+                />
+                <text
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={10}
+                  fontFamily="monospace"
+                  fill={isOver ? "#fff" : isFull ? AT_CAPACITY_COLOR : "rgba(255,255,255,0.85)"}
+                >
+                  {badge}
+                </text>
+              </g>
+            )}
           </g>
         );
       })}
 
       {/* Zone popup */}
       {activeZone && (
-        <foreignObject x={10} y={10} width={220} height={160} style={{ overflow: "visible" }}>
+        <foreignObject x={10} y={10} width={240} height={400} style={{ overflow: "visible" }}>
           <div
             className="rounded-xl p-4 shadow-xl text-sm text-white font-body"
             style={{ background: "rgba(15,20,30,0.95)", border: "1px solid rgba(255,255,255,0.12)" }}
@@ -94,10 +156,28 @@ export function ZoneOverlay({ zones, displayW, displayH }: ZoneOverlayProps) {
               onChange={(e) => setEditName(e.target.value)}
               className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1 text-sm text-white mb-3 outline-none focus:border-accent/50"
             />
+            <label className="mb-3 flex items-center gap-2 text-xs text-white/60">
+              Capacity
+              <input
+                type="number"
+                min={1}
+                step={1}
+                placeholder="None"
+                value={editCapacity}
+                onChange={(e) => setEditCapacity(e.target.value)}
+                className="w-20 rounded-lg bg-white/5 border border-white/10 px-2 py-1 text-sm text-white outline-none focus:border-accent/50"
+              />
+            </label>
+            <ZoneRestrictionFields value={editRestriction} onChange={setEditRestriction} />
             <div className="flex gap-2">
               <button
                 onClick={async () => {
-                  await updateZone({ zoneId: activeZone._id, name: editName });
+                  await updateZone({
+                    zoneId: activeZone._id,
+                    name: editName,
+                    capacity: editCapacity.trim() === "" ? null : Number(editCapacity),
+                    ...editRestriction,
+                  });
                   setActiveZone(null);
                 }}
                 className="flex-1 rounded-lg bg-accent/20 hover:bg-accent/30 text-accent py-1.5 text-xs font-medium transition-colors"
@@ -1,7 +1,7 @@
 import { UserButton, useUser } from "@clerk/clerk-react";
 import { useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
-import { Menu, MapPin, Building2, Settings, CalendarDays } from "lucide-react";
+import { Menu, MapPin, Building2, Settings, CalendarDays, BarChart3, MessageSquare } from "lucide-react";
 import { Link, useNavigate } from "@tanstack/react-router";
 
 interface HeaderProps {
@@ -20,6 +20,8 @@ export function Header({
   const { user } = useUser();
   const navigate = useNavigate();
   const organization = useQuery(api.organizations.getMyOrganization);
+  const unreadReplies = useQuery(api.commands.getUnreadReplies);
+  const latestUnread = unreadReplies?.byWorker[0];
 
   return (
     <header className="gradient-border-b relative flex h-14 shrink-0 items-center justify-between bg-surface-1/90 backdrop-blur-xl px-5">
@@ -64,6 +66,20 @@ export function Header({
           </button>
         ) : null}
 
+        {latestUnread && (
+          <Link to="/workers/$workerId" params={{ workerId: latestUnread.workerId }}>
+            <button
+              className="relative rounded-lg p-2 text-accent/80 hover:bg-white/5 hover:text-accent transition-all duration-200"
+              title={`${unreadReplies.total} unread repl${unreadReplies.total !== 1 ? "ies" : "y"}`}
+            >
+              <MessageSquare className="h-4 w-4" />
+              <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-accent px-1 font-mono text-[9px] font-bold text-surface-0">
+                {unreadReplies.total > 99 ? "99+" : unreadReplies.total}
+              </span>
+            </button>
+          </Link>
+        )}
+
         {organization && (
           <Link to="/tasks">
             <button
@@ -75,6 +91,17 @@ export function Header({
           </Link>
         )}
 
+        {organization && (
+          <Link to="/reports">
+            <button
+              className="rounded-lg p-2 text-white/30 hover:bg-white/5 hover:text-white/70 transition-all duration-200"
+              title="Reports"
+            >
+              <BarChart3 className="h-4 w-4" />
+            </button>
+          </Link>
+        )}
+
         {organization && (
           <button
             onClick={() => navigate({ to: "/settings" })}
@@ -5,11 +5,27 @@ import "leaflet/dist/leaflet.css";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { WorkerMarker } from "./WorkerMarker";
-import { MapZoneDrawer } from "./MapZoneDrawer";
+import { MapZoneDrawer, type DrawnZone, type ZoneDrawMode } from "./MapZoneDrawer";
 import { MapZoneOverlay } from "./MapZoneOverlay";
-import { Maximize2, LayoutDashboard, LayoutTemplate, PenLine, X } from "lucide-react";
+import { RoutePlaybackLayer, RoutePlaybackPanel, useRoutePlayback } from "./RoutePlayback";
+import { MapZoneTransfer } from "./MapZoneTransfer";
+import { Maximize2, LayoutDashboard, LayoutTemplate, PenLine, X, History, Layers, Hexagon, Circle as CircleIcon, Route } from "lucide-react";
 import type { Id } from "../../../convex/_generated/dataModel";
 
+const DEFAULT_CORRIDOR_WIDTH_M = 20;
+
+const DRAW_MODES: { mode: ZoneDrawMode; label: string; Icon: typeof Hexagon }[] = [
+  { mode: "polygon", label: "Polygon", Icon: Hexagon },
+  { mode: "circle", label: "Circle", Icon: CircleIcon },
+  { mode: "corridor", label: "Corridor", Icon: Route },
+];
+
+const DRAW_INSTRUCTIONS: Record<ZoneDrawMode, string> = {
+  polygon: "Click to place points · Click the first point (white dot) to close · Esc to cancel",
+  circle: "Click the centre · Click again to set the radius · Esc to cancel",
+  corridor: "Click along the route · Click the last point (white dot) to finish · Esc to cancel",
+};
+
 interface WorkerWithLocation {
   _id: Id<"workers">;
   name: string;
@@ -82,9 +98,17 @@ export function LiveMap({
 
   // Zone drawing state
   const [drawingZone, setDrawingZone] = useState(false);
-  const [pendingPoints, setPendingPoints] = useState<{ lat: number; lng: number }[] | null>(null);
+  const [drawMode, setDrawMode] = useState<ZoneDrawMode>("polygon");
+  const [pendingZone, setPendingZone] = useState<DrawnZone | null>(null);
   const [zoneName, setZoneName] = useState("");
   const [zoneColor, setZoneColor] = useState("#00d4ff");
+  const [zoneSize, setZoneSize] = useState(""); // circle radius / corridor width, metres
+
+  // Route playback state
+  const [showPlayback, setShowPlayback] = useState(false);
+  const playback = useRoutePlayback(selectedWorkerId);
+
+  const [showZoneTransfer, setShowZoneTransfer] = useState(false);
 
   const mapZones = useQuery(api.mapZones.getMapZones) ?? [];
   const createZone = useMutation(api.mapZones.createMapZone);
@@ -101,23 +125,36 @@ export function LiveMap({
     else mapRef.current.fitBounds(bounds, { padding: [50, 50] });
   };
 
-  const handlePolygonComplete = (pts: { lat: number; lng: number }[]) => {
+  const handleZoneComplete = (zone: DrawnZone) => {
     setDrawingZone(false);
-    setPendingPoints(pts);
+    setPendingZone(zone);
+    setZoneSize(
+      zone.shape === "circle" ? String(zone.radiusM) : zone.shape === "corridor" ? String(DEFAULT_CORRIDOR_WIDTH_M) : ""
+    );
   };
 
+  const sizeValue = Number(zoneSize);
+  const canSaveZone =
+    !!zoneName.trim() && (pendingZone?.shape === "polygon" || sizeValue > 0);
+
   const handleSaveZone = async () => {
-    if (!pendingPoints || !zoneName.trim()) return;
-    await createZone({ name: zoneName.trim(), color: zoneColor, points: pendingPoints });
-    setPendingPoints(null);
-    setZoneName("");
-    setZoneColor("#00d4ff");
+    if (!pendingZone || !canSaveZone) return;
+    const base = { name: zoneName.trim(), color: zoneColor };
+    if (pendingZone.shape === "circle") {
+      await createZone({ ...base, shape: "circle", points: [], center: pendingZone.center, radiusM: sizeValue });
+    } else if (pendingZone.shape === "corridor") {
+      await createZone({ ...base, shape: "corridor", points: pendingZone.points, widthM: sizeValue });
+    } else {
+      await createZone({ ...base, shape: "polygon", points: pendingZone.points });
+    }
+    handleCancelForm();
   };
 
   const handleCancelForm = () => {
-    setPendingPoints(null);
+    setPendingZone(null);
     setZoneName("");
     setZoneColor("#00d4ff");
+    setZoneSize("");
   };
 
   const workersOnMap = workers.filter((w) => w.currentLocation);
@@ -137,16 +174,21 @@ export function LiveMap({
         />
 
         <FitBounds workers={workers} />
-        <FlyToWorker workers={workers} selectedWorkerId={selectedWorkerId} />
+        {!showPlayback && (
+          <FlyToWorker workers={workers} selectedWorkerId={selectedWorkerId} />
+        )}
 
         <MapZoneOverlay zones={mapZones} />
 
         <MapZoneDrawer
           active={drawingZone}
+          mode={drawMode}
           color={zoneColor}
-          onComplete={handlePolygonComplete}
+          onComplete={handleZoneComplete}
         />
 
+        {showPlayback && <RoutePlaybackLayer playback={playback} />}
+
         {workers
           .filter((w) => w.currentLocation)
           .map((worker) => (
@@ -169,6 +211,27 @@ export function LiveMap({
         >
           <Maximize2 className="h-4 w-4" />
         </button>
+        <button
+          onClick={() => {
+            if (!showPlayback && selectedWorkerId) playback.setWorkerId(selectedWorkerId);
+            setShowPlayback((v) => !v);
+          }}
+          className={`glass-strong rounded-xl p-2.5 shadow-lg transition-all duration-200 ${
+            showPlayback
+              ? "text-accent bg-accent/10"
+              : "text-white/50 hover:bg-white/5 hover:text-accent"
+          }`}
+          title="Route playback"
+        >
+          <History className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => setShowZoneTransfer(true)}
+          className="glass-strong rounded-xl p-2.5 text-white/50 shadow-lg hover:bg-white/5 hover:text-accent transition-all duration-200"
+          title="Import / export zones"
+        >
+          <Layers className="h-4 w-4" />
+        </button>
         {onSwitchToFloorPlan && (
           <button
             onClick={onSwitchToFloorPlan}
@@ -190,10 +253,26 @@ export function LiveMap({
       </div>
 
       {/* ── Draw zone button (bottom-right) ── */}
-      <div className="absolute right-3 bottom-4 z-[1000]">
+      <div className="absolute right-3 bottom-4 z-[1000] flex items-center gap-2">
+        {drawingZone && (
+          <div className="glass-strong flex rounded-xl p-1 shadow-lg">
+            {DRAW_MODES.map(({ mode, label, Icon }) => (
+              <button
+                key={mode}
+                onClick={() => setDrawMode(mode)}
+                title={label}
+                className={`rounded-lg p-1.5 transition-colors ${
+                  drawMode === mode ? "bg-accent/15 text-accent" : "text-white/40 hover:text-white/70"
+                }`}
+              >
+                <Icon className="h-4 w-4" />
+              </button>
+            ))}
+          </div>
+        )}
         <button
           onClick={() => {
-            setPendingPoints(null);
+            setPendingZone(null);
             setDrawingZone((v) => !v);
           }}
           className={`glass-strong rounded-xl px-3.5 py-2 shadow-lg transition-all duration-200 flex items-center gap-2 text-sm font-body ${
@@ -218,13 +297,13 @@ export function LiveMap({
               color: "rgba(0,212,255,0.9)",
             }}
           >
-            Click to place points · Click the first point (white dot) to close · Esc to cancel
+            {DRAW_INSTRUCTIONS[drawMode]}
           </div>
         </div>
       )}
 
       {/* ── Zone name form (appears after polygon is closed) ── */}
-      {pendingPoints && (
+      {pendingZone && (
         <div className="absolute inset-0 z-[1000] flex items-center justify-center">
           <div
             className="rounded-2xl p-5 shadow-2xl w-80 font-body"
@@ -255,12 +334,29 @@ export function LiveMap({
                 onChange={(e) => setZoneColor(e.target.value)}
                 className="h-7 w-10 rounded cursor-pointer border-0 bg-transparent"
               />
-              <span className="text-xs text-white/30 font-mono">{pendingPoints.length} points</span>
+              {pendingZone.shape !== "circle" && (
+                <span className="text-xs text-white/30 font-mono">{pendingZone.points.length} points</span>
+              )}
             </div>
+            {pendingZone.shape !== "polygon" && (
+              <div className="flex items-center gap-3 mb-4">
+                <label className="text-xs text-white/40">
+                  {pendingZone.shape === "circle" ? "Radius" : "Width"}
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={zoneSize}
+                  onChange={(e) => setZoneSize(e.target.value)}
+                  className="w-24 rounded-lg bg-white/5 border border-white/10 px-2 py-1 text-sm text-white outline-none focus:border-accent/50"
+                />
+                <span className="text-xs text-white/30">m</span>
+              </div>
+            )}
             <div className="flex gap-2">
               <button
                 onClick={handleSaveZone}
-                disabled={!zoneName.trim()}
+                disabled={!canSaveZone}
                 className="flex-1 rounded-xl bg-accent/20 hover:bg-accent/30 text-accent py-2 text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
               >
                 Save Zone
@@ -276,6 +372,22 @@ export function LiveMap({
         </div>
       )}
 
+      {/* ── Route playback controls ── */}
+      {showPlayback && (
+        <RoutePlaybackPanel
+          playback={playback}
+          workers={workers}
+          onClose={() => {
+            playback.setPlaying(false);
+            setShowPlayback(false);
+          }}
+        />
+      )}
+
+      {showZoneTransfer && (
+        <MapZoneTransfer zones={mapZones} onClose={() => setShowZoneTransfer(false)} />
+      )}
+
       {/* ── Worker count badge ── */}
       <div className="absolute bottom-4 left-4 z-[1000] glass-strong rounded-xl px-3.5 py-2 shadow-lg">
         <span className="text-sm text-white/50 font-body">
@@ -1,25 +1,40 @@
 import { useEffect, useRef, useState } from "react";
-import { Polygon, Polyline, CircleMarker, useMapEvents } from "react-leaflet";
+import { Circle, Polygon, Polyline, CircleMarker, useMapEvents } from "react-leaflet";
 
 interface LatLng { lat: number; lng: number }
 
+export type ZoneDrawMode = "polygon" | "circle" | "corridor";
+
+export type DrawnZone =
+  | { shape: "polygon"; points: LatLng[] }
+  | { shape: "circle"; center: LatLng; radiusM: number }
+  | { shape: "corridor"; points: LatLng[] };
+
 interface MapZoneDrawerProps {
   active: boolean;
+  mode: ZoneDrawMode;
   color: string;
-  onComplete: (points: LatLng[]) => void;
+  onComplete: (zone: DrawnZone) => void;
 }
 
 const CLOSE_THRESHOLD_PX = 15;
 
-export function MapZoneDrawer({ active, color, onComplete }: MapZoneDrawerProps) {
+/**
+ * Polygon: click to add vertices, click the first vertex to close.
+ * Circle: click the centre, then click again to set the radius.
+ * Corridor: click along the centre line, click the last vertex again to finish.
+ */
+export function MapZoneDrawer({ active, mode, color, onComplete }: MapZoneDrawerProps) {
   const [draft, setDraft] = useState<LatLng[]>([]);
   const [mouse, setMouse] = useState<LatLng | null>(null);
 
   // Refs so event handlers always see current values (stale-closure safety)
   const activeRef = useRef(active);
+  const modeRef = useRef(mode);
   const draftRef = useRef(draft);
   const onCompleteRef = useRef(onComplete);
   useEffect(() => { activeRef.current = active; }, [active]);
+  useEffect(() => { modeRef.current = mode; }, [mode]);
   useEffect(() => { draftRef.current = draft; }, [draft]);
   useEffect(() => { onCompleteRef.current = onComplete; }, [onComplete]);
 
@@ -28,16 +43,37 @@ export function MapZoneDrawer({ active, color, onComplete }: MapZoneDrawerProps)
       if (!activeRef.current) return;
       const current = draftRef.current;
       const pt = { lat: e.latlng.lat, lng: e.latlng.lng };
-
-      if (current.length >= 3) {
-        const p1 = map.latLngToContainerPoint([current[0].lat, current[0].lng]);
+      const nearVertex = (v: LatLng) => {
+        const p1 = map.latLngToContainerPoint([v.lat, v.lng]);
         const p2 = map.latLngToContainerPoint(e.latlng);
-        if (Math.hypot(p1.x - p2.x, p1.y - p2.y) < CLOSE_THRESHOLD_PX) {
-          onCompleteRef.current(current);
-          setDraft([]);
-          setMouse(null);
-          return;
-        }
+        return Math.hypot(p1.x - p2.x, p1.y - p2.y) < CLOSE_THRESHOLD_PX;
+      };
+      const finish = (zone: DrawnZone) => {
+        onCompleteRef.current(zone);
+        setDraft([]);
+        setMouse(null);
+      };
+
+      switch (modeRef.current) {
+        case "polygon":
+          if (current.length >= 3 && nearVertex(current[0])) {
+            finish({ shape: "polygon", points: current });
+            return;
+          }
+          break;
+        case "circle":
+          if (current.length === 1) {
+            const radiusM = map.distance([current[0].lat, current[0].lng], e.latlng);
+            if (radiusM > 0) finish({ shape: "circle", center: current[0], radiusM: Math.round(radiusM) });
+            return;
+          }
+          break;
+        case "corridor":
+          if (current.length >= 2 && nearVertex(current[current.length - 1])) {
+            finish({ shape: "corridor", points: current });
+            return;
+          }
+          break;
       }
       setDraft((prev) => [...prev, pt]);
     },
@@ -65,25 +101,61 @@ export function MapZoneDrawer({ active, color, onComplete }: MapZoneDrawerProps)
     };
   }, [active, map]);
 
+  // Switching shape mid-draw starts over
+  useEffect(() => {
+    setDraft([]);
+    setMouse(null);
+  }, [mode]);
+
   if (!active || draft.length === 0) return null;
 
   const positions = draft.map((p) => [p.lat, p.lng] as [number, number]);
   const mousePos = mouse ? ([mouse.lat, mouse.lng] as [number, number]) : null;
 
+  if (mode === "circle") {
+    const center = positions[0];
+    const radius = mousePos ? map.distance(center, mousePos) : 0;
+    return (
+      <>
+        {radius > 0 && (
+          <Circle
+            center={center}
+            radius={radius}
+            pathOptions={{ color, fillOpacity: 0.15, dashArray: "6 4", weight: 2 }}
+          />
+        )}
+        <CircleMarker
+          center={center}
+          radius={5}
+          pathOptions={{ color: "#ffffff", fillColor: "#ffffff", fillOpacity: 1, weight: 2 }}
+        />
+      </>
+    );
+  }
+
+  // Vertex that finishes the shape when clicked again
+  const closingIndex =
+    mode === "polygon" ? (draft.length >= 3 ? 0 : -1) : draft.length >= 2 ? draft.length - 1 : -1;
+
   return (
     <>
       {/* Filled draft polygon once 3+ points */}
-      {draft.length >= 3 && (
+      {mode === "polygon" && draft.length >= 3 && (
         <Polygon
           positions={positions}
           pathOptions={{ color, fillOpacity: 0.15, dashArray: "6 4", weight: 2 }}
         />
       )}
 
+      {/* Corridor centre line placed so far */}
+      {mode === "corridor" && draft.length >= 2 && (
+        <Polyline positions={positions} pathOptions={{ color, opacity: 0.9, weight: 3 }} />
+      )}
+
       {/* Live line following the mouse */}
       {mousePos && (
         <Polyline
-          positions={[...positions, mousePos]}
+          positions={mode === "corridor" ? [positions[positions.length - 1], mousePos] : [...positions, mousePos]}
           pathOptions={{ color, dashArray: "5 4", opacity: 0.7, weight: 2 }}
         />
       )}
@@ -93,10 +165,10 @@ export function MapZoneDrawer({ active, color, onComplete }: MapZoneDrawerProps)
         <CircleMarker
           key={i}
           center={[pt.lat, pt.lng]}
-          radius={i === 0 && draft.length >= 3 ? 8 : 5}
+          radius={i === closingIndex ? 8 : 5}
           pathOptions={{
-            color: i === 0 ? "#ffffff" : color,
-            fillColor: i === 0 ? "#ffffff" : color,
+            color: i === closingIndex ? "#ffffff" : color,
+            fillColor: i === closingIndex ? "#ffffff" : color,
             fillOpacity: 1,
             weight: 2,
           }}
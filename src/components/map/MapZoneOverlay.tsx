@@ -1,48 +1,160 @@
-import { useState } from "react";
-import { Polygon, Tooltip } from "react-leaflet";
+import { useEffect, useState } from "react";
+import { Circle, Polygon, Polyline, Tooltip, useMap } from "react-leaflet";
+import type { LeafletEventHandlerFnMap, PathOptions } from "leaflet";
 import { useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
+import {
+  ZoneRestrictionFields,
+  restrictionFromZone,
+  type ZoneRestriction,
+} from "./ZoneRestrictionFields";
 
 interface MapZone {
   _id: Id<"mapZones">;
   name: string;
   color: string;
+  shape?: "polygon" | "circle" | "corridor";
   points: { lat: number; lng: number }[];
+  center?: { lat: number; lng: number };
+  radiusM?: number;
+  widthM?: number;
+  restricted?: boolean;
+  allowedWorkerIds?: Id<"workers">[];
+  allowedRoles?: ("worker" | "admin")[];
+  autoSoundAlert?: boolean;
 }
 
 interface MapZoneOverlayProps {
   zones: MapZone[];
 }
 
+/** Metres covered by one screen pixel at the given latitude and zoom (Web Mercator). */
+function metersPerPixel(lat: number, zoom: number): number {
+  return (40075016.686 * Math.cos((lat * Math.PI) / 180)) / 2 ** (zoom + 8);
+}
+
+/**
+ * A corridor drawn as a thick polyline whose stroke width tracks the zone's
+ * width in metres. Round caps and joins match the membership test, which is
+ * "within widthM / 2 of the centre line".
+ */
+function CorridorZone({
+  zone,
+  pathOptions,
+  eventHandlers,
+  children,
+}: {
+  zone: MapZone;
+  pathOptions: PathOptions;
+  eventHandlers: LeafletEventHandlerFnMap;
+  children: React.ReactNode;
+}) {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+  useEffect(() => {
+    const onZoom = () => setZoom(map.getZoom());
+    map.on("zoomend", onZoom);
+    return () => {
+      map.off("zoomend", onZoom);
+    };
+  }, [map]);
+
+  const positions = zone.points.map((p) => [p.lat, p.lng] as [number, number]);
+  const midLat = zone.points.reduce((sum, p) => sum + p.lat, 0) / (zone.points.length || 1);
+  const weight = Math.max(2, (zone.widthM ?? 0) / metersPerPixel(midLat, zoom));
+
+  return (
+    <>
+      <Polyline
+        positions={positions}
+        pathOptions={{
+          ...pathOptions,
+          opacity: pathOptions.fillOpacity,
+          dashArray: undefined,
+          weight,
+          lineCap: "round",
+          lineJoin: "round",
+        }}
+        eventHandlers={eventHandlers}
+      >
+        {children}
+      </Polyline>
+      {/* Centre line */}
+      <Polyline
+        positions={positions}
+        pathOptions={{ color: pathOptions.color, weight: 1.5, opacity: 0.8, dashArray: "6 4" }}
+        interactive={false}
+      />
+    </>
+  );
+}
+
 export function MapZoneOverlay({ zones }: MapZoneOverlayProps) {
   const [editing, setEditing] = useState<MapZone | null>(null);
   const [editName, setEditName] = useState("");
+  const [editSize, setEditSize] = useState("");
+  const [editRestriction, setEditRestriction] = useState<ZoneRestriction>(restrictionFromZone({}));
   const deleteZone = useMutation(api.mapZones.deleteMapZone);
   const updateZone = useMutation(api.mapZones.updateMapZone);
 
   return (
     <>
-      {zones.map((zone) => (
-        <Polygon
-          key={zone._id}
-          positions={zone.points.map((p) => [p.lat, p.lng] as [number, number])}
-          pathOptions={{
-            color: zone.color,
-            fillOpacity: 0.15,
-            weight: 2,
-            opacity: 0.8,
-          }}
-          eventHandlers={{
-            click() {
-              setEditing(zone);
-              setEditName(zone.name);
-            },
-          }}
-        >
-          <Tooltip sticky>{zone.name}</Tooltip>
-        </Polygon>
-      ))}
+      {zones.map((zone) => {
+        const pathOptions = {
+          color: zone.color,
+          fillOpacity: 0.15,
+          weight: 2,
+          opacity: 0.8,
+          // Restricted zones get a dashed outline
+          dashArray: zone.restricted ? "8 6" : undefined,
+        };
+        const eventHandlers = {
+          click() {
+            setEditing(zone);
+            setEditName(zone.name);
+            setEditSize(String(zone.radiusM ?? zone.widthM ?? ""));
+            setEditRestriction(restrictionFromZone(zone));
+          },
+        };
+        const tooltip = <Tooltip sticky>{zone.name}</Tooltip>;
+
+        if (zone.shape === "circle" && zone.center && zone.radiusM) {
+          return (
+            <Circle
+              key={zone._id}
+              center={[zone.center.lat, zone.center.lng]}
+              radius={zone.radiusM}
+              pathOptions={pathOptions}
+              eventHandlers={eventHandlers}
+            >
+              {tooltip}
+            </Circle>
+          );
+        }
+        if (zone.shape === "corridor") {
+          return (
+            <CorridorZone
+              key={zone._id}
+              zone={zone}
+              pathOptions={{ ...pathOptions, fillOpacity: 0.25 }}
+              eventHandlers={eventHandlers}
+            >
+              {tooltip}
+            </CorridorZone>
+          );
+        }
+        return (
+          <Polygon
+            key={zone._id}
+            positions={zone.points.map((p) => [p.lat, p.lng] as [number, number])}
+            pathOptions={pathOptions}
+            eventHandlers={eventHandlers}
+          >
+            {tooltip}
+          </Polygon>
+        );
+      })}
 
       {/* Edit popup — rendered as a fixed overlay so it stays above the map */}
       {editing && (
@@ -67,10 +179,31 @@ export function MapZoneOverlay({ zones }: MapZoneOverlayProps) {
               onChange={(e) => setEditName(e.target.value)}
               className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-sm text-white mb-3 outline-none focus:border-accent/50"
             />
+            {(editing.shape === "circle" || editing.shape === "corridor") && (
+              <label className="flex items-center gap-2 mb-3 text-xs text-white/40">
+                {editing.shape === "circle" ? "Radius" : "Width"}
+                <input
+                  type="number"
+                  min={1}
+                  value={editSize}
+                  onChange={(e) => setEditSize(e.target.value)}
+                  className="w-24 rounded-lg bg-white/5 border border-white/10 px-2 py-1 text-sm text-white outline-none focus:border-accent/50"
+                />
+                m
+              </label>
+            )}
+            <ZoneRestrictionFields value={editRestriction} onChange={setEditRestriction} />
             <div className="flex gap-2">
               <button
                 onClick={async () => {
-                  await updateZone({ zoneId: editing._id, name: editName });
+                  const size = Number(editSize);
+                  await updateZone({
+                    zoneId: editing._id,
+                    name: editName,
+                    ...editRestriction,
+                    ...(editing.shape === "circle" && size > 0 ? { radiusM: size } : {}),
+                    ...(editing.shape === "corridor" && size > 0 ? { widthM: size } : {}),
+                  });
                   setEditing(null);
                 }}
                 className="flex-1 rounded-lg bg-accent/20 hover:bg-accent/30 text-accent py-1.5 text-xs font-medium transition-colors"
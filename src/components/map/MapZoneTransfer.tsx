@@ -0,0 +1,168 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "../../../convex/_generated/api";
+import { X, Layers, Upload, Download } from "lucide-react";
+import { toast } from "sonner";
+import { downloadFile } from "../../lib/download";
+import {
+  parseZonesFile,
+  zonesToGeoJson,
+  zonesToKml,
+  type ParsedZones,
+  type ZoneShape,
+} from "../../lib/zoneFormats";
+
+interface MapZoneTransferProps {
+  zones: ZoneShape[];
+  onClose: () => void;
+}
+
+export function MapZoneTransfer({ zones, onClose }: MapZoneTransferProps) {
+  const importZones = useMutation(api.mapZones.importMapZones);
+  const organization = useQuery(api.organizations.getMyOrganization);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedZones | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const result = parseZonesFile(file.name, await file.text());
+      setFileName(file.name);
+      setParsed(result);
+      if (result.zones.length === 0) toast.error("No zones found in this file");
+    } catch {
+      setParsed(null);
+      toast.error("Could not read this file as GeoJSON or KML");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed || parsed.zones.length === 0) return;
+    setImporting(true);
+    try {
+      const ids = await importZones({ zones: parsed.zones });
+      toast.success(`Imported ${ids.length} zone${ids.length !== 1 ? "s" : ""}`);
+      onClose();
+    } catch (err) {
+      // The server explains rejections, e.g. the zone limit or a bad shape
+      toast.error(
+        err instanceof ConvexError && typeof err.data === "string"
+          ? err.data
+          : "Failed to import zones"
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const baseName = (organization?.name ?? "zones").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade">
+      <div className="animate-modal mx-4 w-full max-w-md rounded-2xl border border-white/[0.08] bg-surface-2 shadow-2xl shadow-black/40">
+        <div className="flex items-center justify-between border-b border-white/[0.06] px-5 py-4">
+          <div className="flex items-center gap-2.5">
+            <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-accent/10">
+              <Layers className="h-4 w-4 text-accent" />
+            </div>
+            <h2 className="font-display text-lg font-bold text-white">Import / Export Zones</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-white/30 hover:bg-white/5 hover:text-white/70 transition-all duration-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Import */}
+        <div className="space-y-3 p-5">
+          <p className="text-sm font-medium text-white/50 font-body">Import</p>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex w-full items-center justify-center gap-2 rounded-lg border border-dashed border-white/[0.12] px-4 py-5 text-sm text-white/40 hover:border-accent/40 hover:text-accent font-body transition-colors"
+          >
+            <Upload className="h-4 w-4" />
+            {fileName ?? "Choose a GeoJSON or KML file"}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".geojson,.json,.kml,application/geo+json,application/vnd.google-earth.kml+xml"
+            className="hidden"
+            onChange={handleFile}
+          />
+
+          {parsed && parsed.zones.length > 0 && (
+            <div className="rounded-lg border border-white/[0.06] bg-white/[0.02] p-3">
+              <p className="text-xs text-white/40 font-body">
+                {parsed.zones.length} zone{parsed.zones.length !== 1 ? "s" : ""} found
+                {parsed.skipped > 0 && ` · ${parsed.skipped} unsupported feature${parsed.skipped !== 1 ? "s" : ""} skipped`}
+              </p>
+              <ul className="mt-2 max-h-32 space-y-1 overflow-y-auto">
+                {parsed.zones.map((z, i) => (
+                  <li key={i} className="flex items-center gap-2 text-xs text-white/70 font-body">
+                    <span className="h-2 w-2 shrink-0 rounded-full" style={{ background: z.color }} />
+                    <span className="truncate">{z.name}</span>
+                    <span className="ml-auto font-mono text-white/25">
+                      {z.shape === "circle" ? `r ${Math.round(z.radiusM ?? 0)} m` : `${z.points.length} pts`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleImport}
+              disabled={importing || !parsed || parsed.zones.length === 0}
+              className="rounded-lg bg-accent px-4 py-2 text-sm font-semibold text-surface-0 hover:bg-accent/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200 glow-accent-sm"
+            >
+              {importing ? "Importing..." : "Import Zones"}
+            </button>
+          </div>
+        </div>
+
+        {/* Export */}
+        <div className="border-t border-white/[0.06] px-5 py-5">
+          <p className="mb-3 text-sm font-medium text-white/50 font-body">
+            Export {zones.length} zone{zones.length !== 1 ? "s" : ""}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              disabled={zones.length === 0}
+              onClick={() =>
+                downloadFile(zonesToGeoJson(zones), `${baseName}-zones.geojson`, "application/geo+json")
+              }
+              className="flex items-center justify-center gap-2 rounded-lg border border-white/[0.08] px-3 py-2 text-sm text-white/60 hover:bg-white/5 hover:text-white/80 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              <Download className="h-3.5 w-3.5" />
+              GeoJSON
+            </button>
+            <button
+              disabled={zones.length === 0}
+              onClick={() =>
+                downloadFile(
+                  zonesToKml(organization?.name ?? "Zones", zones),
+                  `${baseName}-zones.kml`,
+                  "application/vnd.google-earth.kml+xml"
+                )
+              }
+              className="flex items-center justify-center gap-2 rounded-lg border border-white/[0.08] px-3 py-2 text-sm text-white/60 hover:bg-white/5 hover:text-white/80 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              <Download className="h-3.5 w-3.5" />
+              KML
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CircleMarker, Polyline, Tooltip, useMap } from "react-leaflet";
+import { useQuery } from "convex/react";
+import { format, subHours } from "date-fns";
+import { Pause, Play, SkipBack, X } from "lucide-react";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+interface TrailPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+}
+
+const SPEEDS = [10, 60, 300, 1200];
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+const TRAIL_COLOR = "#00d4ff";
+
+/** Linear interpolation of the worker's position at time `t` along the trail. */
+function positionAt(trail: TrailPoint[], t: number): [number, number] | null {
+  if (trail.length === 0) return null;
+  if (t <= trail[0].timestamp) return [trail[0].latitude, trail[0].longitude];
+  for (let i = 1; i < trail.length; i++) {
+    const b = trail[i];
+    if (t > b.timestamp) continue;
+    const a = trail[i - 1];
+    const span = b.timestamp - a.timestamp;
+    const f = span > 0 ? (t - a.timestamp) / span : 1;
+    return [
+      a.latitude + (b.latitude - a.latitude) * f,
+      a.longitude + (b.longitude - a.longitude) * f,
+    ];
+  }
+  const last = trail[trail.length - 1];
+  return [last.latitude, last.longitude];
+}
+
+/**
+ * Playback state shared between the map layer (inside MapContainer) and the
+ * control panel (outside it). `time` is the absolute timestamp being shown.
+ */
+export function useRoutePlayback(initialWorkerId: Id<"workers"> | null) {
+  const [workerId, setWorkerId] = useState<Id<"workers"> | null>(initialWorkerId);
+  const [windowStart, setWindowStart] = useState(() =>
+    format(subHours(new Date(), 8), INPUT_FORMAT)
+  );
+  const [windowEnd, setWindowEnd] = useState(() => format(new Date(), INPUT_FORMAT));
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(60);
+
+  const startTime = new Date(windowStart).getTime();
+  const endTime = new Date(windowEnd).getTime();
+  const validWindow = !Number.isNaN(startTime) && !Number.isNaN(endTime) && endTime > startTime;
+
+  const trail = useQuery(
+    api.locations.getWorkerTrail,
+    workerId && validWindow ? { workerId, startTime, endTime } : "skip"
+  );
+
+  const first = trail?.[0]?.timestamp ?? 0;
+  const last = trail?.[trail.length - 1]?.timestamp ?? 0;
+
+  // Rewind whenever a different trail loads
+  useEffect(() => {
+    setTime(first);
+    setPlaying(false);
+  }, [first]);
+
+  // Advance the clock while playing
+  const frameRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!playing) return;
+    let prev = performance.now();
+    const tick = (now: number) => {
+      const dt = now - prev;
+      prev = now;
+      setTime((t) => Math.min(t + dt * speed, last));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, [playing, speed, last]);
+
+  useEffect(() => {
+    if (playing && time >= last) setPlaying(false);
+  }, [playing, time, last]);
+
+  return {
+    workerId,
+    setWorkerId,
+    windowStart,
+    setWindowStart,
+    windowEnd,
+    setWindowEnd,
+    trail,
+    first,
+    last,
+    time,
+    setTime,
+    playing,
+    setPlaying,
+    speed,
+    setSpeed,
+  };
+}
+
+type Playback = ReturnType<typeof useRoutePlayback>;
+
+/** Map layer: full trail, travelled portion and the animated position marker. */
+export function RoutePlaybackLayer({ playback }: { playback: Playback }) {
+  const map = useMap();
+  const { trail, time, first } = playback;
+
+  const fullPath = useMemo(
+    () => (trail ?? []).map((p) => [p.latitude, p.longitude] as [number, number]),
+    [trail]
+  );
+
+  // Frame the trail once per loaded trail, not on every live update
+  useEffect(() => {
+    if (fullPath.length === 0) return;
+    if (fullPath.length === 1) map.setView(fullPath[0], 16);
+    else map.fitBounds(fullPath, { padding: [60, 60] });
+  }, [first, map]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!trail || trail.length === 0) return null;
+
+  const current = positionAt(trail, time);
+  const travelled = trail
+    .filter((p) => p.timestamp <= time)
+    .map((p) => [p.latitude, p.longitude] as [number, number]);
+  if (current) travelled.push(current);
+
+  return (
+    <>
+      <Polyline
+        positions={fullPath}
+        pathOptions={{ color: TRAIL_COLOR, weight: 3, opacity: 0.25 }}
+      />
+      <Polyline
+        positions={travelled}
+        pathOptions={{ color: TRAIL_COLOR, weight: 4, opacity: 0.9 }}
+      />
+      {current && (
+        <CircleMarker
+          center={current}
+          radius={8}
+          pathOptions={{ color: "#ffffff", fillColor: TRAIL_COLOR, fillOpacity: 1, weight: 2 }}
+        >
+          <Tooltip direction="top" offset={[0, -8]} permanent>
+            {format(new Date(time), "HH:mm:ss")}
+          </Tooltip>
+        </CircleMarker>
+      )}
+    </>
+  );
+}
+
+interface RoutePlaybackPanelProps {
+  playback: Playback;
+  workers: { _id: Id<"workers">; name: string }[];
+  onClose: () => void;
+}
+
+/** Worker/time-window pickers, transport controls and the scrubber. */
+export function RoutePlaybackPanel({ playback, workers, onClose }: RoutePlaybackPanelProps) {
+  const {
+    workerId,
+    setWorkerId,
+    windowStart,
+    setWindowStart,
+    windowEnd,
+    setWindowEnd,
+    trail,
+    first,
+    last,
+    time,
+    setTime,
+    playing,
+    setPlaying,
+    speed,
+    setSpeed,
+  } = playback;
+
+  const hasTrail = !!trail && trail.length > 1;
+
+  return (
+    <div className="absolute bottom-16 left-1/2 z-[1000] w-[min(640px,calc(100%-2rem))] -translate-x-1/2">
+      <div
+        className="rounded-2xl p-4 shadow-2xl font-body"
+        style={{ background: "rgba(13,18,28,0.97)", border: "1px solid rgba(255,255,255,0.1)" }}
+      >
+        <div className="mb-3 flex items-center justify-between">
+          <span className="text-sm font-semibold text-white/90">Route Playback</span>
+          <button onClick={onClose} className="text-white/30 hover:text-white/70">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <select
+            value={workerId ?? ""}
+            onChange={(e) => setWorkerId((e.target.value || null) as Id<"workers"> | null)}
+            className="rounded-lg border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white outline-none focus:border-accent/50"
+          >
+            <option value="">Select worker…</option>
+            {workers.map((w) => (
+              <option key={w._id} value={w._id}>
+                {w.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="datetime-local"
+            value={windowStart}
+            onChange={(e) => setWindowStart(e.target.value)}
+            className="rounded-lg border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white outline-none focus:border-accent/50"
+          />
+          <input
+            type="datetime-local"
+            value={windowEnd}
+            onChange={(e) => setWindowEnd(e.target.value)}
+            className="rounded-lg border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white outline-none focus:border-accent/50"
+          />
+        </div>
+
+        {!workerId ? (
+          <p className="mt-3 text-xs text-white/30">Pick a worker to load their trail.</p>
+        ) : trail === undefined ? (
+          <p className="mt-3 text-xs text-white/30">Loading trail…</p>
+        ) : !hasTrail ? (
+          <p className="mt-3 text-xs text-white/30">No recorded points in this window.</p>
+        ) : (
+          <div className="mt-3">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  setTime(first);
+                  setPlaying(false);
+                }}
+                className="rounded-lg p-1.5 text-white/50 hover:bg-white/5 hover:text-white/80"
+                title="Rewind"
+              >
+                <SkipBack className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => {
+                  if (!playing && time >= last) setTime(first);
+                  setPlaying(!playing);
+                }}
+                className="rounded-lg bg-accent/20 p-1.5 text-accent hover:bg-accent/30"
+                title={playing ? "Pause" : "Play"}
+              >
+                {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </button>
+              <input
+                type="range"
+                min={first}
+                max={last}
+                step={1000}
+                value={time}
+                onChange={(e) => setTime(Number(e.target.value))}
+                className="flex-1 accent-[#00d4ff]"
+              />
+              <div className="flex gap-0.5">
+                {SPEEDS.map((s) => (
+                  <button
+                    key={s}
+                    onClick={() => setSpeed(s)}
+                    className={`rounded-md px-1.5 py-0.5 font-mono text-[10px] transition-colors ${
+                      speed === s ? "bg-accent/20 text-accent" : "text-white/30 hover:text-white/60"
+                    }`}
+                  >
+                    {s}×
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="mt-1.5 flex justify-between font-mono text-[10px] text-white/30">
+              <span>{format(new Date(first), "MMM d HH:mm:ss")}</span>
+              <span className="text-white/70">{format(new Date(time), "MMM d HH:mm:ss")}</span>
+              <span>{format(new Date(last), "MMM d HH:mm:ss")}</span>
+            </div>
+            <p className="mt-1 text-[10px] text-white/20">{trail.length} points</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useMemo, useState } from "react";
+import { format, isSameDay } from "date-fns";
+import { LogIn, LogOut } from "lucide-react";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+interface ZoneEvent {
+  _id: Id<"zoneEvents">;
+  zoneId: Id<"mapZones">;
+  zoneName: string;
+  direction: "enter" | "exit";
+  timestamp: number;
+}
+
+interface ZoneEventTimelineProps {
+  events: ZoneEvent[];
+}
+
+export function ZoneEventTimeline({ events }: ZoneEventTimelineProps) {
+  const [zoneFilter, setZoneFilter] = useState<string>("all");
+
+  // Latest name per zone, so renamed zones collapse into one filter entry
+  const zoneOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const e of events) {
+      if (!names.has(e.zoneId)) names.set(e.zoneId, e.zoneName);
+    }
+    return [...names.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [events]);
+
+  const visible =
+    zoneFilter === "all" ? events : events.filter((e) => e.zoneId === zoneFilter);
+
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-white/25 font-body">No zone entries or exits recorded</p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-3 flex justify-end">
+        <select
+          value={zoneFilter}
+          onChange={(e) => setZoneFilter(e.target.value)}
+          className="rounded-lg border border-white/[0.08] bg-surface-3 px-2.5 py-1.5 text-xs text-white/70 font-body focus:border-accent/40 focus:outline-none"
+        >
+          <option value="all">All zones</option>
+          {zoneOptions.map(([id, name]) => (
+            <option key={id} value={id}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <ol className="max-h-72 space-y-0 overflow-y-auto">
+        {visible.map((event, i) => {
+          const prev = visible[i - 1];
+          const showDay = !prev || !isSameDay(prev.timestamp, event.timestamp);
+          const entered = event.direction === "enter";
+          return (
+            <li key={event._id}>
+              {showDay && (
+                <p className="pb-2 pt-3 text-xs font-medium text-white/30 font-body first:pt-0">
+                  {format(new Date(event.timestamp), "EEE, MMM d")}
+                </p>
+              )}
+              <div className="flex items-center gap-3 border-l border-white/[0.06] py-2 pl-4">
+                <span
+                  className={`flex h-6 w-6 shrink-0 items-center justify-center rounded-full ${
+                    entered ? "bg-neon/10 text-neon" : "bg-amber-400/10 text-amber-400"
+                  }`}
+                >
+                  {entered ? <LogIn className="h-3.5 w-3.5" /> : <LogOut className="h-3.5 w-3.5" />}
+                </span>
+                <span className="flex-1 text-sm text-white/70 font-body">
+                  {entered ? "Entered" : "Left"}{" "}
+                  <span className="font-medium text-white">{event.zoneName}</span>
+                </span>
+                <span className="font-mono text-xs text-white/40">
+                  {format(new Date(event.timestamp), "HH:mm:ss")}
+                </span>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
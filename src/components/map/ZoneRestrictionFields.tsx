@@ -0,0 +1,100 @@
+import { useQuery } from "convex/react";
+import { ShieldAlert } from "lucide-react";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+type Role = "worker" | "admin";
+
+export interface ZoneRestriction {
+  restricted: boolean;
+  allowedWorkerIds: Id<"workers">[];
+  allowedRoles: Role[];
+  autoSoundAlert: boolean;
+}
+
+export function restrictionFromZone(zone: {
+  restricted?: boolean;
+  allowedWorkerIds?: Id<"workers">[];
+  allowedRoles?: Role[];
+  autoSoundAlert?: boolean;
+}): ZoneRestriction {
+  return {
+    restricted: zone.restricted ?? false,
+    allowedWorkerIds: zone.allowedWorkerIds ?? [],
+    allowedRoles: zone.allowedRoles ?? [],
+    autoSoundAlert: zone.autoSoundAlert ?? false,
+  };
+}
+
+interface ZoneRestrictionFieldsProps {
+  value: ZoneRestriction;
+  onChange: (value: ZoneRestriction) => void;
+}
+
+const ROLES: { role: Role; label: string }[] = [
+  { role: "admin", label: "Admins" },
+  { role: "worker", label: "Workers" },
+];
+
+/** Restricted toggle plus allow-list editor, shared by map and floor plan zone popups. */
+export function ZoneRestrictionFields({ value, onChange }: ZoneRestrictionFieldsProps) {
+  const workers = useQuery(api.workers.listWorkers) ?? [];
+
+  const toggle = <T,>(list: T[], item: T) =>
+    list.includes(item) ? list.filter((i) => i !== item) : [...list, item];
+
+  return (
+    <div className="mb-3">
+      <label className="flex items-center gap-2 text-xs text-white/60 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.restricted}
+          onChange={(e) => onChange({ ...value, restricted: e.target.checked })}
+          className="accent-red-400"
+        />
+        <ShieldAlert className="h-3.5 w-3.5 text-red-400" />
+        Restricted zone
+      </label>
+
+      {value.restricted && (
+        <div className="mt-2 space-y-2 rounded-lg border border-white/[0.06] bg-white/[0.02] p-2">
+          <p className="text-[10px] uppercase tracking-wider text-white/30">Allowed</p>
+          <div className="flex gap-3">
+            {ROLES.map(({ role, label }) => (
+              <label key={role} className="flex items-center gap-1.5 text-xs text-white/60 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={value.allowedRoles.includes(role)}
+                  onChange={() => onChange({ ...value, allowedRoles: toggle(value.allowedRoles, role) })}
+                />
+                All {label.toLowerCase()}
+              </label>
+            ))}
+          </div>
+          <div className="max-h-28 space-y-1 overflow-y-auto">
+            {workers.map((w) => (
+              <label key={w._id} className="flex items-center gap-1.5 text-xs text-white/60 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={value.allowedWorkerIds.includes(w._id)}
+                  onChange={() =>
+                    onChange({ ...value, allowedWorkerIds: toggle(value.allowedWorkerIds, w._id) })
+                  }
+                />
+                <span className="truncate">{w.name}</span>
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-1.5 border-t border-white/[0.06] pt-2 text-xs text-white/60 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={value.autoSoundAlert}
+              onChange={(e) => onChange({ ...value, autoSoundAlert: e.target.checked })}
+            />
+            Sound an alarm on the intruder's phone
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { TrendingUp, Plus, Pencil, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import type { Doc, Id } from "../../../convex/_generated/dataModel";
+import type { EscalationAction, EscalationStep } from "../../../convex/lib/escalation";
+
+interface EscalationPoliciesProps {
+  organizationId: Id<"organizations">;
+}
+
+type SoundType = "notification" | "alarm" | "urgent";
+
+interface PolicyDraft {
+  policyId: Id<"escalationPolicies"> | null;
+  name: string;
+  soundTypes: SoundType[];
+  steps: EscalationStep[];
+  isActive: boolean;
+}
+
+const SOUND_TYPES: { value: SoundType; label: string }[] = [
+  { value: "notification", label: "Normal" },
+  { value: "alarm", label: "Alarm" },
+  { value: "urgent", label: "Urgent" },
+];
+
+const ACTION_LABELS: Record<EscalationAction, string> = {
+  resend: "Resend",
+  upgrade_sound: "Resend with louder sound",
+  notify_backup: "Notify backup worker",
+  notify_admins: "Notify all admins",
+};
+
+const DEFAULT_DRAFT: PolicyDraft = {
+  policyId: null,
+  name: "Urgent alarms",
+  soundTypes: ["urgent"],
+  steps: [
+    { afterMinutes: 2, action: "resend" },
+    { afterMinutes: 5, action: "upgrade_sound" },
+    { afterMinutes: 10, action: "notify_admins" },
+  ],
+  isActive: true,
+};
+
+const inputClass =
+  "rounded-lg border border-white/[0.08] bg-surface-3 px-2.5 py-1.5 text-sm text-white font-body focus:border-accent/40 focus:outline-none";
+
+export function EscalationPolicies({ organizationId }: EscalationPoliciesProps) {
+  const policies = useQuery(api.escalations.getEscalationPolicies);
+  const members = useQuery(api.organizations.getOrganizationMembers, { organizationId });
+  const createPolicy = useMutation(api.escalations.createEscalationPolicy);
+  const updatePolicy = useMutation(api.escalations.updateEscalationPolicy);
+  const deletePolicy = useMutation(api.escalations.deleteEscalationPolicy);
+
+  const [draft, setDraft] = useState<PolicyDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const memberName = (id?: Id<"workers">) =>
+    members?.find((m) => m._id === id)?.name ?? "Unknown worker";
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const { policyId, ...fields } = draft;
+      if (policyId) await updatePolicy({ policyId, ...fields });
+      else await createPolicy(fields);
+      setDraft(null);
+      toast.success("Escalation policy saved");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not save policy");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (policy: Doc<"escalationPolicies">) => {
+    try {
+      await updatePolicy({
+        policyId: policy._id,
+        name: policy.name,
+        soundTypes: policy.soundTypes,
+        steps: policy.steps,
+        isActive: !policy.isActive,
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not update policy");
+    }
+  };
+
+  const handleDelete = async (policy: Doc<"escalationPolicies">) => {
+    if (!confirm(`Delete the escalation policy "${policy.name}"?`)) return;
+    await deletePolicy({ policyId: policy._id });
+  };
+
+  const updateStep = (index: number, patch: Partial<EscalationStep>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      steps: draft.steps.map((s, i) => (i === index ? { ...s, ...patch } : s)),
+    });
+  };
+
+  const toggleSound = (sound: SoundType) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      soundTypes: draft.soundTypes.includes(sound)
+        ? draft.soundTypes.filter((s) => s !== sound)
+        : [...draft.soundTypes, sound],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-white/40">
+          <TrendingUp className="h-4 w-4 text-accent/50" />
+          <span className="text-sm font-medium font-display tracking-wide">Escalation</span>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => setDraft(DEFAULT_DRAFT)}
+            className="flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-accent hover:bg-accent/10 transition-colors"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            New policy
+          </button>
+        )}
+      </div>
+
+      {!draft && policies?.length === 0 && (
+        <p className="text-xs text-white/25 font-body leading-relaxed">
+          Commands that are never acknowledged can be resent, made louder, and
+          passed on to a backup worker or the admins.
+        </p>
+      )}
+
+      {!draft &&
+        policies?.map((policy) => (
+          <div key={policy._id} className="rounded-xl border border-white/[0.06] p-3 font-body">
+            <div className="flex items-center gap-2">
+              <span className={`flex-1 truncate text-sm font-medium ${policy.isActive ? "text-white" : "text-white/30"}`}>
+                {policy.name}
+              </span>
+              <button
+                onClick={() => handleToggle(policy)}
+                className={`rounded-full px-2 py-0.5 text-[10px] font-medium transition-colors ${
+                  policy.isActive ? "bg-neon/15 text-neon" : "bg-white/5 text-white/30"
+                }`}
+              >
+                {policy.isActive ? "Active" : "Paused"}
+              </button>
+              <button
+                onClick={() =>
+                  setDraft({
+                    policyId: policy._id,
+                    name: policy.name,
+                    soundTypes: policy.soundTypes,
+                    steps: policy.steps,
+                    isActive: policy.isActive,
+                  })
+                }
+                className="rounded-lg p-1 text-white/30 hover:bg-white/5 hover:text-white/70 transition-colors"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={() => handleDelete(policy)}
+                className="rounded-lg p-1 text-white/30 hover:bg-rose-500/10 hover:text-rose-400 transition-colors"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-white/30">
+              For {policy.soundTypes.join(", ")} commands
+            </p>
+            <ol className="mt-2 space-y-0.5 text-xs text-white/50">
+              {policy.steps.map((step, i) => (
+                <li key={i}>
+                  <span className="font-mono text-white/30">{step.afterMinutes} min</span>{" "}
+                  {ACTION_LABELS[step.action]}
+                  {step.action === "notify_backup" && `: ${memberName(step.backupWorkerId)}`}
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+
+      {draft && (
+        <div className="space-y-3 rounded-xl border border-white/[0.06] p-3 font-body">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Policy name"
+            className={`${inputClass} w-full`}
+          />
+
+          <div>
+            <span className="text-xs text-white/40">Escalate commands sent with</span>
+            <div className="mt-1.5 flex gap-1.5">
+              {SOUND_TYPES.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => toggleSound(value)}
+                  className={`rounded-lg border px-2.5 py-1 text-xs transition-colors ${
+                    draft.soundTypes.includes(value)
+                      ? "border-accent/30 bg-accent/10 text-accent"
+                      : "border-white/[0.06] text-white/40 hover:text-white/60"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <span className="text-xs text-white/40">If still unacknowledged after</span>
+            {draft.steps.map((step, i) => (
+              <div key={i} className="flex items-center gap-1.5">
+                <input
+                  type="number"
+                  min={1}
+                  value={step.afterMinutes}
+                  onChange={(e) => updateStep(i, { afterMinutes: Number(e.target.value) })}
+                  className={`${inputClass} w-16 font-mono`}
+                />
+                <span className="text-xs text-white/30">min</span>
+                <select
+                  value={step.action}
+                  onChange={(e) => updateStep(i, { action: e.target.value as EscalationAction })}
+                  className={`${inputClass} min-w-0 flex-1`}
+                >
+                  {(Object.keys(ACTION_LABELS) as EscalationAction[]).map((a) => (
+                    <option key={a} value={a}>{ACTION_LABELS[a]}</option>
+                  ))}
+                </select>
+                {step.action === "notify_backup" && (
+                  <select
+                    value={step.backupWorkerId ?? ""}
+                    onChange={(e) =>
+                      updateStep(i, { backupWorkerId: (e.target.value || undefined) as Id<"workers"> | undefined })
+                    }
+                    className={`${inputClass} min-w-0 flex-1`}
+                  >
+                    <option value="">Backup…</option>
+                    {members?.map((m) => (
+                      <option key={m._id} value={m._id}>{m.name}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => setDraft({ ...draft, steps: draft.steps.filter((_, j) => j !== i) })}
+                  className="rounded-lg p-1 text-white/30 hover:text-rose-400 transition-colors"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => {
+                const last = draft.steps[draft.steps.length - 1]?.afterMinutes ?? 0;
+                setDraft({ ...draft, steps: [...draft.steps, { afterMinutes: last + 5, action: "resend" }] });
+              }}
+              className="flex items-center gap-1 text-xs text-white/40 hover:text-white/70 transition-colors"
+            >
+              <Plus className="h-3 w-3" />
+              Add step
+            </button>
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={() => setDraft(null)}
+              className="rounded-lg px-3 py-1.5 text-xs text-white/40 hover:text-white/70 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="rounded-lg bg-accent px-3 py-1.5 text-xs font-semibold text-surface-0 hover:bg-accent/90 disabled:opacity-40 transition-colors"
+            >
+              {saving ? "Saving..." : "Save policy"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-white/25 font-body leading-relaxed">
+        Times are measured from when the command was first sent. Escalation
+        stops as soon as anyone in the chain acknowledges.
+      </p>
+    </div>
+  );
+}
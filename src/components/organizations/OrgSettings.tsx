@@ -1,24 +1,42 @@
 import { useState, useEffect, useRef } from "react";
 import { useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
-import { Settings } from "lucide-react";
+import { Settings, Archive } from "lucide-react";
 import type { Id } from "../../../convex/_generated/dataModel";
 
 interface OrgSettingsProps {
   organizationId: Id<"organizations">;
   locationIntervalMs: number | undefined;
   historyIntervalMs: number | undefined;
+  historyMinDistanceM: number | undefined;
+  historyRawRetentionDays: number | undefined;
+  historyRetentionDays: number | undefined;
+}
+
+interface SettingsValues {
+  locationIntervalMs: number;
+  historyIntervalMs: number;
+  historyMinDistanceM: number;
+  historyRawRetentionDays: number;
+  historyRetentionDays: number;
 }
 
 const DEFAULT_INTERVAL = 10000;
 const MIN_INTERVAL = 5000;
 const MAX_INTERVAL = 60000;
 const STEP = 5000;
+const MAX_DISTANCE_M = 100;
+const DISTANCE_STEP_M = 5;
+const DEFAULT_RAW_RETENTION_DAYS = 7;
+const DEFAULT_RETENTION_DAYS = 90;
 
 export function OrgSettings({
   organizationId,
   locationIntervalMs,
   historyIntervalMs,
+  historyMinDistanceM,
+  historyRawRetentionDays,
+  historyRetentionDays,
 }: OrgSettingsProps) {
   const updateSettings = useMutation(api.organizations.updateOrgSettings);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -29,6 +47,13 @@ export function OrgSettings({
   const [historyMs, setHistoryMs] = useState(
     historyIntervalMs ?? DEFAULT_INTERVAL
   );
+  const [minDistanceM, setMinDistanceM] = useState(historyMinDistanceM ?? 0);
+  const [rawDays, setRawDays] = useState(
+    historyRawRetentionDays ?? DEFAULT_RAW_RETENTION_DAYS
+  );
+  const [totalDays, setTotalDays] = useState(
+    historyRetentionDays ?? DEFAULT_RETENTION_DAYS
+  );
 
   // Sync from props when they change (e.g. on first load)
   useEffect(() => {
@@ -39,25 +64,64 @@ export function OrgSettings({
     setHistoryMs(historyIntervalMs ?? DEFAULT_INTERVAL);
   }, [historyIntervalMs]);
 
-  const save = (locMs: number, histMs: number) => {
+  useEffect(() => {
+    setMinDistanceM(historyMinDistanceM ?? 0);
+  }, [historyMinDistanceM]);
+
+  useEffect(() => {
+    setRawDays(historyRawRetentionDays ?? DEFAULT_RAW_RETENTION_DAYS);
+  }, [historyRawRetentionDays]);
+
+  useEffect(() => {
+    setTotalDays(historyRetentionDays ?? DEFAULT_RETENTION_DAYS);
+  }, [historyRetentionDays]);
+
+  const retentionValid = rawDays >= 1 && totalDays >= 1 && rawDays <= totalDays;
+
+  const save = (overrides: Partial<SettingsValues>) => {
+    const next: SettingsValues = {
+      locationIntervalMs: locationMs,
+      historyIntervalMs: historyMs,
+      historyMinDistanceM: minDistanceM,
+      historyRawRetentionDays: rawDays,
+      historyRetentionDays: totalDays,
+      ...overrides,
+    };
+    if (
+      next.historyRawRetentionDays < 1 ||
+      next.historyRawRetentionDays > next.historyRetentionDays
+    ) {
+      return;
+    }
     if (debounceRef.current) clearTimeout(debounceRef.current);
     debounceRef.current = setTimeout(() => {
-      updateSettings({
-        organizationId,
-        locationIntervalMs: locMs,
-        historyIntervalMs: histMs,
-      });
+      updateSettings({ organizationId, ...next });
     }, 500);
   };
 
   const handleLocationChange = (value: number) => {
     setLocationMs(value);
-    save(value, historyMs);
+    save({ locationIntervalMs: value });
   };
 
   const handleHistoryChange = (value: number) => {
     setHistoryMs(value);
-    save(locationMs, value);
+    save({ historyIntervalMs: value });
+  };
+
+  const handleDistanceChange = (value: number) => {
+    setMinDistanceM(value);
+    save({ historyMinDistanceM: value });
+  };
+
+  const handleRawDaysChange = (value: number) => {
+    setRawDays(value);
+    save({ historyRawRetentionDays: value });
+  };
+
+  const handleTotalDaysChange = (value: number) => {
+    setTotalDays(value);
+    save({ historyRetentionDays: value });
   };
 
   return (
@@ -117,6 +181,73 @@ export function OrgSettings({
         </div>
       </div>
 
+      {/* History Min Distance */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <label className="text-sm text-white/50 font-body">
+            History Min Distance
+          </label>
+          <span className="font-mono text-sm font-medium text-accent">
+            {minDistanceM === 0 ? "Off" : `${minDistanceM}m`}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={MAX_DISTANCE_M}
+          step={DISTANCE_STEP_M}
+          value={minDistanceM}
+          onChange={(e) => handleDistanceChange(Number(e.target.value))}
+          className="w-full"
+        />
+        <div className="flex justify-between text-[10px] text-white/20 mt-1.5 font-mono">
+          <span>Off</span>
+          <span>{MAX_DISTANCE_M}m</span>
+        </div>
+        <p className="mt-2 text-xs text-white/25 font-body leading-relaxed">
+          Only save a history point once the worker has moved this far. A
+          stationary worker is still recorded every 5 minutes.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2 text-white/40 pt-2">
+        <Archive className="h-4 w-4 text-accent/50" />
+        <span className="text-sm font-medium font-display tracking-wide">History Retention</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block">
+          <span className="text-sm text-white/50 font-body">Full detail (days)</span>
+          <input
+            type="number"
+            min={1}
+            value={rawDays}
+            onChange={(e) => handleRawDaysChange(Number(e.target.value))}
+            className="mt-2 w-full rounded-lg border border-white/[0.08] bg-surface-3 px-3 py-2 font-mono text-sm text-white focus:border-accent/40 focus:outline-none"
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm text-white/50 font-body">Delete after (days)</span>
+          <input
+            type="number"
+            min={1}
+            value={totalDays}
+            onChange={(e) => handleTotalDaysChange(Number(e.target.value))}
+            className="mt-2 w-full rounded-lg border border-white/[0.08] bg-surface-3 px-3 py-2 font-mono text-sm text-white focus:border-accent/40 focus:outline-none"
+          />
+        </label>
+      </div>
+      {retentionValid ? (
+        <p className="text-xs text-white/25 font-body leading-relaxed">
+          Older trails are thinned nightly, keeping stops and the overall
+          route, and deleted entirely once past the retention window.
+        </p>
+      ) : (
+        <p className="text-xs text-rose-400 font-body">
+          Full detail must be at least 1 day and no longer than the retention window.
+        </p>
+      )}
+
       <p className="text-xs text-white/25 font-body leading-relaxed">
         Changes are saved automatically. Workers will pick up new intervals on
         their next shift start.
@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { format, startOfDay, endOfDay, subDays, addDays, differenceInCalendarDays } from "date-fns";
+import { Download, Clock, Users, Footprints } from "lucide-react";
+import { api } from "../../../convex/_generated/api";
+import { downloadFile } from "../../lib/download";
+
+// The server rejects longer ranges
+const MAX_RANGE_DAYS = 31;
+
+type Report = NonNullable<ReturnType<typeof useQuery<typeof api.reports.getZoneDwellReport>>>;
+
+function formatDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  if (h === 0) return `${m}m`;
+  return `${h}h ${String(m).padStart(2, "0")}m`;
+}
+
+/** Quotes a cell where needed; names a spreadsheet would run as a formula get a leading `'`. */
+function csvCell(value: string | number): string {
+  let s = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function downloadCsv(report: Report, startDate: string, endDate: string) {
+  const header = ["Worker", "Zone", "Total minutes", "Visits", "Average visit minutes"];
+  const lines = report.rows.map((r) =>
+    [
+      r.workerName,
+      r.zoneName,
+      (r.totalMs / 60000).toFixed(1),
+      r.visits,
+      (r.averageVisitMs / 60000).toFixed(1),
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  downloadFile(
+    [header.join(","), ...lines].join("\n"),
+    `zone-dwell_${startDate}_${endDate}.csv`,
+    "text/csv;charset=utf-8"
+  );
+}
+
+function toDateInput(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function parseDateInput(value: string): Date {
+  return new Date(value + "T00:00:00");
+}
+
+export function ZoneDwellReport() {
+  const today = toDateInput(new Date());
+  const [startDate, setStartDate] = useState(toDateInput(subDays(new Date(), 6)));
+  const [endDate, setEndDate] = useState(today);
+
+  // Moving one end past the limit drags the other along
+  const changeStartDate = (value: string) => {
+    setStartDate(value);
+    if (!value || !endDate) return;
+    const latestEnd = addDays(parseDateInput(value), MAX_RANGE_DAYS - 1);
+    if (parseDateInput(endDate) > latestEnd) {
+      setEndDate(toDateInput(latestEnd) < today ? toDateInput(latestEnd) : today);
+    }
+  };
+  const changeEndDate = (value: string) => {
+    setEndDate(value);
+    if (!value || !startDate) return;
+    const earliestStart = subDays(parseDateInput(value), MAX_RANGE_DAYS - 1);
+    if (parseDateInput(startDate) < earliestStart) setStartDate(toDateInput(earliestStart));
+  };
+
+  const startTime = startOfDay(parseDateInput(startDate)).getTime();
+  const endTime = endOfDay(parseDateInput(endDate)).getTime();
+  const validRange =
+    !!startDate &&
+    !!endDate &&
+    endTime > startTime &&
+    differenceInCalendarDays(parseDateInput(endDate), parseDateInput(startDate)) < MAX_RANGE_DAYS;
+
+  const report = useQuery(
+    api.reports.getZoneDwellReport,
+    validRange ? { startTime, endTime } : "skip"
+  );
+
+  return (
+    <div className="h-full overflow-y-auto p-6">
+      <div className="mx-auto max-w-4xl space-y-5">
+        {/* Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="font-display text-base font-bold text-white">Zone Dwell Time</h2>
+            <p className="text-sm text-white/40 font-body mt-0.5">
+              Time spent in each map zone, from zone entries and exits
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <label className="text-xs text-white/40 font-body">
+              From
+              <input
+                type="date"
+                value={startDate}
+                max={endDate}
+                onChange={(e) => changeStartDate(e.target.value)}
+                className="mt-1 block rounded-lg border border-white/[0.08] bg-surface-3 px-2.5 py-1.5 text-sm text-white focus:border-accent/40 focus:outline-none"
+              />
+            </label>
+            <label className="text-xs text-white/40 font-body">
+              To
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                max={today}
+                onChange={(e) => changeEndDate(e.target.value)}
+                className="mt-1 block rounded-lg border border-white/[0.08] bg-surface-3 px-2.5 py-1.5 text-sm text-white focus:border-accent/40 focus:outline-none"
+              />
+            </label>
+            <button
+              onClick={() => report && downloadCsv(report, startDate, endDate)}
+              disabled={!report || report.rows.length === 0}
+              className="flex items-center gap-1.5 rounded-lg bg-accent px-3.5 py-2 text-sm font-semibold text-surface-0 hover:bg-accent/90 transition-all duration-200 glow-accent-sm disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Download className="h-4 w-4" />
+              CSV
+            </button>
+          </div>
+        </div>
+
+        {!validRange ? (
+          <div className="rounded-xl border border-white/[0.06] bg-surface-2 p-12 text-center">
+            <p className="text-white/30 font-body text-sm">
+              Choose a range of 1 to {MAX_RANGE_DAYS} days
+            </p>
+          </div>
+        ) : report === undefined ? (
+          <div className="flex justify-center py-12">
+            <div className="h-6 w-6 rounded-full border-2 border-accent/20 border-t-accent animate-spin" />
+          </div>
+        ) : report.zones.length === 0 ? (
+          <div className="rounded-xl border border-white/[0.06] bg-surface-2 p-12 text-center">
+            <p className="text-white/30 font-body text-sm">
+              No map zones yet. Draw zones on the live map to see dwell times.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Zone summaries */}
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              {report.zones.map((zone) => {
+                const maxWorkers = Math.max(1, ...zone.hourlyOccupancy.map((h) => h.workers));
+                return (
+                  <div
+                    key={zone.zoneId}
+                    className="rounded-xl border border-white/[0.06] bg-surface-2 p-4"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="h-2.5 w-2.5 rounded-full"
+                        style={{ background: zone.color }}
+                      />
+                      <span className="text-sm font-semibold text-white font-body">
+                        {zone.zoneName}
+                      </span>
+                    </div>
+                    <div className="mt-3 grid grid-cols-3 gap-2 text-xs font-body">
+                      <div>
+                        <p className="flex items-center gap-1 text-white/30">
+                          <Clock className="h-3 w-3" /> Total
+                        </p>
+                        <p className="mt-0.5 font-mono text-white/80">{formatDuration(zone.totalMs)}</p>
+                      </div>
+                      <div>
+                        <p className="flex items-center gap-1 text-white/30">
+                          <Footprints className="h-3 w-3" /> Avg visit
+                        </p>
+                        <p className="mt-0.5 font-mono text-white/80">
+                          {zone.visits > 0 ? formatDuration(zone.averageVisitMs) : "-"}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="flex items-center gap-1 text-white/30">
+                          <Users className="h-3 w-3" /> Peak
+                        </p>
+                        <p className="mt-0.5 font-mono text-white/80">
+                          {zone.peakOccupancy}
+                          {zone.peakHour !== undefined && (
+                            <span className="text-white/30">
+                              {" "}@ {format(new Date(zone.peakHour), "MMM d HH:00")}
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                    {zone.hourlyOccupancy.length > 0 && (
+                      <div className="mt-3 flex h-10 items-end gap-px" title="Workers present per hour">
+                        {zone.hourlyOccupancy.map((h) => (
+                          <div
+                            key={h.hour}
+                            className="flex-1 rounded-t-sm"
+                            style={{
+                              height: `${(h.workers / maxWorkers) * 100}%`,
+                              background: zone.color,
+                              opacity: 0.6,
+                            }}
+                            title={`${format(new Date(h.hour), "MMM d HH:00")} — ${h.workers}`}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Per-worker breakdown */}
+            <div className="rounded-xl border border-white/[0.06] bg-surface-2 p-4">
+              {report.rows.length === 0 ? (
+                <p className="py-6 text-center text-sm text-white/30 font-body">
+                  No time recorded inside any zone for this range
+                </p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-left text-xs text-white/30 font-body">
+                    <tr>
+                      <th className="pb-3 font-medium">Worker</th>
+                      <th className="pb-3 font-medium">Zone</th>
+                      <th className="pb-3 font-medium text-right">Total</th>
+                      <th className="pb-3 font-medium text-right">Visits</th>
+                      <th className="pb-3 font-medium text-right">Avg visit</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/[0.03]">
+                    {report.rows.map((r) => (
+                      <tr key={`${r.workerId}-${r.zoneId}`} className="text-white/60">
+                        <td className="py-2.5 font-body text-white/80">{r.workerName}</td>
+                        <td className="py-2.5 font-body">{r.zoneName}</td>
+                        <td className="py-2.5 text-right font-mono text-xs">{formatDuration(r.totalMs)}</td>
+                        <td className="py-2.5 text-right font-mono text-xs">{r.visits}</td>
+                        <td className="py-2.5 text-right font-mono text-xs">{formatDuration(r.averageVisitMs)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useConvex } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { format, subDays } from "date-fns";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { downloadFile } from "../../lib/download";
+import {
+  TRAIL_FORMATS,
+  serializeTrail,
+  type TrailFormat,
+  type TrailPoint,
+} from "../../lib/trailExport";
+
+const PAGE_SIZE = 2000;
+
+interface TrailExportProps {
+  workerId: Id<"workers">;
+  workerName: string;
+}
+
+export function TrailExport({ workerId, workerName }: TrailExportProps) {
+  const convex = useConvex();
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 1), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(today);
+  const [fileFormat, setFileFormat] = useState<TrailFormat>("gpx");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    const startTime = new Date(startDate + "T00:00:00").getTime();
+    const endTime = new Date(endDate + "T23:59:59.999").getTime();
+    if (!(endTime > startTime)) return;
+
+    setIsExporting(true);
+    try {
+      const points: TrailPoint[] = [];
+      let cursor: string | null = null;
+      for (;;) {
+        const page: FunctionReturnType<typeof api.locations.getWorkerTrailPage> =
+          await convex.query(api.locations.getWorkerTrailPage, {
+            workerId,
+            startTime,
+            endTime,
+            paginationOpts: { numItems: PAGE_SIZE, cursor },
+          });
+        points.push(...page.page);
+        if (page.isDone) break;
+        cursor = page.continueCursor;
+      }
+
+      if (points.length === 0) {
+        toast.error("No recorded points in this date range");
+        return;
+      }
+
+      const meta = TRAIL_FORMATS[fileFormat];
+      const name = `${workerName} ${startDate} – ${endDate}`;
+      const slug = workerName.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+      downloadFile(
+        serializeTrail(fileFormat, name, points),
+        `${slug}_${startDate}_${endDate}.${meta.extension}`,
+        meta.mimeType
+      );
+      toast.success(`Exported ${points.length} points`);
+    } catch {
+      toast.error("Failed to export trail");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <label className="text-xs text-white/40 font-body">
+        From
+        <input
+          type="date"
+          value={startDate}
+          max={endDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          className="mt-1 block rounded-lg border border-white/[0.08] bg-surface-3 px-2.5 py-1.5 text-sm text-white focus:border-accent/40 focus:outline-none"
+        />
+      </label>
+      <label className="text-xs text-white/40 font-body">
+        To
+        <input
+          type="date"
+          value={endDate}
+          min={startDate}
+          max={today}
+          onChange={(e) => setEndDate(e.target.value)}
+          className="mt-1 block rounded-lg border border-white/[0.08] bg-surface-3 px-2.5 py-1.5 text-sm text-white focus:border-accent/40 focus:outline-none"
+        />
+      </label>
+      <label className="text-xs text-white/40 font-body">
+        Format
+        <select
+          value={fileFormat}
+          onChange={(e) => setFileFormat(e.target.value as TrailFormat)}
+          className="mt-1 block rounded-lg border border-white/[0.08] bg-surface-3 px-2.5 py-1.5 text-sm text-white focus:border-accent/40 focus:outline-none"
+        >
+          {(Object.keys(TRAIL_FORMATS) as TrailFormat[]).map((f) => (
+            <option key={f} value={f}>
+              {TRAIL_FORMATS[f].label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button
+        onClick={handleExport}
+        disabled={isExporting || !startDate || !endDate}
+        className="flex items-center gap-2 rounded-lg bg-accent/15 px-3.5 py-2 text-sm font-medium text-accent hover:bg-accent/25 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        {isExporting ? (
+          <div className="h-4 w-4 animate-spin rounded-full border-2 border-accent border-t-transparent" />
+        ) : (
+          <Download className="h-4 w-4" />
+        )}
+        Export
+      </button>
+    </div>
+  );
+}
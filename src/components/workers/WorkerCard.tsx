@@ -7,6 +7,7 @@ import {
   BatteryWarning,
   ExternalLink,
   MapPin,
+  MessageSquare,
   Send,
 } from "lucide-react";
 import type { Id } from "../../../convex/_generated/dataModel";
@@ -33,6 +34,7 @@ interface WorkerCardProps {
   isSelected: boolean;
   onSelect: () => void;
   onSendCommand: () => void;
+  unreadReplies?: number;
 }
 
 function BatteryIcon({
@@ -64,6 +66,7 @@ export function WorkerCard({
   isSelected,
   onSelect,
   onSendCommand,
+  unreadReplies = 0,
 }: WorkerCardProps) {
   const batteryLevel = worker.currentLocation?.batteryLevel;
   const isCharging = worker.currentLocation?.isCharging;
@@ -103,6 +106,18 @@ export function WorkerCard({
               >
                 {worker.isOnDuty ? "On Duty" : "Off"}
               </span>
+              {unreadReplies > 0 && (
+                <Link
+                  to="/workers/$workerId"
+                  params={{ workerId: worker._id }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="flex shrink-0 items-center gap-1 rounded-full bg-accent/15 px-1.5 py-0.5 text-[10px] font-semibold text-accent font-body hover:bg-accent/25 transition-colors"
+                  title={`${unreadReplies} unread repl${unreadReplies !== 1 ? "ies" : "y"}`}
+                >
+                  <MessageSquare className="h-2.5 w-2.5" />
+                  {unreadReplies}
+                </Link>
+              )}
             </div>
 
             <div className="mt-1 flex items-center gap-3 text-xs">
@@ -14,7 +14,9 @@ import {
 import { useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
-import { CommandHistory } from "../commands/CommandHistory";
+import { CommandHistory, type CommandHistoryItem } from "../commands/CommandHistory";
+import { ZoneEventTimeline } from "../map/ZoneEventTimeline";
+import { TrailExport } from "./TrailExport";
 
 interface Worker {
   _id: Id<"workers">;
@@ -35,18 +37,6 @@ interface Worker {
   };
 }
 
-interface Command {
-  _id: Id<"workerCommands">;
-  type: "sound_alert" | "message" | "sound_and_message";
-  message?: string;
-  soundType: "alarm" | "notification" | "urgent";
-  status: "pending" | "delivered" | "acknowledged";
-  createdAt: number;
-  deliveredAt?: number;
-  acknowledgedAt?: number;
-  fromAdminName: string;
-}
-
 interface LocationHistory {
   _id: Id<"historicalWorkerLocations">;
   latitude: number;
@@ -55,10 +45,19 @@ interface LocationHistory {
   timestamp: number;
 }
 
+interface ZoneEvent {
+  _id: Id<"zoneEvents">;
+  zoneId: Id<"mapZones">;
+  zoneName: string;
+  direction: "enter" | "exit";
+  timestamp: number;
+}
+
 interface WorkerDetailProps {
   worker: Worker;
-  commandHistory: Command[];
+  commandHistory: CommandHistoryItem[];
   locationHistory: LocationHistory[];
+  zoneEvents: ZoneEvent[];
   onSendCommand: () => void;
 }
 
@@ -73,6 +72,7 @@ export function WorkerDetail({
   worker,
   commandHistory,
   locationHistory,
+  zoneEvents,
   onSendCommand,
 }: WorkerDetailProps) {
   const loc = worker.currentLocation;
@@ -341,9 +341,24 @@ export function WorkerDetail({
         </div>
       )}
 
+      {/* Trail Export */}
+      <div className="animate-in rounded-2xl border border-white/[0.06] bg-surface-2 p-6">
+        <h2 className="mb-1 font-display text-lg font-bold">Export Trail</h2>
+        <p className="mb-4 text-sm text-white/40 font-body">
+          Download the recorded trail as GPX, GeoJSON or KML for Google Earth, QGIS and similar tools.
+        </p>
+        <TrailExport workerId={worker._id} workerName={worker.name} />
+      </div>
+
+      {/* Zone Activity */}
+      <div className="animate-in rounded-2xl border border-white/[0.06] bg-surface-2 p-6">
+        <h2 className="mb-4 font-display text-lg font-bold">Zone Activity</h2>
+        <ZoneEventTimeline events={zoneEvents} />
+      </div>
+
       {/* Command History */}
       <div className="animate-in rounded-2xl border border-white/[0.06] bg-surface-2 p-6">
-        <h2 className="mb-4 font-display text-lg font-bold">Command History</h2>
+        <h2 className="mb-4 font-display text-lg font-bold">Commands &amp; Replies</h2>
         <CommandHistory commands={commandHistory} />
       </div>
     </div>
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Search, Filter, UserPlus } from "lucide-react";
+import { Search, Filter, UserPlus, Radio, Clock } from "lucide-react";
 import { WorkerCard } from "./WorkerCard";
 import type { Id } from "../../../convex/_generated/dataModel";
 
@@ -26,6 +26,9 @@ interface WorkerListProps {
   onSelectWorker: (id: Id<"workers">) => void;
   onSendCommand: (id: Id<"workers">) => void;
   onAddWorker: () => void;
+  onBroadcast: () => void;
+  onScheduled: () => void;
+  unreadReplies?: Partial<Record<Id<"workers">, number>>;
   showOnlyOnDuty: boolean;
   onToggleOnDuty: () => void;
 }
@@ -38,6 +41,9 @@ export function WorkerList({
   onSelectWorker,
   onSendCommand,
   onAddWorker,
+  onBroadcast,
+  onScheduled,
+  unreadReplies,
   showOnlyOnDuty,
   onToggleOnDuty,
 }: WorkerListProps) {
@@ -119,6 +125,7 @@ export function WorkerList({
                 isSelected={worker._id === selectedWorkerId}
                 onSelect={() => onSelectWorker(worker._id)}
                 onSendCommand={() => onSendCommand(worker._id)}
+                unreadReplies={unreadReplies?.[worker._id]}
               />
             ))}
           </div>
@@ -133,13 +140,31 @@ export function WorkerList({
             {workers.filter((w) => w.isOnDuty).length} on duty
           </span>
         </span>
-        <button
-          onClick={onAddWorker}
-          className="flex items-center gap-1.5 rounded-lg bg-accent px-3 py-1.5 text-xs font-semibold text-surface-0 hover:bg-accent/90 transition-all duration-200 glow-accent-sm"
-        >
-          <UserPlus className="h-3 w-3" />
-          Add
-        </button>
+        <div className="flex items-center gap-1.5">
+          <button
+            onClick={onBroadcast}
+            title="Broadcast to many workers"
+            className="flex items-center gap-1.5 rounded-lg border border-white/[0.06] bg-surface-2 px-3 py-1.5 text-xs font-semibold text-white/50 hover:text-white/80 transition-all duration-200"
+          >
+            <Radio className="h-3 w-3" />
+            Broadcast
+          </button>
+          <button
+            onClick={onScheduled}
+            title="Scheduled commands"
+            className="flex items-center gap-1.5 rounded-lg border border-white/[0.06] bg-surface-2 px-3 py-1.5 text-xs font-semibold text-white/50 hover:text-white/80 transition-all duration-200"
+          >
+            <Clock className="h-3 w-3" />
+            Scheduled
+          </button>
+          <button
+            onClick={onAddWorker}
+            className="flex items-center gap-1.5 rounded-lg bg-accent px-3 py-1.5 text-xs font-semibold text-surface-0 hover:bg-accent/90 transition-all duration-200 glow-accent-sm"
+          >
+            <UserPlus className="h-3 w-3" />
+            Add
+          </button>
+        </div>
       </div>
     </div>
   );
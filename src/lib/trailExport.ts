@@ -0,0 +1,145 @@
+import { escapeXml } from "./xml";
+
+export interface TrailPoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  batteryLevel?: number;
+  timestamp: number;
+}
+
+export type TrailFormat = "gpx" | "geojson" | "kml";
+
+export const TRAIL_FORMATS: Record<
+  TrailFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  gpx: { label: "GPX", extension: "gpx", mimeType: "application/gpx+xml" },
+  geojson: { label: "GeoJSON", extension: "geojson", mimeType: "application/geo+json" },
+  kml: { label: "KML", extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+};
+
+// Namespace for the accuracy/battery extension elements in GPX
+const GPX_EXT_NS = "urn:momentum-tracker:gpx-extensions:1";
+
+function iso(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+/** GPX 1.1 track. Accuracy (m) and battery (%) go in per-point extensions. */
+export function toGpx(name: string, points: TrailPoint[]): string {
+  const trkpts = points
+    .map((p) => {
+      const ext: string[] = [];
+      if (p.accuracy !== undefined) ext.push(`<mt:accuracy>${p.accuracy}</mt:accuracy>`);
+      if (p.batteryLevel !== undefined) ext.push(`<mt:battery>${p.batteryLevel}</mt:battery>`);
+      return [
+        `      <trkpt lat="${p.latitude}" lon="${p.longitude}">`,
+        `        <time>${iso(p.timestamp)}</time>`,
+        ext.length ? `        <extensions>${ext.join("")}</extensions>` : null,
+        `      </trkpt>`,
+      ]
+        .filter(Boolean)
+        .join("\n");
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Momentum Tracker" xmlns="http://www.topografix.com/GPX/1/1" xmlns:mt="${GPX_EXT_NS}">
+  <metadata>
+    <name>${escapeXml(name)}</name>
+    <time>${iso(Date.now())}</time>
+  </metadata>
+  <trk>
+    <name>${escapeXml(name)}</name>
+    <trkseg>
+${trkpts}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+}
+
+/**
+ * GeoJSON Feature with a LineString, or a Point for a single fix since a
+ * LineString needs two positions. Per-point values are parallel arrays in
+ * `properties`, following the `coordTimes` convention used by togeojson.
+ */
+export function toGeoJson(name: string, points: TrailPoint[]): string {
+  const feature = {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        properties: {
+          name,
+          coordTimes: points.map((p) => iso(p.timestamp)),
+          accuracies: points.map((p) => p.accuracy ?? null),
+          batteryLevels: points.map((p) => p.batteryLevel ?? null),
+        },
+        geometry:
+          points.length === 1
+            ? { type: "Point", coordinates: [points[0].longitude, points[0].latitude] }
+            : { type: "LineString", coordinates: points.map((p) => [p.longitude, p.latitude]) },
+      },
+    ],
+  };
+  return JSON.stringify(feature, null, 2);
+}
+
+/**
+ * KML 2.2 `gx:Track`, which Google Earth animates by time. Accuracy and
+ * battery are attached as `gx:SimpleArrayData` in the track's ExtendedData.
+ */
+export function toKml(name: string, points: TrailPoint[]): string {
+  const whens = points.map((p) => `        <when>${iso(p.timestamp)}</when>`).join("\n");
+  const coords = points
+    .map((p) => `        <gx:coord>${p.longitude} ${p.latitude} 0</gx:coord>`)
+    .join("\n");
+  const values = (get: (p: TrailPoint) => number | undefined) =>
+    points.map((p) => `            <gx:value>${get(p) ?? ""}</gx:value>`).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <name>${escapeXml(name)}</name>
+    <Schema id="trailSchema">
+      <gx:SimpleArrayField name="accuracy" type="float">
+        <displayName>Accuracy (m)</displayName>
+      </gx:SimpleArrayField>
+      <gx:SimpleArrayField name="battery" type="float">
+        <displayName>Battery (%)</displayName>
+      </gx:SimpleArrayField>
+    </Schema>
+    <Placemark>
+      <name>${escapeXml(name)}</name>
+      <gx:Track>
+${whens}
+${coords}
+        <ExtendedData>
+          <SchemaData schemaUrl="#trailSchema">
+            <gx:SimpleArrayData name="accuracy">
+${values((p) => p.accuracy)}
+            </gx:SimpleArrayData>
+            <gx:SimpleArrayData name="battery">
+${values((p) => p.batteryLevel)}
+            </gx:SimpleArrayData>
+          </SchemaData>
+        </ExtendedData>
+      </gx:Track>
+    </Placemark>
+  </Document>
+</kml>
+`;
+}
+
+export function serializeTrail(format: TrailFormat, name: string, points: TrailPoint[]): string {
+  switch (format) {
+    case "gpx":
+      return toGpx(name, points);
+    case "geojson":
+      return toGeoJson(name, points);
+    case "kml":
+      return toKml(name, points);
+  }
+}
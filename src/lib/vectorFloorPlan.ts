@@ -0,0 +1,251 @@
+import { DEFAULT_ZONE_COLOR } from "./zoneFormats";
+
+/** Longest side, in pixels, that SVG and PDF drawings are rendered at. */
+export const VECTOR_RENDER_SIZE = 4096;
+
+// Points taken along a path or ellipse outline when turning it into a zone
+const PATH_SAMPLES = 48;
+
+// Ids editors generate on their own (path1234, rect-5) aren't room names
+const GENERATED_ID = /^(path|rect|polygon|polyline|circle|ellipse|g|svg|shape)[-_]?\d+$/i;
+
+export interface FloorZoneShape {
+  name: string;
+  color: string;
+  points: { x: number; y: number }[]; // fractions of the image, 0-1
+}
+
+export interface RenderedFloorPlan {
+  blob: Blob; // PNG
+  width: number;
+  height: number;
+  zones: FloorZoneShape[]; // named SVG shapes; always empty for PDFs
+}
+
+export function isSvgFile(file: File): boolean {
+  return file.type === "image/svg+xml" || /\.svg$/i.test(file.name);
+}
+
+export function isPdfFile(file: File): boolean {
+  return file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+}
+
+export function isVectorFloorPlan(file: File): boolean {
+  return isSvgFile(file) || isPdfFile(file);
+}
+
+/** Natural size of a raster image file. */
+export function getImageDimensions(file: File): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      URL.revokeObjectURL(url);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read image dimensions"));
+    };
+    img.src = url;
+  });
+}
+
+/** Renders an SVG or single-page PDF drawing to a high-resolution PNG. */
+export async function renderVectorFloorPlan(file: File): Promise<RenderedFloorPlan> {
+  return isPdfFile(file) ? renderPdf(file) : renderSvg(file);
+}
+
+function renderSize(width: number, height: number) {
+  const scale = VECTOR_RENDER_SIZE / Math.max(width, height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available in this browser");
+  // Drawings assume paper; without this transparent areas render dark
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  return { canvas, ctx };
+}
+
+function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the rendered drawing"))),
+      "image/png"
+    );
+  });
+}
+
+// ─── SVG ─────────────────────────────────────────────────────────────────────
+
+function svgLength(value: string | null): number | null {
+  if (!value) return null;
+  const match = /^\s*([\d.]+)(px)?\s*$/.exec(value);
+  const n = match ? Number(match[1]) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Drawing size from the viewBox, else from absolute width/height attributes
+ * (adding the matching viewBox so the drawing scales when resized).
+ */
+function svgSize(svg: SVGSVGElement): { width: number; height: number } | null {
+  const viewBox = svg.getAttribute("viewBox")?.trim().split(/[\s,]+/).map(Number);
+  if (viewBox && viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: viewBox[2], height: viewBox[3] };
+  }
+  const width = svgLength(svg.getAttribute("width"));
+  const height = svgLength(svg.getAttribute("height"));
+  if (width && height) {
+    svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+    return { width, height };
+  }
+  return null;
+}
+
+async function renderSvg(file: File): Promise<RenderedFloorPlan> {
+  const doc = new DOMParser().parseFromString(await file.text(), "image/svg+xml");
+  const svg = doc.documentElement as unknown as SVGSVGElement;
+  if (doc.querySelector("parsererror") || svg.nodeName.toLowerCase() !== "svg") {
+    throw new Error("Not a valid SVG file");
+  }
+  const size = svgSize(svg);
+  if (!size) throw new Error("The SVG needs a viewBox or a width and height");
+
+  const { width, height } = renderSize(size.width, size.height);
+  svg.setAttribute("width", String(width));
+  svg.setAttribute("height", String(height));
+
+  const zones = extractNamedShapes(svg, width, height);
+
+  const url = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(svg)], { type: "image/svg+xml" })
+  );
+  try {
+    const img = await loadImage(url);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    return { blob: await canvasToPng(canvas), width, height, zones };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not render the SVG"));
+    img.src = url;
+  });
+}
+
+/**
+ * Turns shapes with a meaningful `id` (or Illustrator's `data-name`) into
+ * zones. The SVG is mounted off-screen so the browser resolves transforms
+ * and path geometry for us.
+ */
+function extractNamedShapes(svg: SVGSVGElement, width: number, height: number): FloorZoneShape[] {
+  const host = document.createElement("div");
+  host.style.cssText = "position:absolute;left:-100000px;top:0;visibility:hidden;";
+  const mounted = document.importNode(svg, true);
+  host.appendChild(mounted);
+  document.body.appendChild(host);
+
+  try {
+    const zones: FloorZoneShape[] = [];
+    const shapes = mounted.querySelectorAll<SVGGeometryElement>(
+      "polygon, polyline, rect, path, circle, ellipse"
+    );
+    for (const el of shapes) {
+      const name = (el.getAttribute("data-name") ?? el.id).trim();
+      if (!name || GENERATED_ID.test(name)) continue;
+
+      const ctm = el.getCTM();
+      if (!ctm) continue;
+      const points = shapePoints(el)
+        .map((p) => new DOMPoint(p.x, p.y).matrixTransform(ctm))
+        .map((p) => ({ x: p.x / width, y: p.y / height }));
+      if (points.length < 3 || polygonArea(points) < 1e-6) continue;
+
+      const fill = el.getAttribute("fill");
+      zones.push({
+        name,
+        color: fill && /^#[0-9a-f]{6}$/i.test(fill) ? fill.toLowerCase() : DEFAULT_ZONE_COLOR,
+        points,
+      });
+    }
+    return zones;
+  } finally {
+    host.remove();
+  }
+}
+
+function shapePoints(el: SVGGeometryElement): { x: number; y: number }[] {
+  if (el instanceof SVGPolygonElement || el instanceof SVGPolylineElement) {
+    return Array.from(el.points, (p) => ({ x: p.x, y: p.y }));
+  }
+  if (el instanceof SVGRectElement) {
+    const x = el.x.baseVal.value;
+    const y = el.y.baseVal.value;
+    const w = el.width.baseVal.value;
+    const h = el.height.baseVal.value;
+    return [
+      { x, y },
+      { x: x + w, y },
+      { x: x + w, y: y + h },
+      { x, y: y + h },
+    ];
+  }
+  const length = el.getTotalLength();
+  if (!(length > 0)) return [];
+  return Array.from({ length: PATH_SAMPLES }, (_, i) => {
+    const p = el.getPointAtLength((length * i) / PATH_SAMPLES);
+    return { x: p.x, y: p.y };
+  });
+}
+
+function polygonArea(points: { x: number; y: number }[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+// ─── PDF ─────────────────────────────────────────────────────────────────────
+
+async function renderPdf(file: File): Promise<RenderedFloorPlan> {
+  // pdf.js is large, so it is only loaded when someone uploads a PDF
+  const pdfjs = await import("pdfjs-dist");
+  const { default: workerSrc } = await import("pdfjs-dist/build/pdf.worker.min.mjs?url");
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  try {
+    if (pdf.numPages !== 1) {
+      throw new Error(`Only single-page PDFs are supported (this one has ${pdf.numPages} pages)`);
+    }
+    const page = await pdf.getPage(1);
+    const base = page.getViewport({ scale: 1 });
+    const { width, height } = renderSize(base.width, base.height);
+    const viewport = page.getViewport({ scale: width / base.width });
+
+    const { canvas, ctx } = createCanvas(width, height);
+    await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+    return { blob: await canvasToPng(canvas), width, height, zones: [] };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,329 @@
+import { escapeXml } from "./xml";
+
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * A zone as stored in `mapZones`. Circles are written as Point features and
+ * corridors as LineStrings, with `radiusM` / `widthM` carried alongside so
+ * they survive a round trip.
+ */
+export interface ZoneShape {
+  name: string;
+  color: string;
+  shape?: "polygon" | "circle" | "corridor";
+  points: LatLng[];
+  center?: LatLng;
+  radiusM?: number;
+  widthM?: number;
+}
+
+export interface ParsedZones {
+  zones: ZoneShape[];
+  skipped: number; // features that were not usable zones
+}
+
+export const DEFAULT_ZONE_COLOR = "#00d4ff";
+
+const NAME_KEYS = ["name", "Name", "NAME", "title", "label"];
+const COLOR_KEYS = ["color", "colour", "fill", "stroke", "Color"];
+const RADIUS_KEYS = ["radiusM", "radius"];
+const WIDTH_KEYS = ["widthM", "width"];
+
+function positiveNumber(value: unknown): number | null {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function normalizeHexColor(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const m = value.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i);
+  if (!m) return null;
+  const hex = m[1].length === 3 ? m[1].replace(/./g, (c) => c + c) : m[1];
+  return `#${hex.toLowerCase()}`;
+}
+
+/** KML colors are aabbggrr. */
+function kmlToHex(value: string | null | undefined): string | null {
+  const m = value?.trim().match(/^([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!m) return null;
+  return `#${m[4]}${m[3]}${m[2]}`.toLowerCase();
+}
+
+function hexToKml(hex: string, alpha: string): string {
+  const h = (normalizeHexColor(hex) ?? DEFAULT_ZONE_COLOR).slice(1);
+  return `${alpha}${h.slice(4, 6)}${h.slice(2, 4)}${h.slice(0, 2)}`;
+}
+
+/** Drops the closing vertex that GeoJSON and KML repeat at the end of a ring. */
+function openRing(points: LatLng[]): LatLng[] {
+  if (points.length > 1) {
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (first.lat === last.lat && first.lng === last.lng) return points.slice(0, -1);
+  }
+  return points;
+}
+
+function validPoint(p: LatLng): boolean {
+  return (
+    Number.isFinite(p.lat) &&
+    Number.isFinite(p.lng) &&
+    Math.abs(p.lat) <= 90 &&
+    Math.abs(p.lng) <= 180
+  );
+}
+
+// ─── GeoJSON ─────────────────────────────────────────────────────────────────
+
+function firstProperty(props: Record<string, unknown>, keys: string[]): unknown {
+  for (const k of keys) if (props[k] !== undefined && props[k] !== null) return props[k];
+  return undefined;
+}
+
+function parseGeoJson(text: string): ParsedZones {
+  const data = JSON.parse(text);
+  const features: { geometry?: { type: string; coordinates: unknown }; properties?: Record<string, unknown> }[] =
+    data.type === "FeatureCollection"
+      ? data.features ?? []
+      : data.type === "Feature"
+        ? [data]
+        : [{ geometry: data }];
+
+  const zones: ZoneShape[] = [];
+  let skipped = 0;
+
+  features.forEach((f, i) => {
+    const props = f.properties ?? {};
+    const baseName = String(firstProperty(props, NAME_KEYS) ?? `Zone ${i + 1}`);
+    const color = normalizeHexColor(firstProperty(props, COLOR_KEYS)) ?? DEFAULT_ZONE_COLOR;
+    const geom = f.geometry;
+
+    if (geom?.type === "Point") {
+      const [lng, lat] = geom.coordinates as number[];
+      const radiusM = positiveNumber(firstProperty(props, RADIUS_KEYS));
+      if (radiusM === null || !validPoint({ lat, lng })) {
+        skipped++;
+        return;
+      }
+      zones.push({ name: baseName, color, shape: "circle", points: [], center: { lat, lng }, radiusM });
+      return;
+    }
+    if (geom?.type === "LineString") {
+      const points = (geom.coordinates as number[][]).map(([lng, lat]) => ({ lat, lng }));
+      const widthM = positiveNumber(firstProperty(props, WIDTH_KEYS));
+      if (widthM === null || points.length < 2 || !points.every(validPoint)) {
+        skipped++;
+        return;
+      }
+      zones.push({ name: baseName, color, shape: "corridor", points, widthM });
+      return;
+    }
+
+    let rings: number[][][] = [];
+    if (geom?.type === "Polygon") {
+      rings = [(geom.coordinates as number[][][])[0]];
+    } else if (geom?.type === "MultiPolygon") {
+      rings = (geom.coordinates as number[][][][]).map((poly) => poly[0]);
+    } else {
+      skipped++;
+      return;
+    }
+
+    rings.forEach((ring, j) => {
+      const points = openRing((ring ?? []).map(([lng, lat]) => ({ lat, lng })));
+      if (points.length < 3 || !points.every(validPoint)) {
+        skipped++;
+        return;
+      }
+      zones.push({
+        name: rings.length > 1 ? `${baseName} (${j + 1})` : baseName,
+        color,
+        points,
+      });
+    });
+  });
+
+  return { zones, skipped };
+}
+
+// ─── KML ─────────────────────────────────────────────────────────────────────
+
+function childText(el: Element, tag: string): string | null {
+  return el.getElementsByTagName(tag)[0]?.textContent?.trim() ?? null;
+}
+
+/** Reads `<Data name="...">` values from a placemark's ExtendedData. */
+function extendedData(pm: Element, name: string): string | null {
+  for (const data of Array.from(pm.getElementsByTagName("Data"))) {
+    if (data.getAttribute("name") === name) return childText(data, "value");
+  }
+  return null;
+}
+
+function parseKmlCoordinates(text: string): LatLng[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => {
+      const [lng, lat] = tuple.split(",").map(Number);
+      return { lat, lng };
+    });
+}
+
+function parseKml(text: string): ParsedZones {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Invalid KML file");
+  }
+
+  // Shared styles, referenced from placemarks by #id
+  const styleColors = new Map<string, string>();
+  for (const style of Array.from(doc.getElementsByTagName("Style"))) {
+    const id = style.getAttribute("id");
+    const poly = style.getElementsByTagName("PolyStyle")[0];
+    const line = style.getElementsByTagName("LineStyle")[0];
+    const color = kmlToHex(poly && childText(poly, "color")) ?? kmlToHex(line && childText(line, "color"));
+    if (id && color) styleColors.set(id, color);
+  }
+
+  const zones: ZoneShape[] = [];
+  let skipped = 0;
+
+  Array.from(doc.getElementsByTagName("Placemark")).forEach((pm, i) => {
+    const baseName = childText(pm, "name") || `Zone ${i + 1}`;
+    const inlineStyle = pm.getElementsByTagName("Style")[0];
+    const inlinePoly = inlineStyle?.getElementsByTagName("PolyStyle")[0];
+    const styleUrl = childText(pm, "styleUrl")?.replace(/^#/, "");
+    const color =
+      kmlToHex(inlinePoly && childText(inlinePoly, "color")) ??
+      (styleUrl ? styleColors.get(styleUrl) : undefined) ??
+      DEFAULT_ZONE_COLOR;
+
+    const point = pm.getElementsByTagName("Point")[0];
+    const radiusM = positiveNumber(extendedData(pm, "radiusM"));
+    if (point && radiusM !== null) {
+      const [center] = parseKmlCoordinates(childText(point, "coordinates") ?? "");
+      if (!center || !validPoint(center)) skipped++;
+      else zones.push({ name: baseName, color, shape: "circle", points: [], center, radiusM });
+      return;
+    }
+
+    const line = pm.getElementsByTagName("LineString")[0];
+    const widthM = positiveNumber(extendedData(pm, "widthM"));
+    if (line && widthM !== null) {
+      const points = parseKmlCoordinates(childText(line, "coordinates") ?? "");
+      if (points.length < 2 || !points.every(validPoint)) skipped++;
+      else zones.push({ name: baseName, color, shape: "corridor", points, widthM });
+      return;
+    }
+
+    const polygons = Array.from(pm.getElementsByTagName("Polygon"));
+    if (polygons.length === 0) {
+      skipped++;
+      return;
+    }
+
+    polygons.forEach((poly, j) => {
+      const outer = poly.getElementsByTagName("outerBoundaryIs")[0] ?? poly;
+      const coords = childText(outer, "coordinates");
+      const points = coords ? openRing(parseKmlCoordinates(coords)) : [];
+      if (points.length < 3 || !points.every(validPoint)) {
+        skipped++;
+        return;
+      }
+      zones.push({
+        name: polygons.length > 1 ? `${baseName} (${j + 1})` : baseName,
+        color,
+        points,
+      });
+    });
+  });
+
+  return { zones, skipped };
+}
+
+/** Parses a GeoJSON or KML file into zones. Format is picked by extension, then content. */
+export function parseZonesFile(filename: string, text: string): ParsedZones {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith(".kml") || text.trimStart().startsWith("<")) return parseKml(text);
+  return parseGeoJson(text);
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+export function zonesToGeoJson(zones: ZoneShape[]): string {
+  return JSON.stringify(
+    {
+      type: "FeatureCollection",
+      features: zones.map((z) => {
+        if (z.shape === "circle" && z.center) {
+          return {
+            type: "Feature",
+            properties: { name: z.name, color: z.color, shape: "circle", radiusM: z.radiusM },
+            geometry: { type: "Point", coordinates: [z.center.lng, z.center.lat] },
+          };
+        }
+        if (z.shape === "corridor") {
+          return {
+            type: "Feature",
+            properties: { name: z.name, color: z.color, shape: "corridor", widthM: z.widthM },
+            geometry: { type: "LineString", coordinates: z.points.map((p) => [p.lng, p.lat]) },
+          };
+        }
+        const ring = z.points.map((p) => [p.lng, p.lat]);
+        if (ring.length > 0) ring.push(ring[0]);
+        return {
+          type: "Feature",
+          properties: { name: z.name, color: z.color },
+          geometry: { type: "Polygon", coordinates: [ring] },
+        };
+      }),
+    },
+    null,
+    2
+  );
+}
+
+export function zonesToKml(documentName: string, zones: ZoneShape[]): string {
+  const placemarks = zones
+    .map((z, i) => {
+      let geometry: string;
+      if (z.shape === "circle" && z.center) {
+        geometry = `      <ExtendedData><Data name="radiusM"><value>${z.radiusM}</value></Data></ExtendedData>
+      <Point><coordinates>${z.center.lng},${z.center.lat},0</coordinates></Point>`;
+      } else if (z.shape === "corridor") {
+        const line = z.points.map((p) => `${p.lng},${p.lat},0`).join(" ");
+        geometry = `      <ExtendedData><Data name="widthM"><value>${z.widthM}</value></Data></ExtendedData>
+      <LineString><coordinates>${line}</coordinates></LineString>`;
+      } else {
+        const ring = [...z.points, z.points[0]]
+          .map((p) => `${p.lng},${p.lat},0`)
+          .join(" ");
+        geometry = `      <Polygon>
+        <outerBoundaryIs><LinearRing><coordinates>${ring}</coordinates></LinearRing></outerBoundaryIs>
+      </Polygon>`;
+      }
+      return `    <Style id="zone${i}">
+      <LineStyle><color>${hexToKml(z.color, "cc")}</color><width>2</width></LineStyle>
+      <PolyStyle><color>${hexToKml(z.color, "40")}</color></PolyStyle>
+    </Style>
+    <Placemark>
+      <name>${escapeXml(z.name)}</name>
+      <styleUrl>#zone${i}</styleUrl>
+${geometry}
+    </Placemark>`;
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(documentName)}</name>
+${placemarks}
+  </Document>
+</kml>
+`;
+}
@@ -8,11 +8,15 @@ import { Sidebar } from "../components/layout/Sidebar";
 import { LiveMap } from "../components/map/LiveMap";
 import { WorkerList } from "../components/workers/WorkerList";
 import { SendCommand } from "../components/commands/SendCommand";
+import { BroadcastCommand } from "../components/commands/BroadcastCommand";
+import { RollCall } from "../components/commands/RollCall";
+import { ScheduledCommands } from "../components/commands/ScheduledCommands";
 import { AddWorker } from "../components/workers/AddWorker";
 import { OrgSetup } from "../components/organizations/OrgSetup";
 import { OrgPanel } from "../components/organizations/OrgPanel";
 import { FloorPlanViewer } from "../components/floorplan/FloorPlanViewer";
 import { FloorPlanManager } from "../components/floorplan/FloorPlanManager";
+import { IntrusionAlerts } from "../components/alerts/IntrusionAlerts";
 
 export const Route = createFileRoute("/")({
   component: DashboardPage,
@@ -30,6 +34,10 @@ function DashboardPage() {
   const [showOnlyOnDuty, setShowOnlyOnDuty] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [showAddWorker, setShowAddWorker] = useState(false);
+  const [showBroadcast, setShowBroadcast] = useState(false);
+  const [showScheduled, setShowScheduled] = useState(false);
+  const [rollCallId, setRollCallId] =
+    useState<Id<"broadcasts"> | null>(null);
   const [showOrgSetup, setShowOrgSetup] = useState(false);
   const [showOrgPanel, setShowOrgPanel] = useState(false);
   const [showFloorPlanManager, setShowFloorPlanManager] = useState(false);
@@ -57,11 +65,17 @@ function DashboardPage() {
     isAuthenticated ? {} : "skip"
   );
 
-  const activeFloorPlan = useQuery(
-    api.floorPlans.getActiveFloorPlan,
+  const unreadReplies = useQuery(
+    api.commands.getUnreadReplies,
     isAuthenticated ? {} : "skip"
   );
 
+  const activeSites = useQuery(
+    api.floorPlans.getActiveFloorPlans,
+    isAuthenticated ? {} : "skip"
+  );
+  const hasFloorPlan = !!activeSites && activeSites.length > 0;
+
   if (isLoading) {
     return (
       <div className="flex h-screen items-center justify-center bg-surface-0">
@@ -105,6 +119,11 @@ function DashboardPage() {
               onSelectWorker={setSelectedWorkerId}
               onSendCommand={handleSendCommand}
               onAddWorker={() => setShowAddWorker(true)}
+              onBroadcast={() => setShowBroadcast(true)}
+              onScheduled={() => setShowScheduled(true)}
+              unreadReplies={Object.fromEntries(
+                unreadReplies?.byWorker.map((u) => [u.workerId, u.count]) ?? []
+              )}
               showOnlyOnDuty={showOnlyOnDuty}
               onToggleOnDuty={() => setShowOnlyOnDuty(!showOnlyOnDuty)}
             />
@@ -114,9 +133,9 @@ function DashboardPage() {
         <main className="relative flex-1">
           {hasOrg ? (
             <>
-              {activeFloorPlan && !forceStreetMap ? (
+              {activeSites && hasFloorPlan && !forceStreetMap ? (
                 <FloorPlanViewer
-                  floorPlan={activeFloorPlan}
+                  sites={activeSites}
                   workers={filteredWorkers ?? []}
                   selectedWorkerId={selectedWorkerId}
                   onSelectWorker={setSelectedWorkerId}
@@ -131,7 +150,18 @@ function DashboardPage() {
                   onSelectWorker={setSelectedWorkerId}
                   onSendCommand={handleSendCommand}
                   onOpenFloorPlanManager={() => setShowFloorPlanManager(true)}
-                  onSwitchToFloorPlan={activeFloorPlan ? () => setForceStreetMap(false) : undefined}
+                  onSwitchToFloorPlan={hasFloorPlan ? () => setForceStreetMap(false) : undefined}
+                />
+              )}
+
+              <IntrusionAlerts onSelectWorker={setSelectedWorkerId} />
+
+              {rollCallId && (
+                <RollCall
+                  broadcastId={rollCallId}
+                  onSelectBroadcast={setRollCallId}
+                  onSelectWorker={setSelectedWorkerId}
+                  onClose={() => setRollCallId(null)}
                 />
               )}
 
@@ -176,6 +206,24 @@ function DashboardPage() {
         <FloorPlanManager onClose={() => setShowFloorPlanManager(false)} />
       )}
 
+      {showBroadcast && (
+        <BroadcastCommand
+          workers={workers ?? []}
+          onClose={() => setShowBroadcast(false)}
+          onSent={(broadcastId) => {
+            setShowBroadcast(false);
+            setRollCallId(broadcastId);
+          }}
+        />
+      )}
+
+      {showScheduled && (
+        <ScheduledCommands
+          workers={workers ?? []}
+          onClose={() => setShowScheduled(false)}
+        />
+      )}
+
       {showCommandPanel && commandTargetId && (
         <SendCommand
           workerId={commandTargetId}
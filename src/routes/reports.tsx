@@ -0,0 +1,51 @@
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { useConvexAuth } from "convex/react";
+import { useEffect } from "react";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { ZoneDwellReport } from "../components/reports/ZoneDwellReport";
+
+export const Route = createFileRoute("/reports")({
+  component: ReportsPage,
+});
+
+function ReportsPage() {
+  const { isAuthenticated, isLoading } = useConvexAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      navigate({ to: "/login" });
+    }
+  }, [isAuthenticated, isLoading, navigate]);
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-surface-0">
+        <div className="h-8 w-8 rounded-full border-2 border-accent/20 border-t-accent animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <div className="flex h-screen flex-col bg-surface-0 text-white">
+      {/* Header */}
+      <header className="gradient-border-b relative flex h-14 shrink-0 items-center gap-3 bg-surface-1/90 backdrop-blur-xl px-5">
+        <button
+          onClick={() => navigate({ to: "/" })}
+          className="rounded-lg p-2 text-white/40 hover:bg-white/5 hover:text-white/80 transition-all duration-200"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </button>
+        <BarChart3 className="h-4 w-4 text-accent" />
+        <h1 className="font-display text-lg font-bold">Reports</h1>
+      </header>
+
+      {/* Content */}
+      <div className="flex-1 overflow-hidden">
+        <ZoneDwellReport />
+      </div>
+    </div>
+  );
+}
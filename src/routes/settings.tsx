@@ -4,6 +4,8 @@ import { useEffect } from "react";
 import { api } from "../../convex/_generated/api";
 import { ArrowLeft } from "lucide-react";
 import { OrgSettings } from "../components/organizations/OrgSettings";
+import { EscalationPolicies } from "../components/organizations/EscalationPolicies";
+import { CommandTemplateManager } from "../components/commands/CommandTemplateManager";
 
 export const Route = createFileRoute("/settings")({
   component: SettingsPage,
@@ -70,7 +72,16 @@ function SettingsPage() {
                 organizationId={organization._id}
                 locationIntervalMs={organization.locationIntervalMs}
                 historyIntervalMs={organization.historyIntervalMs}
+                historyMinDistanceM={organization.historyMinDistanceM}
+                historyRawRetentionDays={organization.historyRawRetentionDays}
+                historyRetentionDays={organization.historyRetentionDays}
               />
+              <div className="mt-6 border-t border-white/[0.06] pt-6">
+                <EscalationPolicies organizationId={organization._id} />
+              </div>
+              <div className="mt-6 border-t border-white/[0.06] pt-6">
+                <CommandTemplateManager />
+              </div>
             </div>
           )}
         </div>
@@ -1,5 +1,5 @@
 import { createFileRoute, useNavigate, Link } from "@tanstack/react-router";
-import { useConvexAuth, useQuery } from "convex/react";
+import { useConvexAuth, useMutation, useQuery } from "convex/react";
 import { useEffect, useState } from "react";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
@@ -38,6 +38,13 @@ function WorkerDetailPage() {
       : "skip"
   );
 
+  // Opening the conversation clears this worker's unread reply badge
+  const markRepliesRead = useMutation(api.commands.markRepliesRead);
+  const hasUnread = !!commandHistory?.some((cmd) => cmd.replies.some((r) => r.isUnread));
+  useEffect(() => {
+    if (hasUnread) markRepliesRead({ workerId: workerId as Id<"workers"> });
+  }, [hasUnread, workerId, markRepliesRead]);
+
   const locationHistory = useQuery(
     api.locations.getWorkerHistory,
     isAuthenticated
@@ -45,6 +52,13 @@ function WorkerDetailPage() {
       : "skip"
   );
 
+  const zoneEvents = useQuery(
+    api.mapZones.getWorkerZoneEvents,
+    isAuthenticated
+      ? { workerId: workerId as Id<"workers"> }
+      : "skip"
+  );
+
   if (isLoading) {
     return (
       <div className="flex h-screen items-center justify-center bg-surface-0">
@@ -77,6 +91,7 @@ function WorkerDetailPage() {
               worker={worker}
               commandHistory={commandHistory ?? []}
               locationHistory={locationHistory ?? []}
+              zoneEvents={zoneEvents ?? []}
               onSendCommand={() => setShowCommandPanel(true)}
             />
           ) : (